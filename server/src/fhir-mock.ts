@@ -0,0 +1,270 @@
+/**
+ * FHIR Mock Server
+ *
+ * Minimal in-memory FHIR R4 endpoint used to try the measurement export of
+ * the web client without a hospital server. It accepts transaction Bundles
+ * POSTed to its base URL, checks the Patient / Observation entries the client
+ * produces, resolves `urn:uuid:` references and honours conditional creates
+ * (`ifNoneExist` on the patient identifier). Stored resources can be listed
+ * with `GET /Patient` and `GET /Observation`.
+ *
+ *   FHIR_PORT  Port to listen on (default 8788)
+ *   HOST       Interface to bind (default: all)
+ */
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+
+export interface FhirMockServerOptions {
+    port: number;       // Port to listen on (0 picks a free port)
+    host?: string;      // Interface to bind, all interfaces by default
+}
+
+export interface FhirMockServer {
+    httpServer: Server;
+    resources: Map<string, FhirResource[]>;    // Stored resources by type
+    port: () => number;                         // Port actually bound (useful with port 0)
+    close: () => Promise<void>;
+}
+
+interface FhirResource {
+    resourceType: string;
+    id?: string;
+    [element: string]: unknown;
+}
+
+interface BundleEntry {
+    fullUrl?: string;
+    resource?: FhirResource;
+    request?: { method?: string; url?: string; ifNoneExist?: string };
+}
+
+const SUPPORTED_TYPES = ['Patient', 'Observation'];
+const MAX_BODY_SIZE = 5 * 1024 * 1024;
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Accept'
+};
+
+class FhirError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/fhir+json' });
+    res.end(JSON.stringify(body));
+}
+
+function operationOutcome(message: string) {
+    return {
+        resourceType: 'OperationOutcome',
+        issue: [{ severity: 'error', code: 'invalid', diagnostics: message }]
+    };
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let size = 0;
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_SIZE) {
+                reject(new FhirError(413, 'Bundle too large'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Checks the elements the web client must fill (see src/features/fhir/observationBundle.ts)
+ */
+function validateResource(resource: FhirResource) {
+    if (resource.resourceType === 'Observation') {
+        const code = resource.code as { coding?: unknown[] } | undefined;
+        if (resource.status !== 'final' && resource.status !== 'preliminary') {
+            throw new FhirError(400, 'Observation.status is required');
+        }
+        if (!Array.isArray(code?.coding) || code.coding.length === 0) {
+            throw new FhirError(400, 'Observation.code.coding is required');
+        }
+        if (resource.valueQuantity === undefined && !Array.isArray(resource.component)) {
+            throw new FhirError(400, 'Observation needs a valueQuantity or components');
+        }
+        if (typeof resource.effectiveDateTime !== 'string') {
+            throw new FhirError(400, 'Observation.effectiveDateTime is required');
+        }
+    }
+}
+
+// Conditional create: "identifier=system|value"
+function findExisting(resources: FhirResource[], ifNoneExist: string): FhirResource | undefined {
+    const match = /^identifier=(?:(.*)\|)?(.+)$/.exec(ifNoneExist);
+    if (!match) return undefined;
+    const [, system, value] = match;
+
+    return resources.find(resource =>
+        (resource.identifier as { system?: string; value?: string }[] | undefined)?.some(identifier =>
+            identifier.value === value && (system === undefined || identifier.system === system)));
+}
+
+/**
+ * Starts a FHIR mock server
+ */
+export function createFhirMockServer(options: FhirMockServerOptions): Promise<FhirMockServer> {
+    const resources = new Map<string, FhirResource[]>(SUPPORTED_TYPES.map(type => [type, []]));
+
+    // Stores the entries of a transaction; nothing is stored if one of them is invalid
+    const processTransaction = (bundle: FhirResource) => {
+        if (bundle.resourceType !== 'Bundle' || (bundle.type !== 'transaction' && bundle.type !== 'batch')) {
+            throw new FhirError(400, 'Expected a transaction Bundle');
+        }
+        const entries = (bundle.entry ?? []) as BundleEntry[];
+        if (!Array.isArray(entries)) {
+            throw new FhirError(400, 'Bundle.entry must be an array');
+        }
+
+        const references = new Map<string, string>(); // fullUrl -> Type/id
+        const created: FhirResource[] = [];
+        const responses = entries.map(entry => {
+            const resource = entry.resource;
+            if (!resource || !SUPPORTED_TYPES.includes(resource.resourceType)) {
+                throw new FhirError(400, `Unsupported resource type: ${resource?.resourceType}`);
+            }
+            if (entry.request?.method !== 'POST' || entry.request.url !== resource.resourceType) {
+                throw new FhirError(400, `Expected POST ${resource.resourceType}`);
+            }
+            validateResource(resource);
+
+            const existing = entry.request.ifNoneExist
+                ? findExisting(resources.get(resource.resourceType)!, entry.request.ifNoneExist)
+                : undefined;
+            const stored = existing ?? { ...resource, id: randomUUID() };
+            if (entry.fullUrl) {
+                references.set(entry.fullUrl, `${stored.resourceType}/${stored.id}`);
+            }
+            if (!existing) {
+                created.push(stored);
+            }
+
+            return {
+                response: {
+                    status: existing ? '200 OK' : '201 Created',
+                    location: `${stored.resourceType}/${stored.id}/_history/1`
+                }
+            };
+        });
+
+        // Replace the bundle-local references by the assigned ids
+        for (const resource of created) {
+            const subject = resource.subject as { reference?: string } | undefined;
+            if (subject?.reference && references.has(subject.reference)) {
+                resource.subject = { ...subject, reference: references.get(subject.reference) };
+            }
+            resources.get(resource.resourceType)!.push(resource);
+        }
+
+        console.log(`[FHIR Mock] 📥 Transaction stored ${created.length} resource(s)`);
+        return { resourceType: 'Bundle', type: `${bundle.type}-response`, entry: responses };
+    };
+
+    const httpServer = createServer(async (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const path = url.pathname.replace(/\/+$/, '');
+
+        try {
+            if (req.method === 'OPTIONS') {
+                res.writeHead(204, CORS_HEADERS);
+                res.end();
+                return;
+            }
+
+            if (req.method === 'GET' && path === '/metadata') {
+                send(res, 200, {
+                    resourceType: 'CapabilityStatement',
+                    status: 'active',
+                    fhirVersion: '4.0.1',
+                    format: ['json'],
+                    rest: [{ mode: 'server', resource: SUPPORTED_TYPES.map(type => ({ type })) }]
+                });
+                return;
+            }
+
+            const type = path.slice(1);
+            if (req.method === 'GET' && resources.has(type)) {
+                const subject = url.searchParams.get('subject');
+                const matches = resources.get(type)!.filter(resource =>
+                    !subject || (resource.subject as { reference?: string } | undefined)?.reference === subject);
+                send(res, 200, {
+                    resourceType: 'Bundle',
+                    type: 'searchset',
+                    total: matches.length,
+                    entry: matches.map(resource => ({ resource }))
+                });
+                return;
+            }
+
+            if (req.method === 'POST' && path === '') {
+                let bundle: FhirResource;
+                try {
+                    bundle = JSON.parse(await readBody(req));
+                } catch (error) {
+                    if (error instanceof FhirError) throw error;
+                    throw new FhirError(400, 'Body is not valid JSON');
+                }
+                send(res, 200, processTransaction(bundle));
+                return;
+            }
+
+            send(res, 404, operationOutcome(`Unknown route ${req.method} ${url.pathname}`));
+        } catch (error) {
+            const status = error instanceof FhirError ? error.status : 500;
+            const message = error instanceof Error ? error.message : String(error);
+            console.warn(`[FHIR Mock] ❌ ${req.method} ${url.pathname}: ${message}`);
+            send(res, status, operationOutcome(message));
+        }
+    });
+
+    return new Promise((resolve, reject) => {
+        httpServer.once('error', reject);
+        httpServer.listen(options.port, options.host, () => {
+            const port = () => {
+                const address = httpServer.address();
+                return typeof address === 'object' && address ? address.port : options.port;
+            };
+            console.log(`[FHIR Mock] 🚀 Listening on port ${port()}`);
+
+            resolve({
+                httpServer,
+                resources,
+                port,
+                close: () => new Promise((done) => httpServer.close(() => done()))
+            });
+        });
+    });
+}
+
+const isEntryPoint = process.argv[1] !== undefined && import.meta.url === pathToFileURL(process.argv[1]).href;
+
+if (isEntryPoint) {
+    const server = await createFhirMockServer({
+        port: Number(process.env.FHIR_PORT ?? 8788),
+        host: process.env.HOST
+    });
+
+    const shutdown = async () => {
+        console.log('[FHIR Mock] 🛑 Shutting down');
+        await server.close();
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+}
@@ -0,0 +1,31 @@
+/**
+ * Signaling Server Entry Point
+ *
+ * Reads its configuration from the environment and starts the server.
+ *   PORT  Port to listen on (default 8787)
+ *   HOST  Interface to bind (default: all)
+ */
+import { pathToFileURL } from 'node:url';
+import { createSignalingServer } from './server.js';
+
+export { createSignalingServer } from './server.js';
+export type { SignalingServer, SignalingServerOptions } from './server.js';
+export { RoomRegistry } from './rooms.js';
+export * from './protocol.js';
+
+const isEntryPoint = process.argv[1] !== undefined && import.meta.url === pathToFileURL(process.argv[1]).href;
+
+if (isEntryPoint) {
+    const server = await createSignalingServer({
+        port: Number(process.env.PORT ?? 8787),
+        host: process.env.HOST
+    });
+
+    const shutdown = async () => {
+        console.log('[Server] 🛑 Shutting down');
+        await server.close();
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+}
@@ -0,0 +1,112 @@
+/**
+ * Signaling Protocol
+ *
+ * Wire format shared with the web client. These shapes mirror
+ * `SignalingMessage` / `UserPresence` (src/features/room/rtc/signaling.ts)
+ * and the frames of the WebSocket transport
+ * (src/features/room/rtc/transport/websocket-transport.ts): keep them in sync.
+ */
+
+/**
+ * Roles accepted in a room presence
+ */
+export const ROLES = ['patient', 'practitioner', 'specialist', 'interpreter', 'caregiver'] as const;
+export type Role = typeof ROLES[number];
+
+/**
+ * Represents a signaling message exchanged between peers
+ */
+export type SignalingMessage = {
+    type: string;           // 'offer' | 'answer' | 'ice-candidate' | 'ack' (relayed as-is)
+    sender: string;         // Client ID of the sender
+    receiver?: string;      // Optional target client ID
+    roomId: string;         // Room identifier
+    content?: unknown;      // WebRTC specific content, opaque to the server (absent for acks)
+    userId?: string;        // Authenticated user owning the sender, verified by the peers
+    signature?: string;     // Sender's session key signature, verified by the peers
+    created_at?: string;    // Message timestamp
+    [field: string]: unknown;
+};
+
+/**
+ * Represents a user present in a room
+ */
+export type UserPresence = {
+    clientId: string;   // Unique identifier for the client
+    role: Role;         // Role in the consultation
+    userId?: string;    // Authenticated user owning the client id, verified by the peers
+    signature?: string; // Client's session key signature, verified by the peers
+    [field: string]: unknown;
+};
+
+/**
+ * Frames sent by the client to the signaling server
+ */
+export type ClientFrame =
+    | { type: 'join'; roomId: string; presence: UserPresence }
+    | { type: 'signal'; message: SignalingMessage }
+    | { type: 'leave' };
+
+/**
+ * Frames sent by the signaling server to the client
+ */
+export type ServerFrame =
+    | { type: 'joined'; roomId: string }
+    | { type: 'signal'; message: SignalingMessage }
+    | { type: 'presence'; presences: UserPresence[] }
+    | { type: 'error'; error: string };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+    typeof value === 'string' && value.length > 0;
+
+/**
+ * Validates a presence entry received from a client
+ */
+export function isUserPresence(value: unknown): value is UserPresence {
+    return isObject(value)
+        && isNonEmptyString(value.clientId)
+        && ROLES.includes(value.role as Role);
+}
+
+/**
+ * Validates a signaling message received from a client
+ */
+export function isSignalingMessage(value: unknown): value is SignalingMessage {
+    return isObject(value)
+        && isNonEmptyString(value.type)
+        && isNonEmptyString(value.sender)
+        && isNonEmptyString(value.roomId)
+        && (value.receiver === undefined || isNonEmptyString(value.receiver));
+}
+
+/**
+ * Parses and validates a raw frame, returns null when it is malformed
+ */
+export function parseClientFrame(raw: string): ClientFrame | null {
+    let frame: unknown;
+    try {
+        frame = JSON.parse(raw);
+    } catch {
+        return null;
+    }
+
+    if (!isObject(frame)) return null;
+
+    switch (frame.type) {
+        case 'join':
+            return isNonEmptyString(frame.roomId) && isUserPresence(frame.presence)
+                ? { type: 'join', roomId: frame.roomId, presence: frame.presence }
+                : null;
+        case 'signal':
+            return isSignalingMessage(frame.message)
+                ? { type: 'signal', message: frame.message }
+                : null;
+        case 'leave':
+            return { type: 'leave' };
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,117 @@
+/**
+ * Room Registry
+ *
+ * Keeps track of the clients connected to each room and implements
+ * room-scoped broadcast, targeted delivery and presence synchronisation.
+ * The registry only knows about the `RoomClient` abstraction so it can be
+ * exercised without real sockets.
+ */
+import type { ServerFrame, SignalingMessage, UserPresence } from './protocol.js';
+
+/**
+ * A connected participant as seen by the registry
+ */
+export interface RoomClient {
+    presence: UserPresence | null;  // Set once the client has joined a room
+    roomId: string | null;          // Room currently joined
+    send(frame: ServerFrame): void;
+}
+
+export class RoomRegistry {
+    private rooms = new Map<string, Set<RoomClient>>();
+
+    /**
+     * Adds a client to a room (leaving its previous room if any)
+     * A client re-joining with an already used clientId replaces the stale entry
+     */
+    join(client: RoomClient, roomId: string, presence: UserPresence) {
+        if (client.roomId) {
+            this.leave(client);
+        }
+
+        const members = this.rooms.get(roomId) ?? new Set<RoomClient>();
+        members.forEach(member => {
+            if (member.presence?.clientId === presence.clientId) {
+                console.log(`[Rooms] ♻️ Replacing stale connection for ${presence.clientId} in ${roomId}`);
+                members.delete(member);
+                member.roomId = null;
+                member.presence = null;
+            }
+        });
+
+        client.roomId = roomId;
+        client.presence = presence;
+        members.add(client);
+        this.rooms.set(roomId, members);
+
+        console.log(`[Rooms] ➕ ${presence.role}:${presence.clientId} joined ${roomId} (${members.size} present)`);
+        client.send({ type: 'joined', roomId });
+        this.syncPresence(roomId);
+    }
+
+    /**
+     * Removes a client from its room and notifies the remaining participants
+     */
+    leave(client: RoomClient) {
+        const roomId = client.roomId;
+        if (!roomId) return;
+
+        const members = this.rooms.get(roomId);
+        client.roomId = null;
+        if (!members) return;
+
+        members.delete(client);
+        console.log(`[Rooms] ➖ ${client.presence?.clientId} left ${roomId} (${members.size} present)`);
+        client.presence = null;
+
+        if (members.size === 0) {
+            this.rooms.delete(roomId);
+        } else {
+            this.syncPresence(roomId);
+        }
+    }
+
+    /**
+     * Relays a signaling message inside the sender's room
+     * Messages with a receiver are delivered to that client only,
+     * others are broadcast to everyone but the sender
+     * @returns The number of clients the message was delivered to
+     */
+    relay(from: RoomClient, message: SignalingMessage): number {
+        const members = from.roomId ? this.rooms.get(from.roomId) : undefined;
+        if (!members) return 0;
+
+        let delivered = 0;
+        members.forEach(member => {
+            if (member === from) return;
+            if (message.receiver && member.presence?.clientId !== message.receiver) return;
+            member.send({ type: 'signal', message });
+            delivered++;
+        });
+        return delivered;
+    }
+
+    /**
+     * Returns the presences tracked in a room
+     */
+    getPresences(roomId: string): UserPresence[] {
+        const members = this.rooms.get(roomId);
+        if (!members) return [];
+        return Array.from(members, member => member.presence).filter((p): p is UserPresence => p !== null);
+    }
+
+    /**
+     * Returns a summary of the active rooms (used by the health endpoint)
+     */
+    stats() {
+        return {
+            rooms: this.rooms.size,
+            clients: Array.from(this.rooms.values()).reduce((total, members) => total + members.size, 0)
+        };
+    }
+
+    private syncPresence(roomId: string) {
+        const presences = this.getPresences(roomId);
+        this.rooms.get(roomId)?.forEach(member => member.send({ type: 'presence', presences }));
+    }
+}
@@ -0,0 +1,140 @@
+/**
+ * Signaling Server
+ *
+ * HTTP + WebSocket server relaying WebRTC signaling between the participants
+ * of a consultation room. It speaks the same protocol as the web client's
+ * WebSocketSignalingTransport and can replace Supabase Realtime on premises
+ * or in end-to-end tests.
+ */
+import { createServer, type Server } from 'node:http';
+import { WebSocketServer, WebSocket } from 'ws';
+import { parseClientFrame, type ServerFrame } from './protocol.js';
+import { RoomRegistry, type RoomClient } from './rooms.js';
+
+export interface SignalingServerOptions {
+    port: number;               // Port to listen on (0 picks a free port)
+    host?: string;              // Interface to bind, all interfaces by default
+    heartbeatInterval?: number; // Interval in ms between dead connection sweeps
+}
+
+export interface SignalingServer {
+    httpServer: Server;
+    registry: RoomRegistry;
+    port: () => number;         // Port actually bound (useful with port 0)
+    close: () => Promise<void>;
+}
+
+const DEFAULT_HEARTBEAT_INTERVAL = 30000;
+
+/**
+ * Wraps a WebSocket into the RoomClient abstraction used by the registry
+ */
+class SocketClient implements RoomClient {
+    public presence: RoomClient['presence'] = null;
+    public roomId: string | null = null;
+    public alive = true;
+
+    constructor(private socket: WebSocket) { }
+
+    send(frame: ServerFrame) {
+        if (this.socket.readyState === WebSocket.OPEN) {
+            this.socket.send(JSON.stringify(frame));
+        }
+    }
+}
+
+/**
+ * Starts a signaling server
+ */
+export function createSignalingServer(options: SignalingServerOptions): Promise<SignalingServer> {
+    const registry = new RoomRegistry();
+
+    // Plain HTTP endpoint for load balancer / container health checks
+    const httpServer = createServer((req, res) => {
+        if (req.url === '/health') {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ status: 'ok', ...registry.stats() }));
+            return;
+        }
+        res.writeHead(404);
+        res.end();
+    });
+
+    const wss = new WebSocketServer({ server: httpServer });
+    const clients = new Map<WebSocket, SocketClient>();
+
+    wss.on('connection', (socket) => {
+        const client = new SocketClient(socket);
+        clients.set(socket, client);
+
+        socket.on('pong', () => {
+            client.alive = true;
+        });
+
+        socket.on('message', (data) => {
+            const frame = parseClientFrame(data.toString());
+            if (!frame) {
+                client.send({ type: 'error', error: 'Malformed frame' });
+                return;
+            }
+
+            switch (frame.type) {
+                case 'join':
+                    registry.join(client, frame.roomId, frame.presence);
+                    break;
+
+                case 'signal':
+                    // A client may only speak in its own room and under its own clientId
+                    if (!client.presence || frame.message.roomId !== client.roomId) {
+                        client.send({ type: 'error', error: 'Not joined to this room' });
+                        return;
+                    }
+                    if (frame.message.sender !== client.presence.clientId) {
+                        client.send({ type: 'error', error: 'Sender does not match joined client' });
+                        return;
+                    }
+                    registry.relay(client, frame.message);
+                    break;
+
+                case 'leave':
+                    registry.leave(client);
+                    break;
+            }
+        });
+
+        socket.on('close', () => {
+            registry.leave(client);
+            clients.delete(socket);
+        });
+    });
+
+    // Drop connections that stopped answering pings so their presence disappears
+    const heartbeat = setInterval(() => {
+        clients.forEach((client, socket) => {
+            if (!client.alive) {
+                console.log(`[Server] 💀 Terminating unresponsive connection ${client.presence?.clientId ?? ''}`);
+                socket.terminate();
+                return;
+            }
+            client.alive = false;
+            socket.ping();
+        });
+    }, options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL);
+
+    const close = () => new Promise<void>((resolve) => {
+        clearInterval(heartbeat);
+        clients.forEach((_client, socket) => socket.terminate());
+        wss.close(() => httpServer.close(() => resolve()));
+    });
+
+    return new Promise((resolve) => {
+        httpServer.listen(options.port, options.host, () => {
+            const port = () => {
+                const address = httpServer.address();
+                return typeof address === 'object' && address ? address.port : options.port;
+            };
+            console.log(`[Server] 🚀 Signaling server listening on port ${port()}`);
+            resolve({ httpServer, registry, port, close });
+        });
+    });
+}
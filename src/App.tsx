@@ -11,9 +11,10 @@ import {
 import { AuthProvider } from "./contexts/AuthContext";
 import ConsultationPage from "./pages/ConsultationPage";
 import ModifyAccountPage from "./pages/ModifyAccountPage";
+import JoinPage from "./pages/JoinPage";
 import BackgroundPattern from "./components/BackgroundPattern";
 import MediaStreamsContext from "./contexts/MediaStreamsContext"; // 👈
-import { MediaStreamList, VideoDevicesType } from "./features/room/rtc/peer/models/types";
+import { MediaStreamList, RemotePeerStreams, VideoDevicesType } from "./features/room/rtc/peer/models/types";
 import VideoDevicesContext from "./contexts/VideoDevicesContext";
 
 function App() {
@@ -21,6 +22,8 @@ function App() {
   // context
   const [videoDevices, setVideoDevices] = useState<VideoDevicesType>([]);
   const [mediaStreams, setMediaStreams] = useState<MediaStreamList>({});
+  // Remote streams grouped by participant (multi-party consultations)
+  const [remotePeerStreams, setRemotePeerStreams] = useState<RemotePeerStreams>({});
   //const [mediaStreams, setMediaStreams] = useState<MediaStreamListType>({});
 
   //#region MediaStreamsContext
@@ -38,7 +41,7 @@ function App() {
 
   return (
     <AuthProvider>
-      <MediaStreamsContext.Provider value={[mediaStreams, addMediaStreams]}>
+      <MediaStreamsContext.Provider value={[mediaStreams, addMediaStreams, remotePeerStreams, setRemotePeerStreams]}>
         <VideoDevicesContext.Provider
               value={[videoDevices, setVideoDevices]}
             >
@@ -52,6 +55,7 @@ function App() {
             <Route element={<ProtectedRoute />}>
               <Route path="/consultation" element={<ConsultationPage />} />
               <Route path="/modify-account" element={<ModifyAccountPage />} />
+              <Route path="/join/:token" element={<JoinPage />} />
             </Route>
             <Route path="/error" element={<ErrorPage />} />
             <Route path="/" element={<HomePage />} />
@@ -4,6 +4,7 @@ import userReducer from '../features/auth/user/user-slice';
 import roomReducer from '../features/room/roomSlice';
 import iceConfigReducer from '../features/room/rtc/ice/ice-config-slice';
 import chatReducer from '../features/chat/chatSlice';
+import measurementHistoryReducer from '../features/bluetooth/measurementHistorySlice';
 import selectedStreamReducer from '@/features/streams/selected-stream-slice';
 import streamReducer from '@/features/streams/streamSlice';
 
@@ -14,6 +15,7 @@ export const store = configureStore({
         room: roomReducer,
         iceConfig: iceConfigReducer,
         chat: chatReducer,
+        measurementHistory: measurementHistoryReducer,
         selectedStream: selectedStreamReducer,
         streams: streamReducer,
     },
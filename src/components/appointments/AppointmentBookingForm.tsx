@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { Alert, Button, Card, Col, Form, Row } from "react-bootstrap";
+import { AppointmentSupabase } from "@/features/appointments/appointmentSupabase";
+import { ProfileService, UserProfile } from "@/services/profileService";
+
+// Durées proposées pour une consultation (en minutes)
+const DURATIONS = [15, 30, 45, 60];
+
+// Formulaire de prise de rendez-vous côté praticien
+export default function AppointmentBookingForm({
+  onBooked,
+}: {
+  onBooked: () => void;
+}) {
+  // Liste des patients pouvant être choisis
+  const [patients, setPatients] = useState<UserProfile[]>([]);
+
+  // Champs du formulaire
+  const [patientId, setPatientId] = useState<string>("");
+  const [date, setDate] = useState<string>("");
+  const [time, setTime] = useState<string>("");
+  const [duration, setDuration] = useState<number>(30);
+  const [reason, setReason] = useState<string>("");
+
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+
+  // Charger les patients au montage
+  useEffect(() => {
+    ProfileService.getPatients().then((result) => {
+      if (result) setPatients(result);
+    });
+  }, []);
+
+  // Enregistrer le rendez-vous (une salle dédiée est créée pour la consultation)
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const startsAt = new Date(`${date}T${time}`);
+    if (isNaN(startsAt.getTime()) || startsAt.getTime() < Date.now()) {
+      setError("Choisissez une date et une heure à venir.");
+      return;
+    }
+    const endsAt = new Date(startsAt.getTime() + duration * 60 * 1000);
+
+    setSubmitting(true);
+    const appointment = await AppointmentSupabase.bookAppointment({
+      patientId,
+      startsAt,
+      endsAt,
+      reason: reason.trim(),
+    });
+    setSubmitting(false);
+
+    if (!appointment) {
+      setError("Impossible d'enregistrer le rendez-vous.");
+      return;
+    }
+
+    // Réinitialiser le formulaire puis prévenir le calendrier
+    setDate("");
+    setTime("");
+    setReason("");
+    onBooked();
+  };
+
+  return (
+    <Card className="card p-0 bg-grey">
+      <Card.Body>
+        <Card.Title className="fw-semibold">Nouveau rendez-vous</Card.Title>
+        <Form onSubmit={handleSubmit}>
+          <Row className="g-2">
+            <Col md={4}>
+              <Form.Group>
+                <Form.Label>Patient</Form.Label>
+                <Form.Select
+                  value={patientId}
+                  onChange={(e) => setPatientId(e.target.value)}
+                  required
+                >
+                  <option value="">Choisir un patient</option>
+                  {patients.map((patient) => (
+                    <option key={patient.id} value={patient.id}>
+                      {patient.username}
+                    </option>
+                  ))}
+                </Form.Select>
+              </Form.Group>
+            </Col>
+            <Col md={3}>
+              <Form.Group>
+                <Form.Label>Date</Form.Label>
+                <Form.Control
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  required
+                />
+              </Form.Group>
+            </Col>
+            <Col md={2}>
+              <Form.Group>
+                <Form.Label>Heure</Form.Label>
+                <Form.Control
+                  type="time"
+                  value={time}
+                  onChange={(e) => setTime(e.target.value)}
+                  required
+                />
+              </Form.Group>
+            </Col>
+            <Col md={3}>
+              <Form.Group>
+                <Form.Label>Durée</Form.Label>
+                <Form.Select
+                  value={duration}
+                  onChange={(e) => setDuration(Number(e.target.value))}
+                >
+                  {DURATIONS.map((minutes) => (
+                    <option key={minutes} value={minutes}>
+                      {minutes} min
+                    </option>
+                  ))}
+                </Form.Select>
+              </Form.Group>
+            </Col>
+          </Row>
+          <Form.Group className="my-2">
+            <Form.Label>Motif</Form.Label>
+            <Form.Control
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </Form.Group>
+          {error && <Alert variant="danger">{error}</Alert>}
+          <Button
+            type="submit"
+            className="primary-btn"
+            size="sm"
+            disabled={submitting || !patientId}
+          >
+            Planifier
+          </Button>
+        </Form>
+      </Card.Body>
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useDispatch } from "react-redux";
+import { useNavigate } from "react-router-dom";
+import { Button, Card, Col, Row } from "react-bootstrap";
+import {
+  AppointmentDetails,
+  AppointmentStatus,
+  AppointmentSupabase,
+} from "@/features/appointments/appointmentSupabase";
+import { roomIdUpdated } from "@/features/room/roomSlice";
+import { supabase } from "@/lib/supabaseClient";
+import AppointmentBookingForm from "./AppointmentBookingForm";
+import AppointmentStatusBadge from "./AppointmentStatusBadge";
+
+// Lundi 00:00 de la semaine contenant la date
+function getWeekStart(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+// Même heure, n jours plus tard : calcul calendaire, une journée ne dure pas 24 h au changement d'heure
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, date.getHours(), date.getMinutes());
+}
+
+// Calendrier hebdomadaire des consultations du praticien
+export default function AppointmentCalendar() {
+  const dispatch = useDispatch();
+  const navigate = useNavigate();
+
+  // Semaine affichée et rendez-vous de cette semaine
+  const [weekStart, setWeekStart] = useState<Date>(() => getWeekStart(new Date()));
+  const [appointments, setAppointments] = useState<AppointmentDetails[]>([]);
+
+  // Heure courante, rafraîchie régulièrement pour activer le bouton "Démarrer" au bon moment
+  const [now, setNow] = useState<Date>(new Date());
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  // Récupérer les rendez-vous de la semaine affichée
+  const loadAppointments = useCallback(async () => {
+    const result = await AppointmentSupabase.getAppointments(
+      weekStart,
+      addDays(weekStart, 7)
+    );
+    if (result) setAppointments(result);
+  }, [weekStart]);
+
+  // Charger les rendez-vous et se mettre à l'écoute des changements en temps réel
+  useEffect(() => {
+    loadAppointments();
+    const subscription = AppointmentSupabase.subscribeToAppointments(loadAppointments);
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [loadAppointments]);
+
+  // Les 7 jours de la semaine avec leurs rendez-vous
+  const days = useMemo(
+    () =>
+      Array.from({ length: 7 }, (_, index) => {
+        const day = addDays(weekStart, index);
+        return {
+          day,
+          appointments: appointments.filter(
+            (appointment) => new Date(appointment.starts_at).toDateString() === day.toDateString()
+          ),
+        };
+      }),
+    [weekStart, appointments]
+  );
+
+  // Changer de semaine
+  const shiftWeek = (weeks: number) => {
+    setWeekStart((prev) => addDays(prev, weeks * 7));
+  };
+
+  // Rejoindre la salle du rendez-vous
+  const handleStart = (roomId: string) => {
+    dispatch(roomIdUpdated(roomId));
+    navigate("/consultation");
+  };
+
+  // Changer le statut d'un rendez-vous puis recharger
+  const handleStatus = async (id: string, status: AppointmentStatus) => {
+    if (status === "cancelled" && !window.confirm("Annuler ce rendez-vous ?")) {
+      return;
+    }
+    await AppointmentSupabase.updateStatus(id, status);
+    loadAppointments();
+  };
+
+  const formatTime = (date: string) =>
+    new Date(date).toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" });
+
+  return (
+    <div>
+      <div className="mb-4">
+        <AppointmentBookingForm onBooked={loadAppointments} />
+      </div>
+
+      {/* Navigation entre les semaines */}
+      <div className="d-flex align-items-center justify-content-between mb-3">
+        <Button className="secondary-btn" size="sm" onClick={() => shiftWeek(-1)}>
+          Semaine précédente
+        </Button>
+        <h3 className="fs-5 m-0">
+          Semaine du {weekStart.toLocaleDateString("fr-FR", { day: "numeric", month: "long" })}
+        </h3>
+        <Button className="secondary-btn" size="sm" onClick={() => shiftWeek(1)}>
+          Semaine suivante
+        </Button>
+      </div>
+
+      <Row className="g-2">
+        {/* Une colonne par jour */}
+        {days.map(({ day, appointments: dayAppointments }) => (
+          <Col key={day.toISOString()}>
+            <Card className="card p-0 bg-grey h-100">
+              <Card.Body className="p-2">
+                <p className="fw-semibold text-center small text-capitalize">
+                  {day.toLocaleDateString("fr-FR", { weekday: "short", day: "numeric" })}
+                </p>
+                {dayAppointments.length === 0 && (
+                  <p className="m-0 color-lightblue small text-center">—</p>
+                )}
+                {dayAppointments.map((appointment) => (
+                  <div key={appointment.id} className="border-bottom pb-2 mb-2 small">
+                    <p className="m-0 fw-semibold">
+                      {formatTime(appointment.starts_at)} – {formatTime(appointment.ends_at)}
+                    </p>
+                    <p className="m-0">{appointment.patient?.username ?? "Patient"}</p>
+                    {appointment.reason && <p className="m-0 color-lightblue">{appointment.reason}</p>}
+                    <AppointmentStatusBadge status={appointment.status} />
+
+                    {/* Actions du praticien */}
+                    <div className="d-flex flex-wrap gap-1 mt-1">
+                      {appointment.room_id && AppointmentSupabase.isJoinable(appointment, now) && (
+                        <Button
+                          size="sm"
+                          className="primary-btn"
+                          onClick={() => handleStart(appointment.room_id as string)}
+                        >
+                          Démarrer
+                        </Button>
+                      )}
+                      {(appointment.status === "scheduled" || appointment.status === "confirmed") && (
+                        <>
+                          <Button
+                            size="sm"
+                            className="secondary-btn"
+                            onClick={() => handleStatus(appointment.id, "completed")}
+                          >
+                            Terminer
+                          </Button>
+                          <Button
+                            size="sm"
+                            className="tertiary-btn"
+                            onClick={() => handleStatus(appointment.id, "cancelled")}
+                          >
+                            Annuler
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </Card.Body>
+            </Card>
+          </Col>
+        ))}
+      </Row>
+    </div>
+  );
+}
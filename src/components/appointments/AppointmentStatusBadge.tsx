@@ -0,0 +1,16 @@
+import { Badge } from "react-bootstrap";
+import { AppointmentStatus } from "@/features/appointments/appointmentSupabase";
+
+// Libellé et couleur de chaque statut de rendez-vous
+const STATUS_DISPLAY: Record<AppointmentStatus, { label: string; bg: string }> = {
+  scheduled: { label: "Planifié", bg: "secondary" },
+  confirmed: { label: "Confirmé", bg: "success" },
+  cancelled: { label: "Annulé", bg: "danger" },
+  completed: { label: "Terminé", bg: "dark" },
+};
+
+// Badge affichant le statut d'un rendez-vous
+export default function AppointmentStatusBadge({ status }: { status: AppointmentStatus }) {
+  const { label, bg } = STATUS_DISPLAY[status];
+  return <Badge bg={bg}>{label}</Badge>;
+}
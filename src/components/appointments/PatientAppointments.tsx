@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useState } from "react";
+import { useDispatch } from "react-redux";
+import { useNavigate } from "react-router-dom";
+import { Button, Card, Stack } from "react-bootstrap";
+import {
+  AppointmentDetails,
+  AppointmentStatus,
+  AppointmentSupabase,
+  JOIN_WINDOW_MINUTES,
+} from "@/features/appointments/appointmentSupabase";
+import { roomIdUpdated } from "@/features/room/roomSlice";
+import { supabase } from "@/lib/supabaseClient";
+import PatientWaitingRoom from "@/components/room/PatientWaitingRoom";
+import AppointmentStatusBadge from "./AppointmentStatusBadge";
+
+// "Mes rendez-vous" côté patient : rendez-vous à venir et accès à la bonne salle au bon moment
+export default function PatientAppointments() {
+  const dispatch = useDispatch();
+  const navigate = useNavigate();
+
+  const [appointments, setAppointments] = useState<AppointmentDetails[]>([]);
+
+  // Rendez-vous dont le patient a rejoint la salle d'attente (null sinon)
+  const [joining, setJoining] = useState<AppointmentDetails | null>(null);
+
+  // Heure courante, rafraîchie régulièrement pour activer le bouton "Rejoindre" au bon moment
+  const [now, setNow] = useState<Date>(new Date());
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  // Récupérer les rendez-vous à venir
+  const loadAppointments = useCallback(async () => {
+    const result = await AppointmentSupabase.getUpcomingAppointments();
+    if (result) setAppointments(result);
+  }, []);
+
+  // Charger les rendez-vous et se mettre à l'écoute des changements en temps réel
+  useEffect(() => {
+    loadAppointments();
+    const subscription = AppointmentSupabase.subscribeToAppointments(loadAppointments);
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [loadAppointments]);
+
+  // Confirmer ou annuler un rendez-vous
+  const handleStatus = async (id: string, status: AppointmentStatus) => {
+    if (status === "cancelled" && !window.confirm("Annuler ce rendez-vous ?")) {
+      return;
+    }
+    await AppointmentSupabase.updateStatus(id, status);
+    loadAppointments();
+  };
+
+  // Une fois admis par le praticien, entrer dans la salle de consultation
+  const handleAdmitted = useCallback(
+    (roomId: string) => {
+      dispatch(roomIdUpdated(roomId));
+      navigate("/consultation");
+    },
+    [dispatch, navigate]
+  );
+
+  // Salle d'attente du rendez-vous choisi
+  if (joining?.room) {
+    return (
+      <PatientWaitingRoom
+        room={joining.room}
+        defaultReason={joining.reason}
+        onAdmitted={handleAdmitted}
+        onLeave={() => setJoining(null)}
+      />
+    );
+  }
+
+  return (
+    <Card className="card p-0 bg-grey">
+      <Card.Body>
+        <Card.Title className="fw-semibold">Mes rendez-vous</Card.Title>
+
+        {appointments.length === 0 ? (
+          <p className="m-0 color-lightblue small">Aucun rendez-vous à venir</p>
+        ) : (
+          <Stack gap={2}>
+            {appointments.map((appointment) => {
+              const startsAt = new Date(appointment.starts_at);
+              const joinable = AppointmentSupabase.isJoinable(appointment, now);
+
+              return (
+                <div
+                  key={appointment.id}
+                  className="d-flex align-items-center justify-content-between gap-3 border-bottom pb-2"
+                >
+                  <div>
+                    <p className="m-0 fw-semibold text-capitalize">
+                      {startsAt.toLocaleString("fr-FR", {
+                        weekday: "long",
+                        day: "numeric",
+                        month: "long",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}{" "}
+                      <AppointmentStatusBadge status={appointment.status} />
+                    </p>
+                    <p className="m-0 small">
+                      {appointment.practitioner?.username ?? "Praticien"}
+                      {appointment.reason && ` – ${appointment.reason}`}
+                    </p>
+                  </div>
+
+                  <div className="d-flex gap-2 align-items-center">
+                    {appointment.status === "scheduled" && (
+                      <Button
+                        size="sm"
+                        className="secondary-btn"
+                        onClick={() => handleStatus(appointment.id, "confirmed")}
+                      >
+                        Confirmer
+                      </Button>
+                    )}
+                    {(appointment.status === "scheduled" || appointment.status === "confirmed") && (
+                      <Button
+                        size="sm"
+                        className="tertiary-btn"
+                        onClick={() => handleStatus(appointment.id, "cancelled")}
+                      >
+                        Annuler
+                      </Button>
+                    )}
+                    {/* La salle ouvre quelques minutes avant l'heure du rendez-vous */}
+                    <Button
+                      size="sm"
+                      className="primary-btn"
+                      disabled={!joinable}
+                      title={joinable ? undefined : `Disponible ${JOIN_WINDOW_MINUTES} min avant le rendez-vous`}
+                      onClick={() => setJoining(appointment)}
+                    >
+                      Rejoindre
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </Stack>
+        )}
+      </Card.Body>
+    </Card>
+  );
+}
@@ -2,7 +2,7 @@ import { useForm } from "react-hook-form";
 import { supabase } from "@/lib/supabaseClient";
 import { useState, useEffect } from "react";
 import { Alert, Button, Form, Row, Col } from "react-bootstrap";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import Select from "react-select";
 
 import styles from "./LoginRegister.module.css";
@@ -34,6 +34,9 @@ export default function LoginRegister({
   }, [isRegistering]);
 
   const navigate = useNavigate();
+  // Page demandée avant la connexion (ex : lien d'invitation), sinon l'accueil
+  const location = useLocation();
+  const redirectTo: string = location.state?.from ?? "/";
 
   const onSubmit = async (data: FormValues) => {
     setError(null);
@@ -84,7 +87,7 @@ export default function LoginRegister({
       if (signInError) setError(signInError.message);
       else {
         setMessage("Connexion réussie !");
-        navigate("/");
+        navigate(redirectTo);
       }
     }
     reset();
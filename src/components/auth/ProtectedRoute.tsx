@@ -1,6 +1,6 @@
 import { useAuth } from "@/contexts/AuthContext";
 import React from "react";
-import { Navigate, Outlet } from "react-router-dom";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
 
 /**
  * ProtectedRoute - Protège les routes nécessitant une authentification
@@ -8,6 +8,7 @@ import { Navigate, Outlet } from "react-router-dom";
  */
 export const ProtectedRoute = () => {
     const { session, loading } = useAuth();
+    const location = useLocation();
 
     // Si le chargement est en cours, on peut afficher un loader ou rien
     if (loading) {
@@ -15,8 +16,9 @@ export const ProtectedRoute = () => {
     }
 
     // Si l'utilisateur n'est pas connecté, rediriger vers la page de connexion
+    // en mémorisant la page demandée (ex : lien d'invitation) pour y revenir après connexion
     if (!session) {
-        return <Navigate to="/login" replace />;
+        return <Navigate to="/login" replace state={{ from: location.pathname }} />;
     }
 
     // Si l'utilisateur est connecté, afficher les composants enfants
@@ -30,14 +32,15 @@ export const ProtectedRoute = () => {
  */
 export const PublicOnlyRoute = () => {
     const { session, loading } = useAuth();
+    const location = useLocation();
 
     if (loading) {
         return <div>Chargement...</div>;
     }
 
-    // Si l'utilisateur est connecté, rediriger vers la page d'accueil
+    // Si l'utilisateur est connecté, rediriger vers la page demandée avant connexion ou vers la page d'accueil
     if (session) {
-        return <Navigate to="/" replace />;
+        return <Navigate to={location.state?.from ?? "/"} replace />;
     }
 
     // Si l'utilisateur n'est pas connecté, afficher les composants enfants
@@ -0,0 +1,73 @@
+import React from "react";
+import { Badge, Button } from "react-bootstrap";
+import { BsBattery, BsBatteryFull, BsBatteryHalf } from "react-icons/bs";
+import { DeviceConnectionState, ManagedDevice } from "@/features/bluetooth/useBluetooth";
+import { getServiceLabel } from "./measurementLabels";
+
+// Libellé et couleur de l'état de connexion
+const STATE_BADGES: Record<DeviceConnectionState, { label: string; bg: string }> = {
+  connecting: { label: "Connexion", bg: "secondary" },
+  connected: { label: "Connecté", bg: "success" },
+  reconnecting: { label: "Reconnexion", bg: "warning" },
+  failed: { label: "Échec", bg: "danger" },
+  disconnected: { label: "Déconnecté", bg: "secondary" },
+};
+
+const BatteryIcon: React.FC<{ level: number }> = ({ level }) =>
+  level > 66 ? <BsBatteryFull /> : level > 33 ? <BsBatteryHalf /> : <BsBattery className="color-red" />;
+
+interface BluetoothDeviceListProps {
+  devices: ManagedDevice[];
+  onReconnect: (id: string) => void;
+  onDisconnect: (id: string) => void;
+  onForget: (id: string) => void;
+}
+
+// Côté patient : appareils connectés, avec leur état, leur batterie et les actions de connexion
+const BluetoothDeviceList: React.FC<BluetoothDeviceListProps> = ({ devices, onReconnect, onDisconnect, onForget }) => {
+  if (devices.length === 0) return null;
+
+  return (
+    <ul className="px-2 mb-3">
+      {devices.map((device) => (
+        <li key={device.id} className="border-bottom py-1" style={{ fontSize: ".8em" }}>
+          <div className="d-flex justify-content-between align-items-center gap-2">
+            <span className="fw-bold">
+              {device.name}
+              <Badge bg={STATE_BADGES[device.state].bg} className="ms-2 fw-normal">
+                {STATE_BADGES[device.state].label}
+              </Badge>
+            </span>
+            {device.batteryLevel !== undefined && (
+              <span title="Batterie">
+                <BatteryIcon level={device.batteryLevel} /> {device.batteryLevel} %
+              </span>
+            )}
+          </div>
+
+          {device.services.length > 0 && (
+            <div className="opacity-50">{device.services.map(getServiceLabel).join(" · ")}</div>
+          )}
+          {device.status && <div className="opacity-50">{device.status}</div>}
+
+          <div className="d-flex gap-3">
+            {device.state === "disconnected" || device.state === "failed" ? (
+              <Button variant="link" className="tertiary-btn p-0" style={{ fontSize: "1em" }} onClick={() => onReconnect(device.id)}>
+                Reconnecter
+              </Button>
+            ) : (
+              <Button variant="link" className="tertiary-btn p-0" style={{ fontSize: "1em" }} onClick={() => onDisconnect(device.id)}>
+                Déconnecter
+              </Button>
+            )}
+            <Button variant="link" className="tertiary-btn p-0" style={{ fontSize: "1em" }} onClick={() => onForget(device.id)}>
+              Oublier
+            </Button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default BluetoothDeviceList;
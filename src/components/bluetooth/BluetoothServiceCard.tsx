@@ -1,14 +1,23 @@
-import React, { useEffect, useState } from "react";
+import React, { Suspense, lazy, useEffect, useState } from "react";
 import ServiceCard from "./ServiceCard";
+import MeasurementHistory from "./MeasurementHistory";
+import BluetoothDeviceList from "./BluetoothDeviceList";
+import FhirExportPanel from "./FhirExportPanel";
+import { PatientDetails } from "@/features/fhir/observationBundle";
 import { useBluetooth } from "@/features/bluetooth/useBluetooth";
+import { RECORD_ACCESS_SERVICES } from "@/features/bluetooth/services";
 import { useDoctorData } from "@/features/bluetooth/useDoctorData";
-import { PeerConnection } from "@/features/room/rtc/peer/connection/peer-connection";
+import { Measurement, PeerMesh } from "@/features/room/rtc/peer";
+
+// Panneau des appareils simulés, chargé seulement en développement : absent du build de production
+const MockBluetoothPanel = import.meta.env.DEV ? lazy(() => import("./MockBluetoothPanel")) : null;
 
 interface Props {
   role: "doctor" | "patient";
-  peerConnection?: PeerConnection;
+  peerConnection?: PeerMesh;
   onSendConnect?: (fn: () => Promise<void>) => void;
   onSendStatus?: (status: string) => void;
+  patient?: PatientDetails | null; // Médecin : patient auquel rattacher l'export FHIR des mesures
 }
 
 export default function BluetoothServiceCard({
@@ -16,18 +25,28 @@ export default function BluetoothServiceCard({
   peerConnection,
   onSendConnect,
   onSendStatus,
+  patient,
 }: Props) {
-  const [mergedConnectedCards, setMergedConnectedCards] = useState<object>({});
-
   // Médecin : récupère les données via WebRTC
-  const { doctorServices, receiveData } = useDoctorData();
+  const { doctorServices, history, receiveData, clearHistory, annotateReading } = useDoctorData();
+
+  // Médecin : service dont l'historique est affiché à côté de sa carte
+  const [historyService, setHistoryService] = useState<string | null>(null);
 
   // Infirmier : capte les données via Bluetooth
-  const { status, connectedCards, connect } = useBluetooth({
+  const {
+    status,
+    devices,
+    connectedCards,
+    connect,
+    reconnectDevice,
+    disconnectDevice,
+    forgetDevice,
+    downloadStoredRecords,
+  } = useBluetooth({
     onMeasurement: (payload) => {
-      if (!peerConnection?.isDataChannelAvailable()) return;
-      const manager = peerConnection.getDataChannelManager();
-      manager.sendMeasurement(payload);
+      // Envoyer la mesure à tous les participants (mise en attente si le canal de données est coupé)
+      peerConnection?.sendMeasurement(payload);
     },
   });
 
@@ -39,41 +58,78 @@ export default function BluetoothServiceCard({
   }, [connect, status, onSendConnect, onSendStatus]);
 
   useEffect(() => {
-    if (role === "patient") {
-      const temp = Object.fromEntries(
-        connectedCards.map(({ service, deviceName, measurements }) => {
-          const merged = Object.assign(
-            {},
-            ...measurements.map(({ name, data }) => ({ [name]: data }))
-          );
-          return [service, { ...merged, deviceName }];
-        })
-      );
-      setMergedConnectedCards(temp);
-    }
-  }, [connectedCards]);
-
-  useEffect(() => {
-    if (role === "doctor" && peerConnection?.isDataChannelAvailable()) {
-      const manager = peerConnection.getDataChannelManager();
-      manager.onMeasurement(receiveData);
+    // Le maillage conserve l'abonnement même si le canal de données n'est pas encore ouvert
+    if (role === "doctor" && peerConnection) {
+      return peerConnection.onMeasurement(receiveData);
     }
   }, [peerConnection, receiveData, role]);
 
-  const displayCards =
-    role === "doctor" ? doctorServices : mergedConnectedCards;
+  // Médecin : une carte par service (historique commun) ; patient : une carte par appareil et par service
+  const displayCards: { id: string; service: string; measurements: Measurement[]; deviceId?: string }[] =
+    role === "doctor"
+      ? Object.entries(doctorServices).map(([service, measurements]) => ({ id: service, service, measurements }))
+      : connectedCards.map(({ device, service, measurements }) => ({
+          id: `${device.id}-${service}`,
+          service,
+          measurements,
+          deviceId: device.id,
+        }));
 
   return (
     <div className="p-0 w-100">
-      {Object.entries(displayCards).length === 0 ? (
+      {role === "doctor" && <FhirExportPanel history={history} patient={patient} />}
+      {role === "patient" && MockBluetoothPanel && (
+        <Suspense fallback={null}>
+          <MockBluetoothPanel />
+        </Suspense>
+      )}
+      {role === "patient" && (
+        <BluetoothDeviceList
+          devices={devices}
+          onReconnect={reconnectDevice}
+          onDisconnect={disconnectDevice}
+          onForget={forgetDevice}
+        />
+      )}
+      {displayCards.length === 0 ? (
         <p className="pe-3 ps-2">Aucune mesure reçue pour le moment.</p>
       ) : (
         <div className="w-100 d-flex flex-wrap">
-          {Object.entries(displayCards).map(([service, entry], index) => (
-            <div className="w-50 px-2" key={`${service}-${index}`}>
-              <ServiceCard service={service} measurements={entry} />
-            </div>
-          ))}
+          {displayCards.map(({ id, service, measurements, deviceId }) =>
+            role === "doctor" && historyService === service ? (
+              <div className="w-100 d-flex" key={id}>
+                <div className="w-50 px-2">
+                  <ServiceCard
+                    service={service}
+                    measurements={measurements}
+                    historyOpen
+                    onToggleHistory={() => setHistoryService(null)}
+                  />
+                </div>
+                <div className="w-50 px-2">
+                  <MeasurementHistory
+                    service={service}
+                    readings={history[service] ?? []}
+                    onClear={() => clearHistory(service)}
+                    onAnnotate={(id, note) => annotateReading(service, id, note)}
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="w-50 px-2" key={id}>
+                <ServiceCard
+                  service={service}
+                  measurements={measurements}
+                  onToggleHistory={role === "doctor" ? () => setHistoryService(service) : undefined}
+                  onDownloadRecords={
+                    deviceId && RECORD_ACCESS_SERVICES.includes(service)
+                      ? () => downloadStoredRecords(deviceId, service)
+                      : undefined
+                  }
+                />
+              </div>
+            )
+          )}
         </div>
       )}
     </div>
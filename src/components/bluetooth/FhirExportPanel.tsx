@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Alert, Button, Form, InputGroup } from "react-bootstrap";
+import { BsDownload, BsSend } from "react-icons/bs";
+import { MeasurementReading } from "@/features/bluetooth/measurementHistorySlice";
+import { createObservationBundle, isIdentifiedPatient, PatientDetails } from "@/features/fhir/observationBundle";
+import { FhirClient } from "@/features/fhir/fhirClient";
+
+// Export des mesures de la consultation au format FHIR (Bundle d'Observations) côté praticien
+export default function FhirExportPanel({
+  history,
+  patient,
+}: {
+  history: Record<string, MeasurementReading[]>;
+  patient?: PatientDetails | null;
+}) {
+  // Adresse du serveur FHIR de l'hôpital (modifiable, conservée dans le navigateur)
+  const [endpoint, setEndpoint] = useState(FhirClient.getEndpoint());
+  const [isSending, setIsSending] = useState(false);
+  const [result, setResult] = useState<{ variant: "success" | "danger"; text: string } | null>(null);
+
+  const readingCount = Object.values(history).reduce((count, series) => count + series.length, 0);
+  // Sans numéro, le serveur ne peut pas retrouver le patient : chaque export en créerait un nouveau
+  const canExport = readingCount > 0 && isIdentifiedPatient(patient);
+
+  const handleDownload = () => {
+    if (!isIdentifiedPatient(patient)) return;
+    FhirClient.downloadBundle(createObservationBundle(history, patient));
+  };
+
+  const handleSend = async () => {
+    if (!isIdentifiedPatient(patient)) return;
+    FhirClient.setEndpoint(endpoint);
+    setIsSending(true);
+    setResult(null);
+
+    const response = await FhirClient.postBundle(createObservationBundle(history, patient), endpoint);
+    setResult(
+      response.ok
+        ? { variant: "success", text: "Mesures envoyées au dossier du patient." }
+        : { variant: "danger", text: `Échec de l'envoi${response.status ? ` (${response.status})` : ""} : ${response.error ?? ""}` }
+    );
+    setIsSending(false);
+  };
+
+  return (
+    <div className="px-2 mb-3">
+      <div className="d-flex flex-wrap align-items-center gap-2">
+        <Button
+          className="secondary-btn"
+          style={{ fontSize: ".8em" }}
+          onClick={handleDownload}
+          disabled={!canExport}
+        >
+          <BsDownload className="me-1" />
+          Exporter (FHIR)
+        </Button>
+        <InputGroup size="sm" className="flex-grow-1" style={{ maxWidth: "28em" }}>
+          <Form.Control
+            className="bg-grey"
+            type="url"
+            placeholder="Adresse du serveur FHIR"
+            value={endpoint}
+            onChange={(event) => setEndpoint(event.target.value)}
+          />
+          <Button
+            className="primary-btn"
+            onClick={handleSend}
+            disabled={!canExport || !endpoint || isSending}
+          >
+            <BsSend className="me-1" />
+            {isSending ? "Envoi..." : "Envoyer"}
+          </Button>
+        </InputGroup>
+      </div>
+
+      {!isIdentifiedPatient(patient) && readingCount > 0 && (
+        <small className="d-block opacity-50 mt-1">
+          Numéro du patient non renseigné : complétez les informations du patient pour exporter les mesures.
+        </small>
+      )}
+      {result && (
+        <Alert variant={result.variant} className="small py-1 px-2 mt-2 mb-0" dismissible onClose={() => setResult(null)}>
+          {result.text}
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,11 @@
-import { Card, Row, Button } from "react-bootstrap";
-import { useEffect, useState } from "react";
+import { Card, Row } from "react-bootstrap";
+import { Measurement } from "@/features/room/rtc/peer";
+import { formatMeasurementValue, getMeasurementLabel, getUnitLabel } from "./measurementLabels";
+
+const MeasureCard = ({ measurements }: { measurements: Measurement[] }) => {
+  // Valeurs lues ensemble : elles partagent la date de la mesure
+  const measuredAt = new Date(measurements[0].timestamp);
 
-const MeasureCard = ({
-  measurements,
-}: {
-  measurements: {
-    [key: string]: {
-      deviceName: string;
-      [key: string]: string | number;
-    };
-  };
-}) => {
   return (
     <Card className="p-1 mb-1 bg-white-pink card rounded-3">
       <Card.Body className="p-0">
@@ -19,15 +14,14 @@ const MeasureCard = ({
           <div style={{ width: "28%" }} className="p-0 pe-2">
             <div className="card h-100 bg-white-pink w-100 rounded-2 d-flex align-items-center justify-content-center text-center">
               <small style={{ fontSize: ".75em", lineHeight: "1.2em" }}>
-                {/* Séparation en 2 de la "Date de la mesure" */}
                 <span className="d-block">
                     {/* Date */}
-                  {measurements["Date de la mesure"].toString().split(" ")[0]}
+                  {measuredAt.toLocaleDateString()}
                 </span>
                 -
                 <span className="d-block">
                     {/* Heure */}
-                  {measurements["Date de la mesure"].toString().split(" ")[1]}
+                  {measuredAt.toLocaleTimeString()}
                 </span>
               </small>
             </div>
@@ -35,27 +29,20 @@ const MeasureCard = ({
           {/* Colonne de droite : Mesures */}
           <div style={{ width: "72%" }} className="p-0">
             <ul className="m-0">
-                {/* Pour chaque mesure, or nom de l'appareil et date de la mesure */}
-              {Object.entries(measurements).map(
-                ([name, data], index) =>
-                  name !== "Date de la mesure" &&
-                  name !== "deviceName" && (
-                    <li key={index}>
-                      <small style={{ fontSize: ".8em" }}>
-                        {name.replace(/\([^)]*\)/g, "")} :{" "}
-                        <span className="color-red fw-semibold">
-                          {String(data)}
-                        </span>{" "}
-                        <span className="color-lightblue">
-                          {name
-                            .match(/\(([^)]+)\)/g)
-                            ?.toString()
-                            .replace(/[()]/g, "")}
-                        </span>
-                      </small>
-                    </li>
-                  )
-              )}
+                {/* Pour chaque mesure : libellé, valeur et unité */}
+              {measurements.map((measurement) => (
+                <li key={measurement.key}>
+                  <small style={{ fontSize: ".8em" }}>
+                    {getMeasurementLabel(measurement.key)} :{" "}
+                    <span className="color-red fw-semibold">
+                      {formatMeasurementValue(measurement)}
+                    </span>{" "}
+                    <span className="color-lightblue">
+                      {getUnitLabel(measurement.unit)}
+                    </span>
+                  </small>
+                </li>
+              ))}
             </ul>
           </div>
         </Row>
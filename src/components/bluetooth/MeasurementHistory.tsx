@@ -0,0 +1,219 @@
+import React, { useState } from "react";
+import { Button, Card, Form } from "react-bootstrap";
+import { BsPencil, BsTrash } from "react-icons/bs";
+import { MeasurementReading } from "@/features/bluetooth/measurementHistorySlice";
+import { formatMeasurementValue, getMeasurementLabel, getServiceLabel, getUnitLabel } from "./measurementLabels";
+
+// Une couleur par champ (systolique, diastolique, fréquence cardiaque...)
+const FIELD_COLORS = ["#da6254", "#2a5867", "#7a9cc6", "#e0a030"];
+
+// Dimensions du graphique (unités du viewBox)
+const WIDTH = 300;
+const HEIGHT = 140;
+const PADDING = { top: 10, right: 10, bottom: 20, left: 34 };
+
+// Valeurs de chaque grandeur au fil du temps, avec leur libellé affiché ("Systolique (mmHg)")
+function getFieldSeries(readings: MeasurementReading[]) {
+  const series: Record<string, { reading: MeasurementReading; value: number }[]> = {};
+  for (const reading of readings) {
+    for (const measurement of reading.measurements) {
+      const field = `${getMeasurementLabel(measurement.key)} (${getUnitLabel(measurement.unit)})`;
+      (series[field] ??= []).push({ reading, value: measurement.value });
+    }
+  }
+  return series;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+// Courbe de chaque champ ; les mesures annotées sont mises en évidence
+const MeasurementChart: React.FC<{ readings: MeasurementReading[] }> = ({ readings }) => {
+  const series = getFieldSeries(readings);
+  const values = Object.values(series).flat().map(({ value }) => value);
+  if (values.length === 0) {
+    return <p className="small opacity-50 m-0">Aucune valeur à afficher.</p>;
+  }
+
+  // Échelles : date de la mesure en abscisse, marge de 10 % autour des valeurs en ordonnée
+  const firstTime = readings[0].timestamp;
+  const lastTime = readings[readings.length - 1].timestamp;
+  const minValue = Math.min(...values);
+  const maxValue = Math.max(...values);
+  const margin = (maxValue - minValue) * 0.1 || 1;
+  const yMin = minValue - margin;
+  const yMax = maxValue + margin;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (timestamp: number) =>
+    PADDING.left + (lastTime === firstTime ? plotWidth / 2 : ((timestamp - firstTime) / (lastTime - firstTime)) * plotWidth);
+  const y = (value: number) => PADDING.top + ((yMax - value) / (yMax - yMin)) * plotHeight;
+
+  return (
+    <>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-100" role="img" aria-label="Évolution des mesures">
+        {/* Axes et repères min / max */}
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} stroke="#c0d4ec" />
+        <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} stroke="#c0d4ec" />
+        {[minValue, maxValue].map((value) => (
+          <text key={value} x={PADDING.left - 4} y={y(value) + 3} fontSize="8" textAnchor="end" fill="#2a5867">
+            {value.toFixed(1)}
+          </text>
+        ))}
+        <text x={PADDING.left} y={HEIGHT - 6} fontSize="8" fill="#2a5867">
+          {formatTime(firstTime)}
+        </text>
+        {lastTime !== firstTime && (
+          <text x={WIDTH - PADDING.right} y={HEIGHT - 6} fontSize="8" textAnchor="end" fill="#2a5867">
+            {formatTime(lastTime)}
+          </text>
+        )}
+
+        {Object.entries(series).map(([field, points], index) => {
+          const color = FIELD_COLORS[index % FIELD_COLORS.length];
+          return (
+            <g key={field}>
+              <polyline
+                points={points.map(({ reading, value }) => `${x(reading.timestamp)},${y(value)}`).join(" ")}
+                fill="none"
+                stroke={color}
+                strokeWidth="1.5"
+              />
+              {points.map(({ reading, value }) => (
+                <circle
+                  key={reading.id}
+                  cx={x(reading.timestamp)}
+                  cy={y(value)}
+                  r={reading.note ? 4 : 2.5}
+                  fill={reading.note ? "#fffbfc" : color}
+                  stroke={color}
+                  strokeWidth="1.5"
+                >
+                  <title>
+                    {`${field} : ${formatMeasurementValue({ value })} (${formatTime(reading.timestamp)})${reading.note ? ` - ${reading.note}` : ""}`}
+                  </title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Légende */}
+      <div className="d-flex flex-wrap gap-2" style={{ fontSize: ".7em" }}>
+        {Object.keys(series).map((field, index) => (
+          <span key={field}>
+            <span
+              className="d-inline-block rounded-circle me-1"
+              style={{ width: ".7em", height: ".7em", backgroundColor: FIELD_COLORS[index % FIELD_COLORS.length] }}
+            />
+            {field}
+          </span>
+        ))}
+      </div>
+    </>
+  );
+};
+
+interface MeasurementHistoryProps {
+  service: string;
+  readings: MeasurementReading[];
+  onClear: () => void;
+  onAnnotate: (id: string, note: string) => void;
+}
+
+// Historique d'un service côté praticien : courbe des mesures et liste annotable
+const MeasurementHistory: React.FC<MeasurementHistoryProps> = ({ service, readings, onClear, onAnnotate }) => {
+  // Mesure dont l'annotation est en cours de saisie
+  const [editing, setEditing] = useState<{ id: string; note: string } | null>(null);
+
+  const handleClear = () => {
+    if (window.confirm(`Effacer l'historique « ${getServiceLabel(service)} » ?`)) {
+      onClear();
+    }
+  };
+
+  const handleSaveNote = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!editing) return;
+    onAnnotate(editing.id, editing.note);
+    setEditing(null);
+  };
+
+  return (
+    <Card className="p-2 card bg-grey w-100 rounded-3">
+      <Card.Body className="p-0">
+        <div className="d-flex justify-content-between align-items-center mb-2">
+          <h3 className="fs-6 fw-bold mb-0 mt-1">
+            Historique ({readings.length})
+          </h3>
+          <Button
+            className="tertiary-btn"
+            style={{ fontSize: ".8em" }}
+            variant="link"
+            onClick={handleClear}
+            disabled={readings.length === 0}
+          >
+            <BsTrash className="me-1" />
+            Effacer
+          </Button>
+        </div>
+
+        {readings.length === 0 ? (
+          <p className="small m-0">Aucune mesure enregistrée.</p>
+        ) : (
+          <>
+            <MeasurementChart readings={readings} />
+
+            {/* Mesures, de la plus récente à la plus ancienne */}
+            <ul className="mt-2 mb-0" style={{ maxHeight: "12em", overflowY: "auto" }}>
+              {[...readings].reverse().map((reading) => (
+                <li key={reading.id} className="border-bottom py-1" style={{ fontSize: ".75em" }}>
+                  <div className="d-flex justify-content-between gap-2">
+                    <span className="opacity-50">{new Date(reading.timestamp).toLocaleString()}</span>
+                    <Button
+                      variant="link"
+                      className="p-0 color-blue"
+                      style={{ fontSize: "1em" }}
+                      title="Annoter"
+                      onClick={() => setEditing({ id: reading.id, note: reading.note ?? "" })}
+                    >
+                      <BsPencil />
+                    </Button>
+                  </div>
+                  <div>
+                    {reading.measurements
+                      .map((measurement) =>
+                        `${getMeasurementLabel(measurement.key)} ${formatMeasurementValue(measurement)} ${getUnitLabel(measurement.unit)}`
+                      )
+                      .join(" · ")}
+                  </div>
+
+                  {editing?.id === reading.id ? (
+                    <Form onSubmit={handleSaveNote} className="d-flex gap-1 mt-1">
+                      <Form.Control
+                        size="sm"
+                        autoFocus
+                        value={editing.note}
+                        placeholder="Note (ex. : mesure après effort)"
+                        onChange={(event) => setEditing({ id: reading.id, note: event.target.value })}
+                      />
+                      <Button type="submit" size="sm" className="primary-btn">
+                        OK
+                      </Button>
+                    </Form>
+                  ) : (
+                    reading.note && <div className="color-red fst-italic">{reading.note}</div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default MeasurementHistory;
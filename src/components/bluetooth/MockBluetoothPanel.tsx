@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Card, Form } from "react-bootstrap";
+import { MockBluetooth } from "@/features/bluetooth/mock/mockBluetooth";
+import { MOCK_DEVICE_PROFILES, MOCK_SCENARIO_LABELS, MockScenario } from "@/features/bluetooth/mock/scenarios";
+
+// Panneau de développement : appareils Bluetooth simulés à la place de navigator.bluetooth
+// (affiché seulement avec le serveur de développement, voir BluetoothServiceCard)
+export default function MockBluetoothPanel() {
+  const [enabled, setEnabled] = useState(MockBluetooth.isInstalled());
+  const [scenario, setScenario] = useState<MockScenario>(MockBluetooth.getScenario());
+  const [nextDevice, setNextDevice] = useState(MockBluetooth.getNextDevice() ?? "");
+
+  const handleToggle = (checked: boolean) => {
+    if (checked) {
+      MockBluetooth.install();
+    } else {
+      MockBluetooth.uninstall();
+    }
+    setEnabled(checked);
+  };
+
+  const handleScenario = (value: MockScenario) => {
+    MockBluetooth.setScenario(value);
+    setScenario(value);
+  };
+
+  const handleNextDevice = (value: string) => {
+    MockBluetooth.setNextDevice(value || null);
+    setNextDevice(value);
+  };
+
+  return (
+    <Card className="p-2 mx-2 mb-3 card bg-grey rounded-3 border-warning" style={{ fontSize: ".8em" }}>
+      <Form.Check
+        type="switch"
+        id="mock-bluetooth"
+        label="Appareils Bluetooth simulés (développement)"
+        checked={enabled}
+        onChange={(event) => handleToggle(event.target.checked)}
+      />
+
+      {enabled && (
+        <div className="d-flex flex-wrap gap-2 mt-2">
+          <Form.Select
+            size="sm"
+            className="w-auto"
+            aria-label="Scénario"
+            value={scenario}
+            onChange={(event) => handleScenario(event.target.value as MockScenario)}
+          >
+            {Object.entries(MOCK_SCENARIO_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </Form.Select>
+          <Form.Select
+            size="sm"
+            className="w-auto"
+            aria-label="Appareil à connecter"
+            value={nextDevice}
+            onChange={(event) => handleNextDevice(event.target.value)}
+          >
+            <option value="">Premier appareil disponible</option>
+            {MOCK_DEVICE_PROFILES.map((profile) => (
+              <option key={profile.service} value={profile.service}>
+                {profile.name}
+              </option>
+            ))}
+          </Form.Select>
+          <small className="opacity-50 w-100">
+            « Connecter un appareil » connecte l'appareil simulé choisi ; le scénario s'applique dès la mesure suivante.
+          </small>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -1,35 +1,35 @@
 import React, { useEffect, useState } from "react";
 import { Card, Row, Button } from "react-bootstrap";
 import MeasureCard from "./MeasureCard";
+import { Measurement } from "@/features/room/rtc/peer";
+import { getServiceLabel } from "./measurementLabels";
 
 interface ServiceCardProps {
   service: string;
-  measurements: {
-    [key: string]: {
-      deviceName: string;
-      [key: string]: string;
-    };
-  };
+  measurements: Measurement[]; // Dernières valeurs lues pour ce service
+  historyOpen?: boolean;
+  onToggleHistory?: () => void; // Côté praticien : afficher / masquer l'historique du service
+  onDownloadRecords?: () => void; // Côté patient : récupérer les mesures enregistrées dans l'appareil (glucomètre)
 }
 
-const ServiceCard: React.FC<ServiceCardProps> = ({ service, measurements }) => {
+const ServiceCard: React.FC<ServiceCardProps> = ({ service, measurements, historyOpen, onToggleHistory, onDownloadRecords }) => {
   return (
     <Card className="p-2 pb-0 card bg-grey w-100 rounded-3">
       <Card.Body className="p-0">
         {/* Nom du service */}
-        <h3 className="fs-6 fw-bold text-capitalize mb-0 mt-1">
-          {service.replace("_", " ")}
+        <h3 className="fs-6 fw-bold mb-0 mt-1">
+          {getServiceLabel(service)}
         </h3>
-        {/* Si il y a (côté patient), afficher le nom de l'appareil */}
-        {measurements.deviceName && (
+        {/* Si il est connu, afficher le nom de l'appareil */}
+        {measurements[0]?.deviceName && (
           <p className="color-red" style={{ fontSize: ".7em" }}>
-            Appareil : {String(measurements.deviceName)}
+            Appareil : {measurements[0].deviceName}
           </p>
         )}
 
         {/* Quand il y a des mesures, pour chaque mesure de la donnée, faire une card mesure */}
         <div className="w-100 mt-3">
-          {Object.keys(measurements).length > 0 ? (
+          {measurements.length > 0 ? (
             <MeasureCard measurements={measurements} />
           ) : (
             <p>Aucune mesure disponible</p>
@@ -37,13 +37,28 @@ const ServiceCard: React.FC<ServiceCardProps> = ({ service, measurements }) => {
         </div>
 
         {/* Bouton pour afficher l'historique */}
-        <Button
-          className="tertiary-btn w-100 mt-2"
-          style={{ fontSize: ".8em" }}
-          variant="link"
-        >
-          Afficher l'historique
-        </Button>
+        {onToggleHistory && (
+          <Button
+            className="tertiary-btn w-100 mt-2"
+            style={{ fontSize: ".8em" }}
+            variant="link"
+            onClick={onToggleHistory}
+          >
+            {historyOpen ? "Masquer l'historique" : "Afficher l'historique"}
+          </Button>
+        )}
+
+        {/* Bouton pour récupérer la mémoire de l'appareil */}
+        {onDownloadRecords && (
+          <Button
+            className="tertiary-btn w-100 mt-2"
+            style={{ fontSize: ".8em" }}
+            variant="link"
+            onClick={onDownloadRecords}
+          >
+            Récupérer les mesures enregistrées
+          </Button>
+        )}
 
         {/* Mettre ici les MesureCard des autres mesures */}
         {/* <div className="w-100 mt-2 bg-blue">
@@ -0,0 +1,47 @@
+import { Measurement, MeasurementKey } from "@/features/room/rtc/peer";
+
+// Libellé affiché pour chaque service Bluetooth
+const SERVICE_LABELS: Record<string, string> = {
+  blood_pressure: "Tension artérielle",
+  health_thermometer: "Température corporelle",
+  pulse_oximeter: "Oxymétrie de pouls",
+  weight_scale: "Poids",
+  glucose: "Glycémie",
+};
+
+// Libellé affiché pour chaque grandeur mesurée
+export const MEASUREMENT_LABELS: Record<MeasurementKey, string> = {
+  systolic: "Systolique",
+  diastolic: "Diastolique",
+  pulse_rate: "Fréquence cardiaque",
+  body_temperature: "Température",
+  oxygen_saturation: "SpO2",
+  perfusion_index: "Indice de perfusion",
+  body_weight: "Poids",
+  body_height: "Taille",
+  bmi: "IMC",
+  blood_glucose: "Glycémie",
+};
+
+// Symbole affiché pour chaque unité UCUM
+const UNIT_LABELS: Record<string, string> = {
+  "mm[Hg]": "mmHg",
+  "/min": "bpm",
+  Cel: "°C",
+  "[degF]": "°F",
+  "[lb_av]": "lb",
+  "[in_i]": "in",
+  "kg/m2": "kg/m²",
+};
+
+export const getServiceLabel = (service: string) =>
+  SERVICE_LABELS[service] ?? service.replace(/_/g, " ");
+
+export const getMeasurementLabel = (key: string) =>
+  MEASUREMENT_LABELS[key as MeasurementKey] ?? key.replace(/_/g, " ");
+
+export const getUnitLabel = (unit: string) => UNIT_LABELS[unit] ?? unit;
+
+// Valeur au format français, une décimale au plus (120 ; 37,2)
+export const formatMeasurementValue = (measurement: Pick<Measurement, "value">) =>
+  measurement.value.toLocaleString("fr-FR", { maximumFractionDigits: 1 });
@@ -1,23 +1,77 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { Card, Form, Button, OverlayTrigger, Popover } from "react-bootstrap";
-import { useSelector, useDispatch } from "react-redux";
+import { useSelector } from "react-redux";
 import { RootState } from "@/app/store";
-import { clearMessages } from "../../features/chat/chatSlice";
-import { PeerConnection, Role, ChatMessage } from "@/features/room/rtc/peer";
-import { BsSend } from "react-icons/bs";
+import { clearMessages, loadChatHistory } from "../../features/chat/chatSlice";
+import { isChatHistoryEnabled, setChatHistoryEnabled } from "@/features/chat/history";
+import { useAppDispatch } from "@/hooks/useMediaStream";
+import {
+  PeerMesh,
+  Role,
+  ChatMessage,
+  ChatMessageStatus,
+  FileTransferInfo,
+  MAX_FILE_SIZE,
+  revokeFileUrls,
+} from "@/features/room/rtc/peer";
+import FileAttachment from "./FileAttachment";
+import { ROLE_LABELS } from "@/components/room/roleLabels";
+import { BsCheck, BsCheckAll, BsClock, BsPaperclip, BsSend } from "react-icons/bs";
 import { FaUserMd, FaUser } from "react-icons/fa";
 
 interface ChatBoxProps {
-  peerConnection: PeerConnection | null;
+  peerConnection: PeerMesh | null;
 }
 
+// Une indication de saisie est renvoyée au plus toutes les 2 secondes pendant la frappe
+const TYPING_THROTTLE = 2000;
+// Sans frappe pendant 3 secondes, l'utilisateur est considéré comme ayant arrêté d'écrire
+const TYPING_IDLE_DELAY = 3000;
+
+// Coches d'envoi : en attente (horloge), envoyé (✓), reçu (✓✓), lu (✓✓ en bleu)
+const MessageStatusTicks: React.FC<{ status: ChatMessageStatus }> = ({ status }) => {
+  const labels: Record<ChatMessageStatus, string> = {
+    pending: "En attente de connexion",
+    sent: "Envoyé",
+    delivered: "Reçu",
+    read: "Lu",
+  };
+
+  return (
+    <span
+      className={`ms-1 ${status === "read" ? "color-blue" : "opacity-50"}`}
+      title={labels[status]}
+      aria-label={labels[status]}
+    >
+      {status === "pending" ? (
+        <BsClock />
+      ) : status === "sent" ? (
+        <BsCheck />
+      ) : (
+        <BsCheckAll />
+      )}
+    </span>
+  );
+};
+
 // Composant pour afficher un message unique
-const ChatMessageItem: React.FC<{ message: ChatMessage }> = ({ message }) => {
+// En mode "typing", la bulle indique que le participant est en train d'écrire ;
+// un contenu enfant (fichier joint) remplace le texte du message
+const ChatMessageItem: React.FC<{
+  message: ChatMessage;
+  isOwn?: boolean;
+  typing?: boolean;
+  children?: React.ReactNode;
+}> = ({ message, isOwn = false, typing = false, children }) => {
   const messageTime = new Date(message.timestamp).toLocaleTimeString([], {
     hour: "2-digit",
     minute: "2-digit",
   });
-  const isPractitioner = message.senderRole === Role.PRACTITIONER;
+  // Les soignants (praticien, spécialiste) sont affichés en bleu, les autres participants en rouge
+  const isPractitioner =
+    message.senderRole === Role.PRACTITIONER ||
+    message.senderRole === Role.SPECIALIST;
+  const roleLabel = ROLE_LABELS[message.senderRole] ?? "Participant";
 
   return (
     <div className="d-flex mb-2">
@@ -28,7 +82,7 @@ const ChatMessageItem: React.FC<{ message: ChatMessage }> = ({ message }) => {
           overlay={
             <Popover className="roomPopup bg-white-pink border-0 card p-0 rounded-2">
               <Popover.Body className={`p-1 small ${!isPractitioner && "color-red"}`}>
-                {isPractitioner ? "Praticien" : "Patient"}
+                {roleLabel}
               </Popover.Body>
             </Popover>
           }
@@ -47,16 +101,27 @@ const ChatMessageItem: React.FC<{ message: ChatMessage }> = ({ message }) => {
           className={`p-2 rounded-3 bg-white-pink`}
           style={{ maxWidth: "80%", borderRadius: "12px",filter: "drop-shadow(-2px 2px 5px rgba(0, 0, 0, 0.3))" }}
         >
-            <p className="m-0"><small className={`${!isPractitioner && "color-red"}`} style={{fontSize: ".8em"}}>{isPractitioner ? "Praticien" : "Patient"}</small></p>
-          <div className="message-content fw-medium small">
-            {message.content}
-          </div>
-          <div
-            className="message-meta text-end"
-            style={{ fontSize: "0.75rem" }}
-          >
-            <small className="fw-semibold opacity-50">{messageTime}</small>
-          </div>
+            <p className="m-0"><small className={`${!isPractitioner && "color-red"}`} style={{fontSize: ".8em"}}>{roleLabel}</small></p>
+          {typing ? (
+            <div className="message-content fst-italic small opacity-75">
+              {roleLabel} est en train d'écrire…
+            </div>
+          ) : (
+            <>
+              <div className="message-content fw-medium small">
+                {children ?? message.content}
+              </div>
+              <div
+                className="message-meta text-end"
+                style={{ fontSize: "0.75rem" }}
+              >
+                <small className="fw-semibold opacity-50">{messageTime}</small>
+                {isOwn && message.status && (
+                  <MessageStatusTicks status={message.status} />
+                )}
+              </div>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -70,83 +135,162 @@ const ChatBox: React.FC<ChatBoxProps> = ({ peerConnection }) => {
   const messagesByRoom = useSelector(
     (state: RootState) => state.chat.messagesByRoom
   );
-  const currentUserId = useSelector((state: RootState) => state.user.id);
-  const dispatch = useDispatch();
+  const typingByRoom = useSelector(
+    (state: RootState) => state.chat.typingByRoom
+  );
+  const transfersByRoom = useSelector(
+    (state: RootState) => state.chat.transfersByRoom
+  );
+  // Erreur du chat (ex. version du protocole incompatible avec celle de l'interlocuteur)
+  const chatError = useSelector((state: RootState) => state.chat.error);
+  // Erreur affichée quand un fichier ne peut pas être envoyé
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Conservation des messages sur le serveur, en clair : désactivée tant que l'utilisateur ne l'a pas choisie
+  const [historyEnabled, setHistoryEnabled] = useState(isChatHistoryEnabled);
+  // Identifiant de ce client dans la salle (expéditeur des messages envoyés)
+  const clientId = useSelector((state: RootState) => state.room.userId);
+  const dispatch = useAppDispatch();
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  // Messages reçus dont l'accusé de lecture a déjà été envoyé
+  const readReceiptsSentRef = useRef<Set<string>>(new Set());
+  // Dernier envoi de l'indication de saisie, et minuteur d'arrêt de saisie
+  const lastTypingSentRef = useRef<number>(0);
+  const typingIdleTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
   // Obtenir les messages de la salle actuelle
-  const chatMessages = currentRoomId ? messagesByRoom[currentRoomId] || [] : [];
+  // (mémorisés : un nouveau tableau vide à chaque rendu relancerait les effets qui en dépendent)
+  const chatMessages = useMemo(
+    () => (currentRoomId ? messagesByRoom[currentRoomId] || [] : []),
+    [currentRoomId, messagesByRoom]
+  );
+  // Fichiers échangés dans la salle, affichés parmi les messages dans l'ordre chronologique
+  const fileTransfers = useMemo(
+    () => (currentRoomId ? transfersByRoom[currentRoomId] || [] : []),
+    [currentRoomId, transfersByRoom]
+  );
+  const timeline: ({ message: ChatMessage } | { transfer: FileTransferInfo })[] = [
+    ...chatMessages.map((msg) => ({ message: msg })),
+    ...fileTransfers.map((transfer) => ({ transfer })),
+  ].sort(
+    (a, b) =>
+      ("message" in a ? a.message.timestamp : a.transfer.timestamp) -
+      ("message" in b ? b.message.timestamp : b.transfer.timestamp)
+  );
+  // Pendant une coupure du DataChannel, les messages restent en attente (outbox) et partent à la reconnexion
+  const canSend = isDataChannelOpen || (peerConnection?.getPeers().size ?? 0) > 0;
+  // Participants en train d'écrire dans la salle actuelle
+  const typingParticipants = Object.entries(
+    currentRoomId ? typingByRoom[currentRoomId] || {} : {}
+  );
 
   // Nettoyer les messages quand on quitte la salle
   useEffect(() => {
     if (!peerConnection && currentRoomId) {
       dispatch(clearMessages(currentRoomId));
+      revokeFileUrls(currentRoomId);
       setIsDataChannelOpen(false);
     }
   }, [peerConnection, dispatch, currentRoomId]);
 
-  // Vérifier périodiquement l'état du DataChannel
+  // Charger l'historique de la salle à l'arrivée (après un rechargement ou une reconnexion)
+  // Les messages déjà affichés ne sont pas dupliqués (dédoublonnage par id)
+  useEffect(() => {
+    if (peerConnection && currentRoomId) {
+      dispatch(loadChatHistory(currentRoomId));
+    }
+  }, [peerConnection, dispatch, currentRoomId]);
+
+  // Suivre l'état du DataChannel à chaque ouverture / fermeture / erreur
   useEffect(() => {
     if (!peerConnection) {
       setIsDataChannelOpen(false);
       return;
     }
 
-    // Vérifier immédiatement l'état du DataChannel
-    setIsDataChannelOpen(peerConnection.isDataChannelAvailable());
-
-    // Si le DataChannel n'est pas encore ouvert, configurer une vérification périodique
-    if (!peerConnection.isDataChannelAvailable()) {
-      console.log("[ChatBox] DataChannel not ready yet, setting up polling");
-      
-      // Check if there are enough participants before polling
-      const hasEnoughParticipants = peerConnection.isRoomReady && peerConnection.isRoomReady();
-      
-      // Use a counter to reduce logging frequency
-      let pollCount = 0;
-      const LOG_FREQUENCY = 10; // Only log every 10 polls (10 seconds)
-      
-      const intervalId = setInterval(() => {
-        const isAvailable = peerConnection.isDataChannelAvailable();
-        
-        // Only log occasionally to reduce console spam
-        if (pollCount % LOG_FREQUENCY === 0) {
-          console.log(
-            "[ChatBox] Checking DataChannel availability:",
-            isAvailable
-          );
-        }
-        pollCount++;
-
-        if (isAvailable) {
-          setIsDataChannelOpen(true);
-          clearInterval(intervalId);
-          console.log("[ChatBox] DataChannel is now open, stopped polling");
-        }
-      }, 1000); // Vérifier toutes les secondes
-
-      return () => {
-        clearInterval(intervalId);
-      };
-    }
+    const updateAvailability = () => setIsDataChannelOpen(peerConnection.isDataChannelAvailable());
+    updateAvailability();
+
+    const unsubscribers = [
+      peerConnection.on("open", updateAvailability),
+      peerConnection.on("close", updateAvailability),
+      peerConnection.on("error", updateAvailability),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, [peerConnection]);
 
-  // Pour réagir aux actions redux qui indiquent un changement d'état du DataChannel
+  // Envoyer les accusés de lecture des messages reçus affichés
+  const sendReadReceipts = useCallback(() => {
+    if (!peerConnection || !isDataChannelOpen || document.visibilityState !== "visible") return;
+
+    const unreadIds = chatMessages
+      .filter((msg) => msg.sender !== clientId && !readReceiptsSentRef.current.has(msg.id))
+      .map((msg) => msg.id);
+    if (unreadIds.length === 0) return;
+
+    if (peerConnection.sendReadReceipt(unreadIds)) {
+      unreadIds.forEach((id) => readReceiptsSentRef.current.add(id));
+    }
+  }, [peerConnection, isDataChannelOpen, chatMessages, clientId]);
+
+  useEffect(() => {
+    sendReadReceipts();
+
+    // Les messages arrivés pendant que l'onglet était masqué sont lus à son retour
+    document.addEventListener("visibilitychange", sendReadReceipts);
+    return () => {
+      document.removeEventListener("visibilitychange", sendReadReceipts);
+    };
+  }, [sendReadReceipts]);
+
+  // Annuler le minuteur de fin de saisie en quittant le chat
   useEffect(() => {
-    if (peerConnection) {
-      const isAvailable = peerConnection.isDataChannelAvailable();
-      console.log(
-        "[ChatBox] DataChannel state changed, availability:",
-        isAvailable
-      );
-      setIsDataChannelOpen(isAvailable);
+    return () => {
+      if (typingIdleTimeoutRef.current) {
+        clearTimeout(typingIdleTimeoutRef.current);
+      }
+    };
+  }, [peerConnection]);
+
+  // Signaler la fin de la saisie aux autres participants
+  const stopTyping = () => {
+    if (typingIdleTimeoutRef.current) {
+      clearTimeout(typingIdleTimeoutRef.current);
+      typingIdleTimeoutRef.current = null;
+    }
+    if (lastTypingSentRef.current !== 0) {
+      lastTypingSentRef.current = 0;
+      peerConnection?.sendTyping(false);
     }
-  }, [chatMessages, peerConnection]); // chatMessages est utilisé comme dépendance pour détecter les dispatches du canal de données
+  };
+
+  const handleMessageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setMessage(e.target.value);
+
+    if (!peerConnection || !isDataChannelOpen) return;
+    if (!e.target.value.trim()) {
+      stopTyping();
+      return;
+    }
+
+    // Renvoyer l'indication régulièrement : le destinataire la retire sans nouvelle de notre part
+    const now = Date.now();
+    if (now - lastTypingSentRef.current > TYPING_THROTTLE) {
+      lastTypingSentRef.current = now;
+      peerConnection.sendTyping(true);
+    }
+
+    if (typingIdleTimeoutRef.current) {
+      clearTimeout(typingIdleTimeoutRef.current);
+    }
+    typingIdleTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE_DELAY);
+  };
 
   // Scroll automatique vers le bas quand de nouveaux messages arrivent
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [chatMessages]);
+  }, [chatMessages, fileTransfers.length, typingParticipants.length]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -156,6 +300,42 @@ const ChatBox: React.FC<ChatBoxProps> = ({ peerConnection }) => {
     const success = peerConnection.sendChatMessage(message.trim());
     if (success) {
       setMessage("");
+      // Le destinataire retire l'indicateur à la réception du message
+      if (typingIdleTimeoutRef.current) {
+        clearTimeout(typingIdleTimeoutRef.current);
+        typingIdleTimeoutRef.current = null;
+      }
+      lastTypingSentRef.current = 0;
+    }
+  };
+
+  const handleHistoryToggle = (enabled: boolean) => {
+    setChatHistoryEnabled(enabled);
+    setHistoryEnabled(enabled);
+    if (enabled && currentRoomId) {
+      dispatch(loadChatHistory(currentRoomId));
+    }
+  };
+
+  // Envoyer une photo ou un document (PDF...) aux autres participants
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Permettre de choisir à nouveau le même fichier
+    e.target.value = "";
+    if (!file || !peerConnection) return;
+
+    if (file.size === 0) {
+      setFileError("Le fichier est vide.");
+      return;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      setFileError(`Le fichier dépasse la taille maximale (${MAX_FILE_SIZE / (1024 * 1024)} Mo).`);
+      return;
+    }
+
+    setFileError(null);
+    if (!peerConnection.sendFile(file)) {
+      setFileError("Le fichier n'a pas pu être envoyé.");
     }
   };
 
@@ -186,37 +366,92 @@ const ChatBox: React.FC<ChatBoxProps> = ({ peerConnection }) => {
               </div>
             )}
 
-          {chatMessages.length === 0 ? (
+          {chatError && <div className="p-1 small fw-medium color-red">{chatError}</div>}
+
+          {timeline.length === 0 ? (
             <div className="text-center color-red my-auto small">
               {isDataChannelOpen
                 ? "Aucun message pour le moment"
                 : "Le chat sera disponible quand la connexion sera établie"}
             </div>
           ) : (
-            chatMessages.map((msg, index) => (
-              <ChatMessageItem
-                key={`${msg.timestamp}-${index}`}
-                message={msg}
-              />
-            ))
+            timeline.map((item, index) =>
+              "message" in item ? (
+                <ChatMessageItem
+                  key={item.message.id ?? `${item.message.timestamp}-${index}`}
+                  message={item.message}
+                  isOwn={item.message.sender === clientId}
+                />
+              ) : (
+                <ChatMessageItem
+                  key={`file-${item.transfer.id}`}
+                  message={{
+                    id: item.transfer.id,
+                    sender: item.transfer.sender,
+                    senderRole: item.transfer.senderRole,
+                    content: item.transfer.name,
+                    timestamp: item.transfer.timestamp,
+                  }}
+                >
+                  <FileAttachment transfer={item.transfer} />
+                </ChatMessageItem>
+              )
+            )
           )}
+          {typingParticipants.map(([sender, role]) => (
+            <ChatMessageItem
+              key={`typing-${sender}`}
+              message={{ id: `typing-${sender}`, sender, senderRole: role, content: "", timestamp: Date.now() }}
+              typing
+            />
+          ))}
           <div ref={messagesEndRef} />
         </div>
         <hr className="m-0 mx-2" />
         <Form onSubmit={handleSubmit} className="mt-auto p-2">
+          {fileError && <p className="m-0 mb-1 small color-red">{fileError}</p>}
+          <Form.Check
+            type="switch"
+            id="chat-history"
+            className="mb-1 small"
+            label="Conserver mes messages sur le serveur"
+            title="Les messages conservés ne sont pas chiffrés de bout en bout : ils restent lisibles par l'hébergeur du service."
+            checked={historyEnabled}
+            onChange={(event) => handleHistoryToggle(event.target.checked)}
+          />
           <Form.Group className="d-flex">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*,application/pdf"
+              className="d-none"
+              onChange={handleFileChange}
+            />
+            <Button
+              className="me-2 px-2 pt-0 pb-0 tertiary-btn rounded-2"
+              title="Joindre une photo ou un document"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!canSend || !currentRoomId}
+            >
+              <BsPaperclip />
+            </Button>
             <Form.Control
               className="bg-grey border-0 rounded-3 h-25"
               type="text"
-              placeholder="Votre message..."
+              placeholder={
+                isDataChannelOpen
+                  ? "Votre message..."
+                  : "Votre message (envoyé au retour de la connexion)..."
+              }
               value={message}
-              onChange={(e) => setMessage(e.target.value)}
-              disabled={!isDataChannelOpen || !currentRoomId}
+              onChange={handleMessageChange}
+              onBlur={stopTyping}
+              disabled={!canSend || !currentRoomId}
             />
             <Button
               type="submit"
               className="ms-2 px-2 pt-0 pb-0 secondary-btn rounded-2"
-              disabled={!isDataChannelOpen || !message.trim() || !currentRoomId}
+              disabled={!canSend || !message.trim() || !currentRoomId}
             >
               <BsSend />
             </Button>
@@ -0,0 +1,93 @@
+import React from "react";
+import { ProgressBar } from "react-bootstrap";
+import { BsDownload, BsFileEarmark, BsFileEarmarkPdf } from "react-icons/bs";
+import { FileTransferInfo, FileTransferStatus } from "@/features/room/rtc/peer";
+
+// Libellés affichés tant que le transfert n'est pas terminé
+const STATUS_LABELS: Record<FileTransferStatus, string> = {
+  pending: "En attente",
+  transferring: "Envoi en cours",
+  paused: "Interrompu, reprise à la reconnexion",
+  complete: "Terminé",
+  failed: "Échec du transfert",
+};
+
+// Taille lisible (Ko / Mo)
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} Ko`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} Mo`;
+}
+
+// État global d'un transfert envoyé à un ou plusieurs participants : on suit le plus lent
+function getOverallProgress(transfer: FileTransferInfo) {
+  const links = Object.values(transfer.links);
+  if (links.length === 0) return { transferredBytes: 0, status: "pending" as FileTransferStatus };
+
+  const transferredBytes = Math.min(...links.map((link) => link.transferredBytes));
+  let status: FileTransferStatus = "transferring";
+  if (links.every((link) => link.status === "complete")) status = "complete";
+  else if (links.every((link) => link.status === "failed")) status = "failed";
+  else if (links.some((link) => link.status === "paused")) status = "paused";
+  else if (links.every((link) => link.status === "pending")) status = "pending";
+
+  return { transferredBytes, status };
+}
+
+// Fichier échangé dans le chat : miniature pour les images, progression et téléchargement
+const FileAttachment: React.FC<{ transfer: FileTransferInfo }> = ({ transfer }) => {
+  const { transferredBytes, status } = getOverallProgress(transfer);
+  const isImage = transfer.mimeType.startsWith("image/");
+  const percent = transfer.size > 0 ? Math.round((transferredBytes * 100) / transfer.size) : 100;
+
+  // Le fichier reçu n'est disponible qu'une fois complet ; le fichier envoyé l'est immédiatement
+  const url = transfer.direction === "outgoing" || status === "complete" ? transfer.url : undefined;
+
+  return (
+    <div className="small">
+      {isImage && url ? (
+        <a href={url} target="_blank" rel="noreferrer">
+          <img
+            src={url}
+            alt={transfer.name}
+            className="rounded-2 d-block mb-1"
+            style={{ maxWidth: "160px", maxHeight: "160px", objectFit: "cover" }}
+          />
+        </a>
+      ) : (
+        <div className="d-flex align-items-center gap-1 mb-1">
+          {transfer.mimeType === "application/pdf" ? <BsFileEarmarkPdf /> : <BsFileEarmark />}
+          <span className="fw-medium text-break">{transfer.name}</span>
+        </div>
+      )}
+
+      <div className="d-flex align-items-center justify-content-between gap-2">
+        <span className="opacity-50">{formatSize(transfer.size)}</span>
+        {url && (
+          <a href={url} download={transfer.name} className="color-red fw-semibold text-decoration-none">
+            <BsDownload className="me-1" />
+            Télécharger
+          </a>
+        )}
+      </div>
+
+      {status !== "complete" && (
+        <>
+          <ProgressBar
+            now={percent}
+            variant={status === "failed" ? "danger" : "info"}
+            className="mt-1"
+            style={{ height: "4px" }}
+          />
+          <small className="opacity-50">
+            {status === "transferring" && transfer.direction === "incoming"
+              ? "Réception en cours"
+              : STATUS_LABELS[status]}
+            {status === "transferring" && ` (${percent} %)`}
+          </small>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FileAttachment;
@@ -2,7 +2,8 @@ import React, { useEffect, useState, useRef, useContext } from "react";
 import { useSelector, useDispatch } from "react-redux";
 import { RootState, store } from "@/app/store";
 import { RoomSupabase } from "../../features/room/roomSupabase";
-import { MediaStreamList, PeerConnection, Role } from "../../features/room/rtc/peer";
+import { LobbySupabase } from "@/features/room/lobbySupabase";
+import { MediaStreamList, PeerMesh, RemotePeerStreams, Role } from "../../features/room/rtc/peer";
 import {
   participantJoined,
   userIdSet,
@@ -19,13 +20,17 @@ import Header from "@/components/Header";
 import MediaStreamsContext from "@/contexts/MediaStreamsContext";
 import { StreamsByDevice, streamUpdated } from "@/features/streams/streamSlice";
 import BluetoothServiceCard from "@/components/bluetooth/BluetoothServiceCard";
+import WaitingRoomList from "@/components/room/WaitingRoomList";
+import EncryptionVerification from "@/components/room/EncryptionVerification";
+import { PatientDetails } from "@/features/fhir/observationBundle";
 
 interface ConsultationRoomProps {
-  onPeerConnectionReady?: (peerConnection: PeerConnection) => void;
+  onPeerConnectionReady?: (peerConnection: PeerMesh) => void;
   handleDisconnect: () => void;
   onCreateRoom: (fn: () => Promise<void>) => void;
   setConnectionStatus: (value: string) => void;
   connectionStatus: string;
+  patientInformations?: PatientDetails | null; // Patient du formulaire d'informations (export FHIR des mesures)
 }
 
 export default function ConsultationRoom({
@@ -34,10 +39,11 @@ export default function ConsultationRoom({
   onCreateRoom,
   setConnectionStatus,
   connectionStatus,
+  patientInformations,
 }: ConsultationRoomProps) {
   const dispatch = useDispatch();
 
-  const [mediaStreams, addMediaStreams] = useContext(MediaStreamsContext); // dans ton component
+  const [mediaStreams, addMediaStreams, , setRemotePeerStreams] = useContext(MediaStreamsContext); // dans ton component
   // Récupérer les informations de l'utilisateur et de la salle (si il y a)
   const { roomId, userRole, userId } = useSelector(
     (state: RootState) => state.room
@@ -46,8 +52,8 @@ export default function ConsultationRoom({
   // Récupérer le rôle de l'utilisateur
   const userKind = useSelector((state: RootState) => state.user.user_kind);
 
-  // Gestion de la connexion
-  const [peerConnection, setPeerConnection] = useState<PeerConnection | null>(
+  // Gestion de la connexion (une connexion par participant distant)
+  const [peerConnection, setPeerConnection] = useState<PeerMesh | null>(
     null
   );
 
@@ -136,6 +142,28 @@ export default function ConsultationRoom({
     }
   }, [peerConnection, onPeerConnectionReady]);
 
+  // Côté praticien : seuls les patients admis depuis la salle d'attente sont considérés présents
+  // (la salle n'est prête et la négociation ne démarre qu'après admission)
+  useEffect(() => {
+    if (!peerConnection || !roomId || userKind !== "practitioner") return;
+
+    const syncAdmittedPatients = async () => {
+      peerConnection.setAdmittedPatients(
+        await LobbySupabase.getAdmittedPatientIds(roomId)
+      );
+    };
+    syncAdmittedPatients();
+
+    const subscription = LobbySupabase.subscribeToAdmissions(
+      syncAdmittedPatients,
+      `room_id=eq.${roomId}`
+    );
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [peerConnection, roomId, userKind]);
+
   const handleRoomConnection = async (roomId: string) => {
     if (!userId || !userRole) {
       return;
@@ -165,8 +193,8 @@ export default function ConsultationRoom({
       console.log(
         `[ConsultationRoom] Creating new peer connection for room: ${roomId}`
       );
-      // Create a new peer connection
-      const peer = new PeerConnection(roomId, userId, userRole);
+      // Create a new peer mesh (one peer connection per remote participant)
+      const peer = new PeerMesh(roomId, userId, userRole);
       setPeerConnection(peer);
 
 // ✅ Injecte les streams AVANT connect()
@@ -180,9 +208,10 @@ for (const [device, streamDetails] of Object.entries(localStreams)) {
   }
 }
 
-// Ensuite seulement
-await peer.connect();
-addStreamsToStore(peer, addMediaStreams); // si `addMediaStreams` vient du contexte
+// Publier les flux distants à chaque arrivée ou départ d'un participant
+peer.onPeersChange((peers) => {
+  addStreamsToStore(peer, peers, addMediaStreams, setRemotePeerStreams);
+});
 
 
       // Handle connection state changes
@@ -198,6 +227,7 @@ addStreamsToStore(peer, addMediaStreams); // si `addMediaStreams` vient du conte
         // wait a few moments for the impolite peer to have initialized the connection
         if (isReady) {
           const negotiationState = peer.getPerfectNegotiationState();
+          if (!negotiationState) return;
           const isPolite = negotiationState.isPolite;
           setNegotiationRole(isPolite ? "polite" : "impolite");
 
@@ -326,6 +356,7 @@ addStreamsToStore(peer, addMediaStreams); // si `addMediaStreams` vient du conte
               }}
               className="pt-3 pe-2 ps-1"
             >
+              {peerConnection && <EncryptionVerification peerConnection={peerConnection} />}
               {userKind === "patient" && peerConnection && (
                 <BluetoothServiceCard
                 role="patient"
@@ -334,8 +365,17 @@ addStreamsToStore(peer, addMediaStreams); // si `addMediaStreams` vient du conte
                   onSendStatus={getBluetoothStatus}
                 />
               )}
+              {userKind === "practitioner" && (
+                <div className="mb-3">
+                  <WaitingRoomList roomId={roomId} />
+                </div>
+              )}
               {userKind === "practitioner" && peerConnection && (
-                <BluetoothServiceCard role="doctor" peerConnection={peerConnection} />
+                <BluetoothServiceCard
+                  role="doctor"
+                  peerConnection={peerConnection}
+                  patient={patientInformations}
+                />
               )}
             </div>
             <Button
@@ -351,8 +391,21 @@ addStreamsToStore(peer, addMediaStreams); // si `addMediaStreams` vient du conte
     </div>
   );
 }
-function addStreamsToStore(telemedPC : PeerConnection, addMediaStreams: (streams: MediaStreamList) => void) {
-  // Getting all the remote streams from the peerConnection
+function addStreamsToStore(
+  telemedPC: PeerMesh,
+  peers: RemotePeerStreams,
+  addMediaStreams: (streams: MediaStreamList) => void,
+  setRemotePeerStreams: (peers: RemotePeerStreams) => void
+) {
+  // Every participant's streams go to the mediaStreams context, grouped by participant
+  for (const { streams } of Object.values(peers)) {
+    for (const stream of Object.values(streams)) {
+      addMediaStreams({ [stream.id]: stream });
+    }
+  }
+  setRemotePeerStreams(peers);
+
+  // The main remote participant's streams are the ones referenced in the redux store
   const remoteStreams = telemedPC.remoteStreams;
 
   // TODO Make an action for that takes remoteStreams as a parameter
@@ -1,6 +1,8 @@
 import React, { useEffect, useState, useRef } from "react";
 import {
+  Badge,
   Button,
+  ButtonGroup,
   Form,
   Row,
   Col,
@@ -10,9 +12,13 @@ import {
   OverlayTrigger,
 } from "react-bootstrap";
 import { RoomSupabase, Room } from "@/features/room/roomSupabase";
-import { useDispatch } from "react-redux";
+import { useDispatch, useSelector } from "react-redux";
+import { RootState } from "@/app/store";
 import { roomIdUpdated } from "@/features/room/roomSlice";
 import { supabase } from "@/lib/supabaseClient";
+import WaitingRoomList from "@/components/room/WaitingRoomList";
+import RoomInvitations from "@/components/room/RoomInvitations";
+import { ProfileService, UserProfile } from "@/services/profileService";
 
 export default function DoctorRoomManager({
   onCreateRoom,
@@ -33,17 +39,58 @@ export default function DoctorRoomManager({
   // Gestion des erreurs lors de la modification du nom d'une salle (si le nom est en double)
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  // Afficher uniquement les salles du praticien ("Mes salles") ou toutes celles qui lui sont accessibles
+  const [showMyRooms, setShowMyRooms] = useState<boolean>(true);
+
+  // Patients pouvant être invités dans une salle
+  const [patients, setPatients] = useState<UserProfile[]>([]);
+
+  // Id du praticien connecté, pour savoir de quelles salles il est propriétaire
+  const userId = useSelector((state: RootState) => state.user.id);
+
   const dispatch = useDispatch();
 
-  // Charger les rooms au montage
+  // Récupérer les rooms dans roomSupabase.ts et les mettres dans rooms
+  const loadRooms = React.useCallback(async () => {
+    const result = showMyRooms
+      ? await RoomSupabase.getMyRooms()
+      : await RoomSupabase.getAllRooms();
+    if (result) setRooms(result);
+  }, [showMyRooms]);
+
+  // Charger les rooms au montage et à chaque changement de vue
   useEffect(() => {
     loadRooms();
+  }, [loadRooms]);
+
+  // Charger les patients au montage
+  useEffect(() => {
+    ProfileService.getPatients().then((result) => {
+      if (result) setPatients(result);
+    });
   }, []);
 
-  // Récupérer les rooms dans roomSupabase.ts et les mettres dans rooms
-  const loadRooms = async () => {
-    const result = await RoomSupabase.getAllRooms();
-    if (result) setRooms(result);
+  // Inviter un patient dans une salle ou retirer son invitation
+  const handleUpdateInvitations = async (room: Room, patientIds: string[]) => {
+    await RoomSupabase.updateInvitedPatients(room.id, patientIds);
+    loadRooms();
+  };
+
+  // Modifier la date d'expiration d'une salle (vide = pas d'expiration)
+  const handleUpdateExpiry = async (id: string, value: string) => {
+    await RoomSupabase.updateExpiry(id, value ? new Date(value) : null);
+    loadRooms();
+  };
+
+  // Retrouver le nom d'un patient à partir de son id
+  const patientName = (id: string) =>
+    patients.find((patient) => patient.id === id)?.username ?? id;
+
+  // Format attendu par un input datetime-local (heure locale)
+  const toDateTimeLocal = (date: string) => {
+    const value = new Date(date);
+    value.setMinutes(value.getMinutes() - value.getTimezoneOffset());
+    return value.toISOString().slice(0, 16);
   };
 
   // Générer l'index du nom par défaut à la création de la prochaine salle à créer en fonction des index des salles ayant déjà un nom par défaut du type 'Salle {index}'
@@ -192,97 +239,181 @@ export default function DoctorRoomManager({
 
   return (
     <div className="h-80">
+      {/* Patients en attente d'admission dans l'une des salles */}
+      <div className="mb-4">
+        <WaitingRoomList rooms={rooms} />
+      </div>
+
+      {/* Choix de la vue : mes salles ou toutes les salles accessibles */}
+      <ButtonGroup className="mb-3">
+        <Button
+          size="sm"
+          className={showMyRooms ? "primary-btn" : "secondary-btn"}
+          onClick={() => setShowMyRooms(true)}
+        >
+          Mes salles
+        </Button>
+        <Button
+          size="sm"
+          className={!showMyRooms ? "primary-btn" : "secondary-btn"}
+          onClick={() => setShowMyRooms(false)}
+        >
+          Toutes les salles
+        </Button>
+      </ButtonGroup>
+
       <Row className="gy-4">
         {/* Pour chaque salle de rooms */}
-        {rooms.map((room) => (
-          <Col
-            className="mb-4"
-            key={room.id}
-            style={{
-              flex: "0 0 32%",
-              maxWidth: "32%",
-            }}
-          >
-            {/* Afficher en card la salle et ses infos */}
-            <Card className="card p-0 bg-grey">
-              <Card.Body className="pb-1">
-                <Form.Group>
-                  {editing[room.id] ? (
-                    // Si l'état de modification est sur true
-                    // Afficher l'input de modification
-                    // Si on sort de l'input ou appuie sur 'entrée', l'état de modification est sur false via handleSaveName
-                    <>
-                      <Form.Control
-                        type="text"
-                        value={editingRooms[room.id]}
-                        onChange={(e) =>
-                          handleUpdateName(room.id, e.target.value)
+        {rooms.map((room) => {
+          // Seul le propriétaire d'une salle peut la modifier ou la supprimer
+          const isOwner = room.owner_id === userId;
+          const invited = room.invited_patient_ids ?? [];
+
+          return (
+            <Col
+              className="mb-4"
+              key={room.id}
+              style={{
+                flex: "0 0 32%",
+                maxWidth: "32%",
+              }}
+            >
+              {/* Afficher en card la salle et ses infos */}
+              <Card className="card p-0 bg-grey">
+                <Card.Body className="pb-1">
+                  <Form.Group>
+                    {editing[room.id] ? (
+                      // Si l'état de modification est sur true
+                      // Afficher l'input de modification
+                      // Si on sort de l'input ou appuie sur 'entrée', l'état de modification est sur false via handleSaveName
+                      <>
+                        <Form.Control
+                          type="text"
+                          value={editingRooms[room.id]}
+                          onChange={(e) =>
+                            handleUpdateName(room.id, e.target.value)
+                          }
+                          onBlur={() => handleSaveName(room.id)}
+                          autoFocus
+                          ref={(el) => {
+                            inputRefs.current[room.id] = el;
+                          }}
+                        />
+                        {errors[room.id] && (
+                          <Form.Text className="text-danger">
+                            {errors[room.id]}
+                          </Form.Text>
+                        )}
+                      </>
+                    ) : (
+                      // Afficher simplement le nom de la salle si on n'est pas en train de modifier le nom de la salle
+                      // Mise en place d'une pop-up indiquant qu'on peut modifier le nom de la salle en cliquant sur le label
+                      <OverlayTrigger
+                        trigger={["hover", "focus"]}
+                        placement="top"
+                        overlay={
+                          <Popover className="roomPopup bg-white-pink border-0 card p-0 rounded-2">
+                            <Popover.Body className="p-1 small">
+                              Cliquer pour modifier le nom
+                            </Popover.Body>
+                          </Popover>
                         }
-                        onBlur={() => handleSaveName(room.id)}
-                        autoFocus
-                        ref={(el) => {
-                          inputRefs.current[room.id] = el;
-                        }}
-                      />
-                      {errors[room.id] && (
-                        <Form.Text className="text-danger">
-                          {errors[room.id]}
-                        </Form.Text>
+                      >
+                        {/* Si on clique sur le label, on entre dans la modification du nom de la salle */}
+                        <Form.Label
+                          className="fw-bold"
+                          onClick={() => isOwner && handleStartEdit(room.id)}
+                          style={{ cursor: isOwner ? "pointer" : "default" }}
+                        >
+                          {room.short_name}{" "}
+                          {RoomSupabase.isExpired(room) && (
+                            <Badge bg="danger">Expirée</Badge>
+                          )}
+                        </Form.Label>
+                      </OverlayTrigger>
+                    )}
+                  </Form.Group>
+
+                  {/* Afficher l'id de la salle */}
+                  <p className="color-lightblue" style={{ fontSize: "0.7rem" }}>
+                    {room.id}
+                  </p>
+
+                  {/* Patients invités et date d'expiration (modifiables par le propriétaire) */}
+                  {isOwner && (
+                    <>
+                      <p className="m-0 small fw-semibold">Patients invités</p>
+                      {invited.length === 0 && (
+                        <p className="m-0 small color-lightblue">Aucun patient invité</p>
                       )}
+                      {invited.map((id) => (
+                        <p key={id} className="m-0 small d-flex justify-content-between">
+                          {patientName(id)}
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="p-0"
+                            onClick={() =>
+                              handleUpdateInvitations(room, invited.filter((invitedId) => invitedId !== id))
+                            }
+                          >
+                            Retirer
+                          </Button>
+                        </p>
+                      ))}
+                      <Form.Select
+                        size="sm"
+                        className="mt-1"
+                        value=""
+                        onChange={(e) => handleUpdateInvitations(room, [...invited, e.target.value])}
+                      >
+                        <option value="">Inviter un patient</option>
+                        {patients
+                          .filter((patient) => !invited.includes(patient.id))
+                          .map((patient) => (
+                            <option key={patient.id} value={patient.id}>
+                              {patient.username}
+                            </option>
+                          ))}
+                      </Form.Select>
+                      <Form.Group className="mt-2">
+                        <Form.Label className="small fw-semibold m-0">Expiration</Form.Label>
+                        <Form.Control
+                          size="sm"
+                          type="datetime-local"
+                          value={room.expires_at ? toDateTimeLocal(room.expires_at) : ""}
+                          onChange={(e) => handleUpdateExpiry(room.id, e.target.value)}
+                        />
+                      </Form.Group>
+                      <RoomInvitations roomId={room.id} />
                     </>
-                  ) : (
-                    // Afficher simplement le nom de la salle si on n'est pas en train de modifier le nom de la salle
-                    // Mise en place d'une pop-up indiquant qu'on peut modifier le nom de la salle en cliquant sur le label
-                    <OverlayTrigger
-                      trigger={["hover", "focus"]}
-                      placement="top"
-                      overlay={
-                        <Popover className="roomPopup bg-white-pink border-0 card p-0 rounded-2">
-                          <Popover.Body className="p-1 small">
-                            Cliquer pour modifier le nom
-                          </Popover.Body>
-                        </Popover>
-                      }
+                  )}
+
+                  {/* Bouton pour rejoindre une salle */}
+                  <Button
+                    variant="primary"
+                    className="primary-btn mt-3 w-75 d-block mx-auto"
+                    onClick={() => handleJoinRoom(room.id)}
+                    size="sm"
+                  >
+                    Rejoindre
+                  </Button>
+
+                  {/* Bouton pour supprimer une salle */}
+                  {isOwner && (
+                    <Button
+                      className="tertiary-btn mt-3 w-100"
+                      onClick={() => handleDeleteRoom(room.id)}
+                      size={"sm"}
                     >
-                      {/* Si on clique sur le label, on entre dans la modification du nom de la salle */}
-                      <Form.Label
-                        className="fw-bold"
-                        onClick={() => handleStartEdit(room.id)}
-                        style={{ cursor: "pointer" }}
-                      >
-                        {room.short_name}
-                      </Form.Label>
-                    </OverlayTrigger>
+                      Supprimer
+                    </Button>
                   )}
-                </Form.Group>
-
-                {/* Afficher l'id de la salle */}
-                <p className="color-lightblue" style={{ fontSize: "0.7rem" }}>
-                  {room.id}
-                </p>
-
-                {/* Bouton pour rejoindre une salle */}
-                <Button
-                  variant="primary"
-                  className="primary-btn mt-3 w-75 d-block mx-auto"
-                  onClick={() => handleJoinRoom(room.id)}
-                  size="sm"
-                >
-                  Rejoindre
-                </Button>
-
-                {/* Bouton pour supprimer une salle */}
-                <Button
-                  className="tertiary-btn mt-3 w-100"
-                  onClick={() => handleDeleteRoom(room.id)}
-                  size={"sm"}
-                >
-                  Supprimer
-                </Button>
-              </Card.Body>
-            </Card>
-          </Col>
-        ))}
+                </Card.Body>
+              </Card>
+            </Col>
+          );
+        })}
       </Row>
     </div>
   );
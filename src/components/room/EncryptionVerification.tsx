@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { Alert } from "react-bootstrap";
+import { BsShieldLock } from "react-icons/bs";
+import { E2EVerification, PeerMesh } from "@/features/room/rtc/peer";
+import { ROLE_LABELS } from "@/components/room/roleLabels";
+
+// Codes de vérification du chiffrement de bout en bout, un par participant distant :
+// chacun lit son code à voix haute, l'autre vérifie qu'il affiche le même
+export default function EncryptionVerification({
+  peerConnection,
+}: {
+  peerConnection: PeerMesh;
+}) {
+  const [verifications, setVerifications] = useState<Record<string, E2EVerification>>({});
+
+  // Codes déjà établis puis mise à jour à chaque (ré)ouverture ou fermeture d'un canal
+  useEffect(() => {
+    setVerifications(
+      Object.fromEntries(peerConnection.getVerifications().map((verification) => [verification.peer, verification]))
+    );
+
+    return peerConnection.on("verification", (verification) => {
+      setVerifications((current) => {
+        const next = { ...current };
+        if (verification.sas) next[verification.peer] = verification;
+        else delete next[verification.peer];
+        return next;
+      });
+    });
+  }, [peerConnection]);
+
+  const list = Object.values(verifications);
+  if (list.length === 0) return null;
+
+  return (
+    <Alert variant="light" className="small mb-3">
+      <div className="fw-semibold mb-1">
+        <BsShieldLock className="me-1" />
+        Communication chiffrée de bout en bout
+      </div>
+      {list.map((verification) => (
+        <div key={verification.peer} className="d-flex justify-content-between gap-2">
+          <span>{ROLE_LABELS[verification.peerRole] ?? "Participant"}</span>
+          <span className="fw-bold font-monospace">{verification.sas}</span>
+        </div>
+      ))}
+      <div className="opacity-50 mt-1">
+        Comparez ce code à voix haute avec votre interlocuteur : s'il diffère, la communication n'est pas sûre.
+      </div>
+    </Alert>
+  );
+}
@@ -1,11 +1,13 @@
 import PatientInformationsDisplay from "./PatientInformationsDisplay";
 import VideoButton from "./VideoButton";
-import { useEffect, useState } from "react";
+import { useContext, useEffect, useState } from "react";
 import { Container, Row, Col, Card, Button } from "react-bootstrap";
 import { useAppSelector } from "@/hooks/useMediaStream";
 import { VideoThumbnail } from "@/components/stream/VideoThumbnail";
 import { VideoDeviceSelector } from "@/components/mediaDevices/VideoDeviceSelector";
 import { RefreshDeviceButton } from "@/components/mediaDevices/RefreshDevicesButton";
+import MediaStreamsContext from "@/contexts/MediaStreamsContext";
+import { ROLE_LABELS } from "@/components/room/roleLabels";
 
 type InformationsDetails = {
   name: string;
@@ -56,6 +58,12 @@ const InformationsPanel = ({
     remoteInstrument: useAppSelector((state) => state.streams.remote.instrument?.streamId),
     selectedStream: useAppSelector((state) => state.selectedStream.streamId),
   };
+
+  // Caméras des autres participants (consultation à plusieurs), hors caméra distante principale
+  const [, , remotePeerStreams] = useContext(MediaStreamsContext);
+  const otherCameras = Object.entries(remotePeerStreams)
+    .map(([clientId, peer]) => ({ clientId, role: peer.role, stream: peer.streams.camera }))
+    .filter(({ stream }) => stream && stream.id !== streamIds.remoteCamera);
   return (
     <Container
       className="position-absolute p-0"
@@ -230,6 +238,17 @@ const InformationsPanel = ({
                         style={{ maxWidth: "100%" }}
                       ></VideoThumbnail>
 
+  {otherCameras.map(({ clientId, role, stream }) => (
+    <div key={clientId}>
+      <h5 className="mt-4">{ROLE_LABELS[role] ?? "Participant"}</h5>
+      <VideoThumbnail
+        streamid={stream?.id}
+        autoPlay
+        style={{ maxWidth: "100%" }}
+      />
+    </div>
+  ))}
+
   <div className="mt-4">
     <RefreshDeviceButton />
   </div>
@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { Alert, Button, Card, Form, Spinner } from "react-bootstrap";
+import { RootState } from "@/app/store";
+import { Admission, AdmissionRole, LobbySupabase } from "@/features/room/lobbySupabase";
+import { Room } from "@/features/room/roomSupabase";
+import { userRoleSet } from "@/features/room/roomSlice";
+import { Role } from "@/features/room/rtc/peer";
+import { ROLE_LABELS } from "@/components/room/roleLabels";
+import { supabase } from "@/lib/supabaseClient";
+
+// Rôles proposés pour rejoindre la consultation depuis un compte patient
+const ADMISSION_ROLES: Record<AdmissionRole, Role> = {
+  patient: Role.PATIENT,
+  caregiver: Role.CAREGIVER,
+  interpreter: Role.INTERPRETER,
+};
+
+// Salle d'attente côté patient : demande d'admission puis attente de la décision du praticien
+export default function PatientWaitingRoom({
+  room,
+  onAdmitted,
+  onLeave,
+  defaultReason = "",
+}: {
+  room: Room;
+  onAdmitted: (roomId: string) => void;
+  onLeave: () => void;
+  defaultReason?: string; // Motif pré-rempli (ex : motif du rendez-vous)
+}) {
+  const dispatch = useDispatch();
+
+  // Nom pré-rempli avec le nom d'utilisateur
+  const username = useSelector((state: RootState) => state.user.username);
+  const [patientName, setPatientName] = useState<string>(username ?? "");
+  const [reason, setReason] = useState<string>(defaultReason);
+  const [role, setRole] = useState<AdmissionRole>("patient");
+
+  // Demande d'admission en cours (null tant que le formulaire n'est pas envoyé)
+  const [admission, setAdmission] = useState<Admission | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Suivre en temps réel la décision du praticien
+  // Une fois admis, rejoindre la salle (la connexion WebRTC démarre dans ConsultationRoom)
+  const admissionId = admission?.id;
+  useEffect(() => {
+    if (!admissionId) return;
+
+    const subscription = LobbySupabase.subscribeToAdmissions(async () => {
+      const updated = await LobbySupabase.getAdmission(admissionId);
+      if (!updated) return;
+
+      setAdmission(updated);
+      if (updated.status === "admitted") {
+        onAdmitted(updated.room_id);
+      }
+    }, `id=eq.${admissionId}`);
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [admissionId, onAdmitted]);
+
+  // Envoyer la demande d'admission
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const result = await LobbySupabase.requestAdmission(room.id, patientName.trim(), reason.trim(), role);
+    if (result) {
+      // Le rôle choisi est celui annoncé aux autres participants de la consultation
+      dispatch(userRoleSet(ADMISSION_ROLES[role]));
+      setAdmission(result);
+    } else {
+      setError("Impossible de rejoindre la salle d'attente.");
+    }
+  };
+
+  // Quitter la salle d'attente
+  const handleLeave = async () => {
+    if (admission && admission.status !== "rejected") {
+      await LobbySupabase.leaveLobby(admission.id);
+    }
+    onLeave();
+  };
+
+  return (
+    <Card className="card p-0 bg-grey">
+      <Card.Body>
+        <Card.Title className="fw-semibold">
+          Salle d'attente – {room.short_name}
+        </Card.Title>
+
+        {!admission ? (
+          // Formulaire de demande d'admission
+          <Form onSubmit={handleRequest}>
+            <Form.Group className="mb-3">
+              <Form.Label>Nom</Form.Label>
+              <Form.Control
+                type="text"
+                value={patientName}
+                onChange={(e) => setPatientName(e.target.value)}
+                required
+              />
+            </Form.Group>
+            <Form.Group className="mb-3">
+              <Form.Label>Je rejoins en tant que</Form.Label>
+              <Form.Select
+                value={role}
+                onChange={(e) => setRole(e.target.value as AdmissionRole)}
+              >
+                {Object.entries(ADMISSION_ROLES).map(([value, participantRole]) => (
+                  <option key={value} value={value}>
+                    {ROLE_LABELS[participantRole]}
+                  </option>
+                ))}
+              </Form.Select>
+            </Form.Group>
+            <Form.Group className="mb-3">
+              <Form.Label>Motif de consultation</Form.Label>
+              <Form.Control
+                as="textarea"
+                rows={3}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </Form.Group>
+            {error && <Alert variant="danger">{error}</Alert>}
+            <div className="d-flex gap-2">
+              <Button type="submit" className="primary-btn" size="sm" disabled={!patientName.trim()}>
+                Entrer en salle d'attente
+              </Button>
+              <Button className="secondary-btn" size="sm" onClick={onLeave}>
+                Annuler
+              </Button>
+            </div>
+          </Form>
+        ) : (
+          <>
+            {/* Etat de la demande */}
+            {admission.status === "waiting" && (
+              <p className="d-flex align-items-center gap-2">
+                <Spinner animation="border" size="sm" variant="danger" />
+                Le praticien va bientôt vous recevoir.
+              </p>
+            )}
+            {admission.status === "deferred" && (
+              <Alert variant="warning">
+                Le praticien vous recevra un peu plus tard, merci de patienter.
+              </Alert>
+            )}
+            {admission.status === "rejected" && (
+              <Alert variant="danger">
+                Le praticien n'a pas pu accepter votre demande.
+              </Alert>
+            )}
+            {admission.status === "admitted" && (
+              <p className="d-flex align-items-center gap-2">
+                <Spinner animation="border" size="sm" variant="danger" />
+                Connexion à la salle...
+              </p>
+            )}
+            <Button className="secondary-btn" size="sm" onClick={handleLeave}>
+              {admission.status === "rejected" ? "Retour" : "Quitter la salle d'attente"}
+            </Button>
+          </>
+        )}
+      </Card.Body>
+    </Card>
+  );
+}
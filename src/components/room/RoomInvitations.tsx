@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button, Form, InputGroup } from "react-bootstrap";
+import { Invitation, InvitationSupabase } from "@/features/room/invitationSupabase";
+
+// Invitations à usage unique d'une salle : lien /join/<token> ou code court à transmettre au patient
+export default function RoomInvitations({ roomId }: { roomId: string }) {
+  // Invitations encore utilisables
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+
+  // Id de l'invitation dont le lien vient d'être copié (pour afficher une confirmation)
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  // Récupérer les invitations de la salle
+  const loadInvitations = useCallback(async () => {
+    const result = await InvitationSupabase.getActiveInvitations(roomId);
+    if (result) setInvitations(result);
+  }, [roomId]);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
+
+  // Générer une nouvelle invitation
+  const handleCreate = async () => {
+    const invitation = await InvitationSupabase.createInvitation(roomId);
+    if (invitation) loadInvitations();
+  };
+
+  // Révoquer une invitation avant son utilisation
+  const handleRevoke = async (id: string) => {
+    await InvitationSupabase.revokeInvitation(id);
+    loadInvitations();
+  };
+
+  // Copier le lien d'invitation dans le presse-papier
+  const handleCopy = async (invitation: Invitation) => {
+    await navigator.clipboard.writeText(InvitationSupabase.getInvitationLink(invitation));
+    setCopiedId(invitation.id);
+  };
+
+  return (
+    <div className="mt-2">
+      <p className="m-0 small fw-semibold">Invitations</p>
+      {invitations.map((invitation) => (
+        <div key={invitation.id} className="mb-1">
+          <InputGroup size="sm">
+            <Form.Control readOnly value={invitation.code} className="fw-semibold" />
+            <Button className="secondary-btn" onClick={() => handleCopy(invitation)}>
+              {copiedId === invitation.id ? "Copié" : "Copier le lien"}
+            </Button>
+            <Button className="tertiary-btn" onClick={() => handleRevoke(invitation.id)}>
+              Révoquer
+            </Button>
+          </InputGroup>
+          <p className="m-0 color-lightblue" style={{ fontSize: "0.7rem" }}>
+            Expire le {new Date(invitation.expires_at).toLocaleString("fr-FR")}
+          </p>
+        </div>
+      ))}
+      <Button size="sm" className="secondary-btn w-100" onClick={handleCreate}>
+        Créer une invitation
+      </Button>
+    </div>
+  );
+}
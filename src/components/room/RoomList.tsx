@@ -2,18 +2,27 @@ import React, { useEffect, useState } from "react";
 import { useDispatch, useSelector } from "react-redux";
 import { roomIdUpdated } from "@/features/room/roomSlice";
 import { supabase } from "@/lib/supabaseClient";
-import { Button, Card, Row, Col, Spinner } from "react-bootstrap";
+import { useNavigate } from "react-router-dom";
+import { Button, Card, Row, Col, Spinner, Form, InputGroup } from "react-bootstrap";
 import { Room, RoomSupabase } from "@/features/room/roomSupabase";
 import { RootState } from "@/app/store";
+import PatientWaitingRoom from "@/components/room/PatientWaitingRoom";
 
 export default function RoomList() {
   // Stocker l'ensemble des salles
   const [rooms, setRooms] = useState<Room[]>([]);
 
+  // Salle dont le patient a rejoint la salle d'attente (null sinon)
+  const [lobbyRoom, setLobbyRoom] = useState<Room | null>(null);
+
   // Etat pour regarder si les salles ont fini de se charger
   const [loading, setLoading] = useState<boolean>(true);
 
+  // Code d'invitation saisi par le patient
+  const [invitationCode, setInvitationCode] = useState<string>("");
+
   const dispatch = useDispatch();
+  const navigate = useNavigate();
 
   // Récupérer l'id actuelle de la salle (si il y a, sinon undefined)
   const currentRoomId = useSelector((state: RootState) => state.room.roomId);
@@ -52,8 +61,8 @@ export default function RoomList() {
     }
   };
 
-  // Fonction pour sélectionner une salle pour la rejoindre
-  const handleSelectRoom = (roomId: string) => {
+  // Fonction pour rejoindre une salle une fois admis par le praticien
+  const handleSelectRoom = React.useCallback((roomId: string) => {
     if (currentRoomId) {
       console.log(`[RoomList] Changing rooms from ${currentRoomId} to ${roomId}`);
       
@@ -71,12 +80,40 @@ export default function RoomList() {
       console.log(`[RoomList] Connecting directly to room ${roomId}`);
       dispatch(roomIdUpdated(roomId));
     }
+  }, [currentRoomId, dispatch]);
+
+  // Utiliser un code d'invitation reçu du praticien (même traitement qu'un lien /join/<token>)
+  const handleInvitationCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    navigate(`/join/${encodeURIComponent(invitationCode.trim())}`);
   };
 
   return (
     <div className="h-80">
-      {/* Afficher une animation de chargement en attendant l'affichage des salles */}
-      {loading ? (
+      {/* Saisie d'un code d'invitation */}
+      {!lobbyRoom && (
+        <Form onSubmit={handleInvitationCode} className="mb-3" style={{ maxWidth: "24em" }}>
+          <InputGroup size="sm">
+            <Form.Control
+              placeholder="Code d'invitation"
+              value={invitationCode}
+              onChange={(e) => setInvitationCode(e.target.value)}
+            />
+            <Button type="submit" className="primary-btn" disabled={!invitationCode.trim()}>
+              Valider
+            </Button>
+          </InputGroup>
+        </Form>
+      )}
+      {/* Afficher la salle d'attente si le patient a demandé à rejoindre une salle */}
+      {lobbyRoom ? (
+        <PatientWaitingRoom
+          room={lobbyRoom}
+          onAdmitted={handleSelectRoom}
+          onLeave={() => setLobbyRoom(null)}
+        />
+      ) : loading ? (
+        // Afficher une animation de chargement en attendant l'affichage des salles
         <Spinner animation="border" variant="danger"/>
       ) : rooms.length > 0 ? (
         <Row>
@@ -103,12 +140,12 @@ export default function RoomList() {
                     {room.id}
                   </p>
 
-                  {/* Bouton pour sélectionner et rejoindre une salle */}
+                  {/* Bouton pour entrer dans la salle d'attente de la salle */}
                   <Button
                     className="w-75 d-block mx-auto primary-btn"
                     size="sm"
                     disabled={currentRoomId === room.id}
-                    onClick={() => handleSelectRoom(room.id)}
+                    onClick={() => setLobbyRoom(room)}
                   >
                     {currentRoomId === room.id ? "Salle actuelle" : "Rejoindre"}
                   </Button>
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useState } from "react";
+import { Badge, Button, Card, Stack } from "react-bootstrap";
+import { Admission, AdmissionStatus, LobbySupabase } from "@/features/room/lobbySupabase";
+import { Room } from "@/features/room/roomSupabase";
+import { supabase } from "@/lib/supabaseClient";
+import { Role } from "@/features/room/rtc/peer";
+import { ROLE_LABELS } from "@/components/room/roleLabels";
+
+// Liste d'attente côté praticien : les patients en attente d'admission, avec leur motif de consultation
+export default function WaitingRoomList({
+  rooms,
+  roomId,
+}: {
+  rooms?: Room[];
+  roomId?: string; // Si fourni, n'afficher que les demandes de cette salle
+}) {
+  // Stocker les demandes en attente (waiting ou deferred)
+  const [admissions, setAdmissions] = useState<Admission[]>([]);
+
+  // Récupérer les demandes en attente (de la salle si roomId est fourni)
+  const loadAdmissions = useCallback(async () => {
+    const result = await LobbySupabase.getPendingAdmissions();
+    if (result) {
+      setAdmissions(roomId ? result.filter((a) => a.room_id === roomId) : result);
+    }
+  }, [roomId]);
+
+  // Charger les demandes et se mettre à l'écoute des changements en temps réel
+  useEffect(() => {
+    loadAdmissions();
+    const subscription = LobbySupabase.subscribeToAdmissions(
+      loadAdmissions,
+      roomId ? `room_id=eq.${roomId}` : undefined
+    );
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [roomId, loadAdmissions]);
+
+  // Enregistrer la décision du praticien puis recharger la liste
+  const handleDecision = async (id: string, status: AdmissionStatus) => {
+    if (status === "rejected" && !window.confirm("Refuser ce patient ?")) {
+      return;
+    }
+    await LobbySupabase.updateStatus(id, status);
+    loadAdmissions();
+  };
+
+  // Retrouver le nom de la salle à partir de son id
+  const roomName = (id: string) =>
+    rooms?.find((room) => room.id === id)?.short_name ?? id;
+
+  return (
+    <Card className="card p-0 bg-grey">
+      <Card.Body>
+        <Card.Title className="fw-semibold">
+          Salle d'attente{" "}
+          <Badge bg="secondary" pill>
+            {admissions.length}
+          </Badge>
+        </Card.Title>
+
+        {admissions.length === 0 ? (
+          <p className="m-0 color-lightblue small">Aucun patient en attente</p>
+        ) : (
+          <Stack gap={2}>
+            {/* Pour chaque patient en attente */}
+            {admissions.map((admission) => (
+              <div
+                key={admission.id}
+                className="d-flex align-items-center justify-content-between gap-3 border-bottom pb-2"
+              >
+                <div>
+                  <p className="m-0 fw-semibold">
+                    {admission.patient_name}{" "}
+                    {admission.role && admission.role !== "patient" && (
+                      <Badge bg="info">{ROLE_LABELS[admission.role as Role]}</Badge>
+                    )}{" "}
+                    {admission.status === "deferred" && (
+                      <Badge bg="warning" text="dark">
+                        Reporté
+                      </Badge>
+                    )}
+                  </p>
+                  <p className="m-0 small">{admission.reason || "Aucun motif renseigné"}</p>
+                  {!roomId && (
+                    <p className="m-0 color-lightblue" style={{ fontSize: "0.7rem" }}>
+                      {roomName(admission.room_id)}
+                    </p>
+                  )}
+                </div>
+
+                {/* Boutons de décision du praticien */}
+                <div className="d-flex gap-2">
+                  <Button
+                    size="sm"
+                    className="primary-btn"
+                    onClick={() => handleDecision(admission.id, "admitted")}
+                  >
+                    Admettre
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="secondary-btn"
+                    disabled={admission.status === "deferred"}
+                    onClick={() => handleDecision(admission.id, "deferred")}
+                  >
+                    Reporter
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="tertiary-btn"
+                    onClick={() => handleDecision(admission.id, "rejected")}
+                  >
+                    Refuser
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </Stack>
+        )}
+      </Card.Body>
+    </Card>
+  );
+}
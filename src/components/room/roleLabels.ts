@@ -0,0 +1,10 @@
+import { Role } from "@/features/room/rtc/peer";
+
+// Libellé affiché pour chaque rôle de participant
+export const ROLE_LABELS: Record<Role, string> = {
+  [Role.PRACTITIONER]: "Praticien",
+  [Role.PATIENT]: "Patient",
+  [Role.SPECIALIST]: "Spécialiste",
+  [Role.INTERPRETER]: "Interprète",
+  [Role.CAREGIVER]: "Proche aidant",
+};
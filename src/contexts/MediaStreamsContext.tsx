@@ -1,8 +1,9 @@
 import { createContext } from "react";
-import { MediaStreamList } from "features/room/rtc/peer/models/types";
+import { MediaStreamList, RemotePeerStreams } from "features/room/rtc/peer/models/types";
 
 //type MediaStreamsContextType = [ MediaStreamListType, React.Dispatch<React.SetStateAction<MediaStreamListType>> ]
-type MediaStreamsContextType = [ MediaStreamList, (value: MediaStreamList) => void ]
-const MediaStreamsContext = createContext<MediaStreamsContextType>([{}, () => {}]);
+// The last two entries hold the remote streams of each participant of a multi-party consultation
+type MediaStreamsContextType = [ MediaStreamList, (value: MediaStreamList) => void, RemotePeerStreams, (value: RemotePeerStreams) => void ]
+const MediaStreamsContext = createContext<MediaStreamsContextType>([{}, () => {}, {}, () => {}]);
 
 export default MediaStreamsContext;
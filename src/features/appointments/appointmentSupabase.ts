@@ -0,0 +1,182 @@
+/**
+ * Appointment Supabase Service
+ *
+ * This file defines the service layer for scheduled consultations.
+ * A practitioner books an appointment for a patient at a given time;
+ * each appointment is linked to the room where the consultation happens,
+ * so the patient joins the right room at the right time.
+ */
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabaseClient';
+import { Room, RoomSupabase } from '@/features/room/roomSupabase';
+
+export type AppointmentStatus = 'scheduled' | 'confirmed' | 'cancelled' | 'completed';
+
+// Define the interface to reflect the database structure
+export interface Appointment {
+  id: string;
+  practitioner_id: string;
+  patient_id: string;
+  room_id: string | null;
+  starts_at: string;
+  ends_at: string;
+  status: AppointmentStatus;
+  reason: string;
+  created_at: string;
+}
+
+// Appointment with the linked room and the name of the other party
+export interface AppointmentDetails extends Appointment {
+  room: Room | null;
+  practitioner: { username: string } | null;
+  patient: { username: string } | null;
+}
+
+export interface AppointmentRequest {
+  patientId: string;
+  startsAt: Date;
+  endsAt: Date;
+  reason: string;
+  roomId?: string; // Existing room; a dedicated room is created otherwise
+}
+
+// The room can be joined a few minutes before the start time
+export const JOIN_WINDOW_MINUTES = 10;
+
+// A room created for an appointment expires this long after the end of the appointment
+const ROOM_EXPIRY_MARGIN_MINUTES = 60;
+
+const DETAILS_SELECT = `
+  *,
+  room:rooms(id, short_name),
+  practitioner:profiles!appointments_practitioner_id_fkey(username),
+  patient:profiles!appointments_patient_id_fkey(username)
+`;
+
+export class AppointmentSupabase {
+  // Several components may watch the same appointments: each subscription gets its own channel
+  private static subscriptionCount = 0;
+
+  /**
+   * Books an appointment for the current practitioner
+   * The patient is invited to the room so that it shows up on their side
+   * @returns The appointment or null if booking failed
+   */
+  static async bookAppointment(request: AppointmentRequest): Promise<Appointment | null> {
+    let roomId = request.roomId;
+
+    if (!roomId) {
+      const label = request.startsAt.toLocaleString('fr-FR', {
+        day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit'
+      });
+      const room = await RoomSupabase.createRoom(`RDV ${label}`, {
+        invitedPatientIds: [request.patientId],
+        expiresAt: new Date(request.endsAt.getTime() + ROOM_EXPIRY_MARGIN_MINUTES * 60 * 1000)
+      });
+      if (!room) {
+        console.error('Error booking appointment: could not create its room');
+        return null;
+      }
+      roomId = room.id;
+    } else if (!await RoomSupabase.invitePatient(roomId, request.patientId)) {
+      console.error('Error booking appointment: could not invite the patient to the room');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .insert({
+        patient_id: request.patientId,
+        room_id: roomId,
+        starts_at: request.startsAt.toISOString(),
+        ends_at: request.endsAt.toISOString(),
+        reason: request.reason
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error booking appointment:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  /**
+   * Retrieves the current user's appointments between two dates, earliest first
+   * RLS restricts the result to appointments where the user is practitioner or patient
+   */
+  static async getAppointments(from: Date, to?: Date): Promise<AppointmentDetails[] | null> {
+    let query = supabase
+      .from('appointments')
+      .select(DETAILS_SELECT)
+      .gte('ends_at', from.toISOString())
+      .order('starts_at', { ascending: true });
+
+    if (to) {
+      query = query.lt('starts_at', to.toISOString());
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error getting appointments:', error);
+      return null;
+    }
+
+    return data as AppointmentDetails[];
+  }
+
+  /**
+   * Retrieves the upcoming (or ongoing) appointments that are not cancelled
+   */
+  static async getUpcomingAppointments(): Promise<AppointmentDetails[] | null> {
+    const result = await AppointmentSupabase.getAppointments(new Date());
+    return result?.filter((appointment) => appointment.status !== 'cancelled') ?? null;
+  }
+
+  /**
+   * Updates the status of an appointment (confirm, cancel, complete)
+   */
+  static async updateStatus(appointmentId: string, status: AppointmentStatus): Promise<boolean> {
+    const { error } = await supabase
+      .from('appointments')
+      .update({ status })
+      .eq('id', appointmentId);
+
+    if (error) {
+      console.error('Error updating appointment status:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Whether the room of an appointment can be joined at the given time:
+   * from JOIN_WINDOW_MINUTES before the start until the end
+   */
+  static isJoinable(appointment: Appointment, now: Date = new Date()): boolean {
+    if (!appointment.room_id || appointment.status === 'cancelled' || appointment.status === 'completed') {
+      return false;
+    }
+
+    const opensAt = new Date(appointment.starts_at).getTime() - JOIN_WINDOW_MINUTES * 60 * 1000;
+    return now.getTime() >= opensAt && now.getTime() < new Date(appointment.ends_at).getTime();
+  }
+
+  /**
+   * Sets up a real-time subscription to appointment changes
+   * @param callback Function to call when an appointment changes
+   * @returns The subscription object
+   */
+  static subscribeToAppointments(callback: (payload: RealtimePostgresChangesPayload<Appointment>) => void) {
+    return supabase
+      .channel(`appointments-changes:${++AppointmentSupabase.subscriptionCount}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'appointments' },
+        callback)
+      .subscribe();
+  }
+}
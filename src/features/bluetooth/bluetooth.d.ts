@@ -72,6 +72,12 @@ interface BluetoothRemoteGATTCharacteristic extends EventTarget {
   // Arrête les notifications
   stopNotifications(): Promise<BluetoothRemoteGATTCharacteristic>;
 
+  // Lit la valeur actuelle (niveau de batterie...)
+  readValue(): Promise<DataView>;
+
+  // Écrit une valeur (commande d'un point de contrôle, comme le Record Access Control Point)
+  writeValue(value: BufferSource): Promise<void>;
+
   // Écouteur pour les mises à jour de valeur (comme une mesure de capteur)
   addEventListener(
     type: "characteristicvaluechanged", // Événement déclenché quand une nouvelle valeur est reçue
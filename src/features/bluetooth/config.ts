@@ -1,52 +1,106 @@
-import { readSfloat16, readIEEE11073Float, readDateTime } from "./parsers";
+import type { CharacteristicSpec } from "./decoder";
 
 export interface DeviceType {
   [service: string]: {
-    [characteristic: string]: {
-      decoder: (data: DataView, offset: number) => number;
-      [field: string]: any;
-    };
+    [characteristic: string]: CharacteristicSpec;
   };
 }
 
+// Chaque characteristic liste ses champs dans l'ordre de la spécification Bluetooth SIG (voir decoder.ts) ;
+// un champ mesuré déclare sa clé (MeasurementKey) et son unité UCUM, les libellés affichés
+// sont définis dans l'interface (components/bluetooth/measurementLabels.ts)
+
+// Flag 0x01 des tensiomètres, thermomètres et pèse-personnes : unité impériale / alternative
+const isAlternateUnit = (flags: number) => (flags & 0b00000001) !== 0;
+
 const deviceType: DeviceType = {
+  // Tensiomètre (service 0x1810)
   blood_pressure: {
-    blood_pressure_measurement: {
-      decoder: readSfloat16,
-      systolic: {
-        name: "Systolique (mmHg)",
-        value: 1,
-      },
-      diastolic: {
-        name: "Diastolique (mmHg)",
-        value: 3,
-      },
-      pulseRatePresent: {
-        name: "Fréquence cardiaque (bpm)",
-        data: 0b00000100,
-        offset: 14, 
-      },
-      date: {
-        name: "Date de la mesure",
-        offset: 7,
-        decoder: readDateTime,
-      },
-    },
+    blood_pressure_measurement: [
+      { type: "sfloat", key: "systolic", unit: (flags) => (isAlternateUnit(flags) ? "kPa" : "mm[Hg]") },
+      { type: "sfloat", key: "diastolic", unit: (flags) => (isAlternateUnit(flags) ? "kPa" : "mm[Hg]") },
+      { type: "sfloat" }, // pression artérielle moyenne
+      { type: "datetime", flag: 0b00000010, role: "timestamp" },
+      { type: "sfloat", flag: 0b00000100, key: "pulse_rate", unit: "/min" },
+      { type: "uint8", flag: 0b00001000 }, // identifiant utilisateur
+      { type: "uint16", flag: 0b00010000 }, // état de la mesure
+    ],
   },
 
+  // Thermomètre (service 0x1809)
   health_thermometer: {
-    temperature_measurement: {
-      decoder: readIEEE11073Float,
-      temperature: {
-        name: "Température (°C)",
-        value: 1,
+    temperature_measurement: [
+      { type: "float", key: "body_temperature", unit: (flags) => (isAlternateUnit(flags) ? "[degF]" : "Cel") },
+      { type: "datetime", flag: 0b00000010, role: "timestamp" },
+      { type: "uint8", flag: 0b00000100 }, // site de mesure
+    ],
+  },
+
+  // Oxymètre de pouls (service PLX 0x1822) : SpO2, fréquence cardiaque et indice de perfusion optionnel
+  pulse_oximeter: {
+    // Mesure ponctuelle (0x2A5E)
+    plx_spot_check_measurement: [
+      { type: "sfloat", key: "oxygen_saturation", unit: "%" },
+      { type: "sfloat", key: "pulse_rate", unit: "/min" },
+      { type: "datetime", flag: 0b00000001, role: "timestamp" },
+      { type: "uint16", flag: 0b00000010 }, // état de la mesure
+      { type: "uint24", flag: 0b00000100 }, // état de l'appareil et du capteur
+      { type: "sfloat", flag: 0b00001000, key: "perfusion_index", unit: "%" },
+    ],
+    // Mesure en continu (0x2A5F), sans horodatage
+    plx_continuous_measurement: [
+      { type: "sfloat", key: "oxygen_saturation", unit: "%" },
+      { type: "sfloat", key: "pulse_rate", unit: "/min" },
+      { type: "sfloat", flag: 0b00000001 }, // SpO2 rapide
+      { type: "sfloat", flag: 0b00000001 }, // fréquence cardiaque rapide
+      { type: "sfloat", flag: 0b00000010 }, // SpO2 lente
+      { type: "sfloat", flag: 0b00000010 }, // fréquence cardiaque lente
+      { type: "uint16", flag: 0b00000100 }, // état de la mesure
+      { type: "uint24", flag: 0b00001000 }, // état de l'appareil et du capteur
+      { type: "sfloat", flag: 0b00010000, key: "perfusion_index", unit: "%" },
+    ],
+  },
+
+  // Pèse-personne (service 0x181D) : poids, IMC et taille optionnels
+  weight_scale: {
+    weight_measurement: [
+      {
+        type: "uint16",
+        key: "body_weight",
+        unit: (flags) => (isAlternateUnit(flags) ? "[lb_av]" : "kg"),
+        divisor: (flags) => (isAlternateUnit(flags) ? 100 : 200), // résolution 0,01 lb ou 0,005 kg
+        missing: 0xFFFF, // pesée non aboutie
       },
-      date: {
-        name: "Date de la mesure",
-        offset: 5,
-        decoder: readDateTime,
+      { type: "datetime", flag: 0b00000010, role: "timestamp" },
+      { type: "uint8", flag: 0b00000100 }, // identifiant utilisateur
+      { type: "uint16", flag: 0b00001000, key: "bmi", unit: "kg/m2", divisor: 10 },
+      {
+        type: "uint16",
+        flag: 0b00001000,
+        key: "body_height",
+        unit: (flags) => (isAlternateUnit(flags) ? "[in_i]" : "m"),
+        divisor: (flags) => (isAlternateUnit(flags) ? 10 : 1000), // résolution 0,1 in ou 1 mm
+      },
+    ],
+  },
+
+  // Glucomètre (service 0x1808) : les mesures enregistrées se récupèrent via le Record Access Control Point (services.ts)
+  glucose: {
+    glucose_measurement: [
+      { type: "uint16", role: "sequence" }, // numéro de l'enregistrement dans l'appareil
+      { type: "datetime", role: "timestamp" }, // date de base
+      { type: "sint16", flag: 0b00000001, role: "timeOffset" }, // décalage en minutes de la date de base
+      // Concentration en kg/L (flag 0x04 à 0) ou mol/L, convertie en mg/dL ou mmol/L
+      {
+        type: "sfloat",
+        flag: 0b00000010,
+        key: "blood_glucose",
+        unit: (flags) => (flags & 0b00000100 ? "mmol/L" : "mg/dL"),
+        exponent: (flags) => (flags & 0b00000100 ? 3 : 5),
       },
-    },
+      { type: "uint8", flag: 0b00000010 }, // type d'échantillon et site de prélèvement
+      { type: "uint16", flag: 0b00001000 }, // état du capteur
+    ],
   },
 
   //Pour autres instruments, ajouter ici le service
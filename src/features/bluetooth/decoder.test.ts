@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import deviceType from './config';
+import { decodeFrame } from './decoder';
+
+const bloodPressure = deviceType.blood_pressure.blood_pressure_measurement;
+const temperature = deviceType.health_thermometer.temperature_measurement;
+const plxSpotCheck = deviceType.pulse_oximeter.plx_spot_check_measurement;
+const plxContinuous = deviceType.pulse_oximeter.plx_continuous_measurement;
+
+// Trame construite à partir des octets tels qu'ils sont transmis (little endian)
+const frame = (...bytes: number[]) => new DataView(new Uint8Array(bytes).buffer);
+
+// 19/10/2026 08:30:00, au format Date Time (0x2A08)
+const DATE_TIME = [0xEA, 0x07, 0x0A, 0x13, 0x08, 0x1E, 0x00];
+const MEASURED_AT = new Date(2026, 9, 19, 8, 30, 0).getTime();
+
+describe('decodeFrame : Blood Pressure Measurement (0x2A35)', () => {
+  it('lit tous les champs optionnels (horodatage, pouls, utilisateur, état)', () => {
+    const decoded = decodeFrame(bloodPressure, frame(
+      0x1E, // flags : horodatage, pouls, identifiant utilisateur, état
+      0x78, 0x00, // systolique 120
+      0x50, 0x00, // diastolique 80
+      0x5D, 0x00, // pression artérielle moyenne 93
+      ...DATE_TIME,
+      0x48, 0x00, // pouls 72
+      0x01, // utilisateur 1
+      0x00, 0x00, // état
+    ));
+
+    expect(decoded.values).toEqual([
+      { key: 'systolic', unit: 'mm[Hg]', value: 120 },
+      { key: 'diastolic', unit: 'mm[Hg]', value: 80 },
+      { key: 'pulse_rate', unit: '/min', value: 72 },
+    ]);
+    expect(decoded.timestamp).toBe(MEASURED_AT);
+  });
+
+  it('lit le pouls placé juste après la pression moyenne quand l\'horodatage est absent', () => {
+    const decoded = decodeFrame(bloodPressure, frame(0x04, 0x78, 0x00, 0x50, 0x00, 0x5D, 0x00, 0x48, 0x00));
+
+    expect(decoded.timestamp).toBeUndefined();
+    expect(decoded.values.find((value) => value.key === 'pulse_rate')?.value).toBe(72);
+  });
+
+  it('ne renvoie pas de pouls quand son flag est absent, même avec identifiant utilisateur et état', () => {
+    const decoded = decodeFrame(bloodPressure, frame(0x18, 0x78, 0x00, 0x50, 0x00, 0x5D, 0x00, 0x02, 0x04, 0x00));
+
+    expect(decoded.values.map((value) => value.key)).toEqual(['systolic', 'diastolic']);
+  });
+
+  it('lit les pressions en kPa quand le flag d\'unité (0x01) est à 1', () => {
+    const decoded = decodeFrame(bloodPressure, frame(
+      0x01,
+      0xA0, 0xF0, // 160 × 10^-1 = 16,0 kPa
+      0x6B, 0xF0, // 10,7 kPa
+      0x80, 0xF0, // 12,8 kPa
+    ));
+
+    expect(decoded.values).toEqual([
+      { key: 'systolic', unit: 'kPa', value: 16 },
+      { key: 'diastolic', unit: 'kPa', value: 10.7 },
+    ]);
+  });
+
+  it('ignore un horodatage dont l\'année est inconnue (0)', () => {
+    const decoded = decodeFrame(bloodPressure, frame(0x02, 0x78, 0x00, 0x50, 0x00, 0x5D, 0x00, 0, 0, 0, 0, 0, 0, 0));
+
+    expect(decoded.timestamp).toBeUndefined();
+  });
+
+  it.each([
+    ['NaN', 0x07FF],
+    ['NRes', 0x0800],
+    ['+INFINI', 0x07FE],
+    ['-INFINI', 0x0802],
+  ])('décode la valeur spéciale SFLOAT %s en NaN', (_name, raw) => {
+    const decoded = decodeFrame(bloodPressure, frame(0x00, raw & 0xFF, raw >> 8, 0x50, 0x00, 0x5D, 0x00));
+
+    expect(decoded.values[0].value).toBeNaN();
+    expect(decoded.values[1].value).toBe(80);
+  });
+
+  it('rejette une trame tronquée', () => {
+    // Flag d'horodatage présent, mais la trame s'arrête après la pression moyenne
+    expect(() => decodeFrame(bloodPressure, frame(0x02, 0x78, 0x00, 0x50, 0x00, 0x5D, 0x00))).toThrow(RangeError);
+  });
+});
+
+describe('decodeFrame : Temperature Measurement (0x2A1C)', () => {
+  it('lit un FLOAT en degrés Celsius, ou Fahrenheit avec le flag 0x01', () => {
+    expect(decodeFrame(temperature, frame(0x00, 0x6F, 0x01, 0x00, 0xFF)).values).toEqual([
+      { key: 'body_temperature', unit: 'Cel', value: 36.7 },
+    ]);
+    expect(decodeFrame(temperature, frame(0x01, 0x1A, 0x04, 0x00, 0xFF)).values).toEqual([
+      { key: 'body_temperature', unit: '[degF]', value: 105 },
+    ]);
+  });
+
+  it('décode la valeur spéciale FLOAT NaN en NaN', () => {
+    expect(decodeFrame(temperature, frame(0x00, 0xFF, 0xFF, 0x7F, 0x00)).values[0].value).toBeNaN();
+  });
+});
+
+// Trames relevées sur des oxymètres : SpO2 97 %, pouls 72/min, indice de perfusion 4,2 % ou 3,5 %
+describe('decodeFrame : PLX Spot-Check Measurement (0x2A5E)', () => {
+  it('lit l\'horodatage (0x01) et l\'indice de perfusion (0x08)', () => {
+    const decoded = decodeFrame(plxSpotCheck, frame(0x09, 0x61, 0x00, 0x48, 0x00, ...DATE_TIME, 0x2A, 0xF0));
+
+    expect(decoded.values).toEqual([
+      { key: 'oxygen_saturation', unit: '%', value: 97 },
+      { key: 'pulse_rate', unit: '/min', value: 72 },
+      { key: 'perfusion_index', unit: '%', value: 4.2 },
+    ]);
+    expect(decoded.timestamp).toBe(MEASURED_AT);
+  });
+
+  it('saute les états de la mesure (0x02) et de l\'appareil (0x04) avant l\'indice de perfusion', () => {
+    const decoded = decodeFrame(plxSpotCheck, frame(0x0E, 0x61, 0x00, 0x48, 0x00, 0x20, 0x00, 0x00, 0x00, 0x00, 0x2A, 0xF0));
+
+    expect(decoded.timestamp).toBeUndefined();
+    expect(decoded.values.find((value) => value.key === 'perfusion_index')?.value).toBe(4.2);
+  });
+
+  it('ne renvoie que la SpO2 et le pouls sans flag', () => {
+    const decoded = decodeFrame(plxSpotCheck, frame(0x00, 0x61, 0x00, 0x48, 0x00));
+
+    expect(decoded.values.map((value) => value.key)).toEqual(['oxygen_saturation', 'pulse_rate']);
+  });
+});
+
+describe('decodeFrame : PLX Continuous Measurement (0x2A5F)', () => {
+  it('saute les valeurs rapides (0x01) et lentes (0x02) avant l\'indice de perfusion (0x10)', () => {
+    const decoded = decodeFrame(plxContinuous, frame(
+      0x13,
+      0x61, 0x00, 0x48, 0x00, // SpO2 97, pouls 72
+      0x60, 0x00, 0x4B, 0x00, // rapides : 96, 75
+      0x62, 0x00, 0x46, 0x00, // lentes : 98, 70
+      0x23, 0xF0, // indice de perfusion 3,5
+    ));
+
+    expect(decoded.values).toEqual([
+      { key: 'oxygen_saturation', unit: '%', value: 97 },
+      { key: 'pulse_rate', unit: '/min', value: 72 },
+      { key: 'perfusion_index', unit: '%', value: 3.5 },
+    ]);
+  });
+
+  it('lit l\'indice de perfusion après les seules valeurs rapides', () => {
+    const decoded = decodeFrame(plxContinuous, frame(0x11, 0x61, 0x00, 0x48, 0x00, 0x60, 0x00, 0x4B, 0x00, 0x23, 0xF0));
+
+    expect(decoded.values.find((value) => value.key === 'perfusion_index')?.value).toBe(3.5);
+  });
+
+  it('saute les états (0x04, 0x08) et n\'a jamais d\'horodatage', () => {
+    const decoded = decodeFrame(plxContinuous, frame(0x1C, 0x61, 0x00, 0x48, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x23, 0xF0));
+
+    expect(decoded.timestamp).toBeUndefined();
+    expect(decoded.values.map((value) => value.value)).toEqual([97, 72, 3.5]);
+  });
+
+  it('décode en NaN la SpO2 d\'un capteur sans doigt détecté', () => {
+    const decoded = decodeFrame(plxContinuous, frame(0x00, 0xFF, 0x07, 0xFF, 0x07));
+
+    expect(decoded.values.every((value) => Number.isNaN(value.value))).toBe(true);
+  });
+
+  it('rejette une trame dont l\'indice de perfusion annoncé manque', () => {
+    expect(() => decodeFrame(plxContinuous, frame(0x10, 0x61, 0x00, 0x48, 0x00))).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,121 @@
+// Interpréteur des trames GATT décrites dans config.ts
+//
+// Une characteristic est décrite par la liste ordonnée de ses champs, comme dans la spécification
+// Bluetooth SIG. Le premier octet de la trame porte les flags : un champ optionnel n'est lu que si
+// son bit est à 1, sinon il n'occupe aucun octet. La position de chaque champ découle ainsi des
+// champs présents avant lui, sans offset écrit en dur.
+
+import type { MeasurementKey } from '@/features/room/rtc/peer';
+import { readDateTime, readIEEE11073FloatScaled, readSfloat16Scaled } from './parsers';
+
+// Formats de champ et leur taille en octets
+export type FieldType = 'uint8' | 'uint16' | 'sint16' | 'uint24' | 'sfloat' | 'float' | 'datetime';
+
+export const FIELD_SIZES: Record<FieldType, number> = {
+  uint8: 1,
+  uint16: 2,
+  sint16: 2,
+  uint24: 3,
+  sfloat: 2,
+  float: 4,
+  datetime: 7,
+};
+
+// Valeur fixe ou dépendant des flags de la trame (unité mmHg / kPa...)
+export type FlagDependent<T> = T | ((flags: number) => T);
+
+export interface FieldSpec {
+  type: FieldType;
+  flag?: number; // Champ optionnel : présent seulement si ce bit des flags est à 1
+  // Rôle du champ : une valeur mesurée (avec key), la date de la mesure, un décalage en minutes
+  // de cette date, ou le numéro d'enregistrement. Un champ sans key ni rôle est lu puis ignoré
+  role?: 'timestamp' | 'timeOffset' | 'sequence';
+  key?: MeasurementKey;
+  unit?: FlagDependent<string>; // Code UCUM
+  exponent?: FlagDependent<number>; // sfloat / float : puissance de 10 appliquée sans erreur d'arrondi
+  divisor?: FlagDependent<number>; // Entiers : résolution (200 => 0,005 kg)
+  missing?: number; // Valeur brute signifiant « non mesuré » (0xFFFF pour le poids)
+}
+
+// Champs d'une characteristic, dans l'ordre de la trame
+export type CharacteristicSpec = FieldSpec[];
+
+export interface DecodedFrame {
+  values: { key: MeasurementKey; unit: string; value: number }[]; // NaN pour une valeur non disponible
+  timestamp?: number; // Date fournie par l'appareil, absente si la trame n'en a pas de valide
+  sequenceNumber?: number;
+}
+
+export const resolveFlagDependent = <T>(value: FlagDependent<T>, flags: number): T =>
+  typeof value === 'function' ? (value as (flags: number) => T)(flags) : value;
+
+// Lit la valeur numérique d'un champ (hors date)
+function readNumber(field: FieldSpec, data: DataView, offset: number, flags: number): number {
+  const exponent = resolveFlagDependent(field.exponent ?? 0, flags);
+
+  let raw: number;
+  switch (field.type) {
+    case 'sfloat':
+      return readSfloat16Scaled(data, offset, exponent);
+    case 'float':
+      return readIEEE11073FloatScaled(data, offset, exponent);
+    case 'uint8':
+      raw = data.getUint8(offset);
+      break;
+    case 'uint16':
+      raw = data.getUint16(offset, true);
+      break;
+    case 'sint16':
+      raw = data.getInt16(offset, true);
+      break;
+    case 'uint24':
+      raw = data.getUint16(offset, true) | (data.getUint8(offset + 2) << 16);
+      break;
+    default:
+      throw new Error(`Format ${field.type} non numérique`);
+  }
+
+  if (raw === field.missing) return NaN;
+  return raw / resolveFlagDependent(field.divisor ?? 1, flags);
+}
+
+// Décode une trame : les champs sont parcourus dans l'ordre, en sautant ceux dont le flag est absent
+export function decodeFrame(spec: CharacteristicSpec, data: DataView): DecodedFrame {
+  const flags = data.getUint8(0);
+  const frame: DecodedFrame = { values: [] };
+  let measuredAt: Date | null = null;
+  let timeOffset = 0; // minutes
+
+  let cursor = 1;
+  for (const field of spec) {
+    if (field.flag !== undefined && (flags & field.flag) === 0) continue;
+
+    const size = FIELD_SIZES[field.type];
+    if (cursor + size > data.byteLength) {
+      throw new RangeError(`Trame trop courte : ${data.byteLength} octets, champ ${field.key ?? field.role ?? field.type} attendu à l'octet ${cursor}`);
+    }
+
+    if (field.type === 'datetime') {
+      if (field.role === 'timestamp') measuredAt = readDateTime(data, cursor);
+    } else if (field.role === 'timeOffset') {
+      timeOffset = readNumber(field, data, cursor, flags);
+    } else if (field.role === 'sequence') {
+      frame.sequenceNumber = readNumber(field, data, cursor, flags);
+    } else if (field.key) {
+      frame.values.push({
+        key: field.key,
+        unit: resolveFlagDependent(field.unit ?? '', flags),
+        value: readNumber(field, data, cursor, flags),
+      });
+    }
+
+    cursor += size;
+  }
+
+  // Date valide fournie par l'appareil, corrigée de son décalage éventuel
+  if (measuredAt && !isNaN(measuredAt.getTime())) {
+    frame.timestamp = measuredAt.getTime() + timeOffset * 60000;
+  }
+
+  return frame;
+}
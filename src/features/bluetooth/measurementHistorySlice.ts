@@ -0,0 +1,83 @@
+/**
+ * Measurement History Slice
+ *
+ * Keeps every measurement received from the patient's devices during a
+ * consultation, as a timestamped series per room and per Bluetooth service,
+ * so that the practitioner can follow trends (repeated blood pressure
+ * readings, temperature curve). Readings can be annotated and a series cleared.
+ */
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { Measurement } from '@/features/room/rtc/peer';
+
+/**
+ * Values of a service read together, as received over the data channel
+ */
+export interface MeasurementReading {
+    id: string;
+    timestamp: number;              // When the values were measured, used as the time axis
+    measurements: Measurement[];    // e.g. systolic, diastolic and pulse rate
+    note?: string;                  // Practitioner's annotation
+}
+
+/**
+ * Interface defining the measurement history state structure
+ */
+interface MeasurementHistoryState {
+    historyByRoom: Record<string, Record<string, MeasurementReading[]>>; // Readings by room ID, then by service
+}
+
+const initialState: MeasurementHistoryState = {
+    historyByRoom: {}
+};
+
+// Oldest readings are dropped beyond this length, per service
+export const MAX_READINGS_PER_SERVICE = 500;
+
+function findReading(state: MeasurementHistoryState, roomId: string, service: string, id: string) {
+    return state.historyByRoom[roomId]?.[service]?.find(reading => reading.id === id);
+}
+
+const measurementHistorySlice = createSlice({
+    name: 'measurementHistory',
+    initialState,
+    reducers: {
+        /**
+         * Appends a reading to the series of a service, keeping the series sorted by time
+         */
+        readingAdded: (state, action: PayloadAction<{ roomId: string, service: string, reading: MeasurementReading }>) => {
+            const { roomId, service, reading } = action.payload;
+            const room = state.historyByRoom[roomId] ?? (state.historyByRoom[roomId] = {});
+            const series = room[service] ?? [];
+            if (series.some(existing => existing.id === reading.id)) return;
+
+            room[service] = [...series, reading]
+                .sort((a, b) => a.timestamp - b.timestamp)
+                .slice(-MAX_READINGS_PER_SERVICE);
+        },
+        /**
+         * Sets or removes (empty note) the annotation of a reading
+         */
+        readingAnnotated: (state, action: PayloadAction<{ roomId: string, service: string, id: string, note: string }>) => {
+            const { roomId, service, id, note } = action.payload;
+            const reading = findReading(state, roomId, service, id);
+            if (!reading) return;
+
+            if (note.trim()) {
+                reading.note = note.trim();
+            } else {
+                delete reading.note;
+            }
+        },
+        /**
+         * Removes every reading of a service
+         */
+        seriesCleared: (state, action: PayloadAction<{ roomId: string, service: string }>) => {
+            const { roomId, service } = action.payload;
+            delete state.historyByRoom[roomId]?.[service];
+        }
+    }
+});
+
+export const { readingAdded, readingAnnotated, seriesCleared } = measurementHistorySlice.actions;
+
+export default measurementHistorySlice.reducer;
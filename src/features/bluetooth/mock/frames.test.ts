@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import deviceType from '../config';
+import { decodeFrame } from '../decoder';
+import { encodeFrame } from './frames';
+import { getScenarioValues, MOCK_DEVICE_PROFILES, type MockScenario } from './scenarios';
+
+// Chaque characteristic simulée, avec les flags des trames qu'envoie son appareil
+const characteristics = MOCK_DEVICE_PROFILES.flatMap((profile) =>
+  Object.entries(profile.characteristics).map(([name, flags]) => [profile.service, name, flags] as const)
+);
+
+const MEASURED_AT = new Date(2026, 9, 19, 8, 30, 0);
+
+describe('encodeFrame : trames des appareils simulés', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe.each<MockScenario>(['normal', 'hypertensive', 'fever'])('scénario %s', (scenario) => {
+    it.each(characteristics)('%s / %s : decodeFrame relit les valeurs et la date écrites', (service, name, flags) => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5); // valeurs de référence, sans variation
+      const values = getScenarioValues(scenario);
+      const spec = deviceType[service][name];
+
+      const decoded = decodeFrame(spec, encodeFrame(spec, { flags, values, timestamp: MEASURED_AT, sequenceNumber: 7 }));
+
+      expect(decoded.values.length).toBeGreaterThan(0);
+      for (const { key, value } of decoded.values) {
+        expect(value).toBeCloseTo(values[key]!, 2);
+      }
+      if (spec.some((field) => field.role === 'timestamp' && (field.flag === undefined || (flags & field.flag) !== 0))) {
+        expect(decoded.timestamp).toBe(MEASURED_AT.getTime());
+      }
+    });
+  });
+
+  it('numérote les enregistrements du glucomètre', () => {
+    const spec = deviceType.glucose.glucose_measurement;
+    const frame = encodeFrame(spec, { flags: 0b10, values: { blood_glucose: 95 }, timestamp: MEASURED_AT, sequenceNumber: 42 });
+
+    expect(decodeFrame(spec, frame).sequenceNumber).toBe(42);
+  });
+
+  it('ajoute une variation entière aux grandeurs mesurées en valeurs entières', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const values = getScenarioValues('normal');
+
+    expect(values.systolic).toBe(122);
+    expect(values.body_temperature).toBe(37);
+    expect(values.body_height).toBe(1.77); // pas de variation
+  });
+});
@@ -0,0 +1,80 @@
+// Construction des trames GATT des appareils simulés
+//
+// Opération inverse de decodeFrame : les trames sont écrites à partir des mêmes descriptions de champs
+// (config.ts), si bien que chaque profil déclaré dans deviceType peut être simulé sans code spécifique.
+
+import type { MeasurementKey } from '@/features/room/rtc/peer';
+import { FIELD_SIZES, resolveFlagDependent, type CharacteristicSpec, type FieldSpec } from '../decoder';
+
+// Contenu d'une trame : flags et valeurs des champs présents
+export interface FrameContent {
+  flags: number;
+  values: Partial<Record<MeasurementKey, number>>; // Dans l'unité choisie par les flags
+  timestamp?: Date;
+  sequenceNumber?: number;
+}
+
+// SFLOAT avec une décimale quand la mantisse (12 bits signés) le permet ; shift = exposant du champ
+function writeSfloat(view: DataView, offset: number, value: number, shift: number) {
+  const exponent = Math.abs(value * 10) < 2048 ? -1 : 0;
+  const mantissa = Math.round(value * Math.pow(10, -exponent)) & 0x0FFF;
+  view.setUint16(offset, (((exponent - shift) & 0x0F) << 12) | mantissa, true);
+}
+
+// FLOAT avec deux décimales
+function writeFloat(view: DataView, offset: number, value: number, shift: number) {
+  const mantissa = Math.round(value * 100) & 0x00FFFFFF;
+  view.setUint32(offset, ((((-2 - shift) & 0xFF) << 24) | mantissa) >>> 0, true);
+}
+
+function writeDateTime(view: DataView, offset: number, date: Date) {
+  view.setUint16(offset, date.getFullYear(), true);
+  view.setUint8(offset + 2, date.getMonth() + 1);
+  view.setUint8(offset + 3, date.getDate());
+  view.setUint8(offset + 4, date.getHours());
+  view.setUint8(offset + 5, date.getMinutes());
+  view.setUint8(offset + 6, date.getSeconds());
+}
+
+function writeNumber(view: DataView, offset: number, field: FieldSpec, value: number, flags: number) {
+  const shift = resolveFlagDependent(field.exponent ?? 0, flags);
+  const raw = Math.round(value * resolveFlagDependent(field.divisor ?? 1, flags));
+
+  switch (field.type) {
+    case 'sfloat':
+      return writeSfloat(view, offset, value, shift);
+    case 'float':
+      return writeFloat(view, offset, value, shift);
+    case 'uint8':
+      return view.setUint8(offset, raw);
+    case 'uint16':
+      return view.setUint16(offset, raw, true);
+    case 'sint16':
+      return view.setInt16(offset, raw, true);
+    case 'uint24':
+      view.setUint16(offset, raw & 0xFFFF, true);
+      return view.setUint8(offset + 2, raw >> 16);
+  }
+}
+
+// Écrit une trame : les champs dont le flag est absent sont omis, ceux sans valeur (états, identifiant
+// utilisateur...) sont laissés à zéro
+export function encodeFrame(spec: CharacteristicSpec, content: FrameContent): DataView {
+  const present = spec.filter((field) => field.flag === undefined || (content.flags & field.flag) !== 0);
+  const view = new DataView(new ArrayBuffer(1 + present.reduce((size, field) => size + FIELD_SIZES[field.type], 0)));
+  view.setUint8(0, content.flags);
+
+  let cursor = 1;
+  for (const field of present) {
+    if (field.type === 'datetime') {
+      if (field.role === 'timestamp' && content.timestamp) writeDateTime(view, cursor, content.timestamp);
+    } else if (field.role === 'sequence') {
+      writeNumber(view, cursor, field, content.sequenceNumber ?? 0, content.flags);
+    } else if (field.key && content.values[field.key] !== undefined) {
+      writeNumber(view, cursor, field, content.values[field.key]!, content.flags);
+    }
+    cursor += FIELD_SIZES[field.type];
+  }
+
+  return view;
+}
@@ -0,0 +1,372 @@
+// Implémentation simulée de navigator.bluetooth (développement uniquement)
+//
+// Remplace l'API Web Bluetooth par des appareils fictifs conformes à bluetooth.d.ts : useBluetooth,
+// configureNotifications et l'interface du médecin fonctionnent sans matériel ni navigateur compatible.
+// Les appareils envoient des trames réelles (encodées d'après config.ts) selon le scénario choisi
+// dans le panneau de développement (components/bluetooth/MockBluetoothPanel.tsx).
+
+import deviceType from '../config';
+import { encodeFrame } from './frames';
+import { getScenarioValues, MOCK_DEVICE_PROFILES, type MockDeviceProfile, type MockScenario } from './scenarios';
+
+const STORAGE_KEY = 'mockBluetooth';
+
+// Délais simulés (ms)
+const CHOOSER_DELAY = 300; // sélection de l'appareil par l'utilisateur
+const CONNECT_DELAY = 200;
+const LINK_LOSS_DELAY = 3000; // scénario « déconnexion » : perte de connexion après une mesure...
+const OUT_OF_RANGE_DURATION = 8000; // ... et appareil injoignable pendant cette durée
+const RECORD_INTERVAL = 50; // entre deux enregistrements renvoyés via le RACP
+
+// Mesures déjà enregistrées dans la mémoire du glucomètre simulé
+const STORED_GLUCOSE_RECORDS = 5;
+const STORED_RECORD_SPACING = 4 * 3600 * 1000;
+
+const notFound = (what: string) => Promise.reject(new DOMException(`${what} introuvable`, 'NotFoundError'));
+
+const toDataView = (value: BufferSource) =>
+  ArrayBuffer.isView(value)
+    ? new DataView(value.buffer, value.byteOffset, value.byteLength)
+    : new DataView(value);
+
+class MockCharacteristic extends EventTarget implements BluetoothRemoteGATTCharacteristic {
+  value?: DataView;
+  notifying = false;
+
+  constructor(
+    public uuid: string,
+    private read: () => DataView = () => new DataView(new ArrayBuffer(0)),
+    private write: (value: DataView) => void = () => {}
+  ) {
+    super();
+  }
+
+  async startNotifications() {
+    this.notifying = true;
+    return this;
+  }
+
+  async stopNotifications() {
+    this.notifying = false;
+    return this;
+  }
+
+  async readValue() {
+    this.value = this.read();
+    return this.value;
+  }
+
+  async writeValue(value: BufferSource) {
+    this.write(toDataView(value));
+  }
+
+  // Envoie une trame aux abonnés, comme une notification ou une indication
+  notify(value: DataView) {
+    if (!this.notifying) return;
+    this.value = value;
+    this.dispatchEvent(new Event('characteristicvaluechanged'));
+  }
+}
+
+class MockService implements BluetoothRemoteGATTService {
+  constructor(public uuid: string, private characteristics: Map<string, MockCharacteristic>) {}
+
+  getCharacteristic(characteristic: BluetoothCharacteristicUUID) {
+    const found = this.characteristics.get(String(characteristic));
+    return found ? Promise.resolve(found) : notFound(`Characteristic ${characteristic}`);
+  }
+}
+
+class MockGATTServer implements BluetoothRemoteGATTServer {
+  connected = false;
+
+  constructor(public device: MockDevice) {}
+
+  async connect() {
+    await new Promise((resolve) => setTimeout(resolve, CONNECT_DELAY));
+    if (!this.device.inRange) {
+      throw new DOMException('Connexion GATT impossible : appareil hors de portée', 'NetworkError');
+    }
+    if (!this.connected) {
+      this.connected = true;
+      this.device.start();
+    }
+    return this;
+  }
+
+  disconnect() {
+    if (!this.connected) return;
+    this.connected = false;
+    this.device.stop();
+    this.device.dispatchEvent(new Event('gattserverdisconnected'));
+  }
+
+  getPrimaryService(service: BluetoothServiceUUID) {
+    if (!this.connected) return Promise.reject(new DOMException('Appareil déconnecté', 'NetworkError'));
+    const found = this.device.services.get(String(service));
+    return found ? Promise.resolve(found) : notFound(`Service ${service}`);
+  }
+
+  async getPrimaryServices(service?: BluetoothServiceUUID) {
+    const services = [...this.device.services.values()];
+    return service === undefined ? services : services.filter((found) => found.uuid === String(service));
+  }
+}
+
+class MockDevice extends EventTarget implements BluetoothDevice {
+  id: string;
+  name: string;
+  gatt: MockGATTServer;
+  services = new Map<string, MockService>();
+  inRange = true;
+
+  private characteristics = new Map<string, MockCharacteristic>();
+  private battery: MockCharacteristic;
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private batteryLevel = 100;
+  private storedRecords: { sequenceNumber: number; timestamp: Date; value: number }[] = [];
+
+  constructor(
+    private profile: MockDeviceProfile,
+    private getScenario: () => MockScenario,
+    private onForget: () => void
+  ) {
+    super();
+    this.id = `mock-${profile.service}`;
+    this.name = profile.name;
+    this.gatt = new MockGATTServer(this);
+
+    // Service mesuré : les characteristics décrites dans config.ts
+    for (const characteristic of Object.keys(deviceType[profile.service])) {
+      this.characteristics.set(characteristic, new MockCharacteristic(characteristic));
+    }
+
+    // Glucomètre : mémoire de mesures et Record Access Control Point
+    if (profile.service === 'glucose') {
+      const now = Date.now();
+      for (let index = 0; index < STORED_GLUCOSE_RECORDS; index++) {
+        this.storeRecord(new Date(now - (STORED_GLUCOSE_RECORDS - index) * STORED_RECORD_SPACING));
+      }
+      this.characteristics.set(
+        'record_access_control_point',
+        new MockCharacteristic('record_access_control_point', undefined, (value) => this.handleRecordAccess(value))
+      );
+    }
+    this.services.set(profile.service, new MockService(profile.service, this.characteristics));
+
+    // Niveau de batterie, en baisse à chaque mesure
+    this.battery = new MockCharacteristic('battery_level', () => new DataView(new Uint8Array([this.batteryLevel]).buffer));
+    this.services.set('battery_service', new MockService('battery_service', new Map([['battery_level', this.battery]])));
+  }
+
+  // Comme dans le navigateur, un appareil oublié sera un nouvel objet s'il est de nouveau choisi
+  async forget() {
+    this.gatt.disconnect();
+    this.onForget();
+  }
+
+  // Début de la connexion : première mesure peu après, puis à intervalle régulier
+  start() {
+    this.schedule(() => this.measure(), 1000);
+  }
+
+  stop() {
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+  }
+
+  private schedule(action: () => void, delay: number) {
+    this.timers.push(setTimeout(action, delay));
+  }
+
+  private storeRecord(timestamp: Date) {
+    const record = {
+      sequenceNumber: this.storedRecords.length + 1,
+      timestamp,
+      value: getScenarioValues(this.getScenario()).blood_glucose ?? 0,
+    };
+    this.storedRecords.push(record);
+    return record;
+  }
+
+  private glucoseFrame(record: { sequenceNumber: number; timestamp: Date; value: number }) {
+    return encodeFrame(deviceType.glucose.glucose_measurement, {
+      flags: this.profile.characteristics.glucose_measurement,
+      values: { blood_glucose: record.value },
+      timestamp: record.timestamp,
+      sequenceNumber: record.sequenceNumber,
+    });
+  }
+
+  // Envoie une mesure sur chaque characteristic suivie, selon le scénario en cours
+  private measure() {
+    const scenario = this.getScenario();
+    const values = getScenarioValues(scenario);
+
+    for (const [name, flags] of Object.entries(this.profile.characteristics)) {
+      const characteristic = this.characteristics.get(name)!;
+      characteristic.notify(
+        name === 'glucose_measurement'
+          ? this.glucoseFrame(this.storeRecord(new Date()))
+          : encodeFrame(deviceType[this.profile.service][name], { flags, values, timestamp: new Date() })
+      );
+    }
+
+    this.batteryLevel = Math.max(5, this.batteryLevel - 1);
+    this.battery.notify(new DataView(new Uint8Array([this.batteryLevel]).buffer));
+
+    if (scenario === 'disconnect') {
+      this.schedule(() => this.loseLink(), LINK_LOSS_DELAY);
+    } else {
+      this.schedule(() => this.measure(), this.profile.interval);
+    }
+  }
+
+  // Scénario « déconnexion » : l'appareil sort de portée puis redevient joignable
+  private loseLink() {
+    console.log(`[MockBluetooth] 📴 ${this.name} hors de portée`);
+    this.inRange = false;
+    this.gatt.disconnect();
+    setTimeout(() => {
+      console.log(`[MockBluetooth] 📶 ${this.name} de nouveau joignable`);
+      this.inRange = true;
+    }, OUT_OF_RANGE_DURATION);
+  }
+
+  // RACP : [0x01, 0x01] renvoie tous les enregistrements, [0x01, 0x03, 0x01, n] ceux à partir du numéro n
+  private handleRecordAccess(command: DataView) {
+    const racp = this.characteristics.get('record_access_control_point')!;
+    const respond = (code: number) => racp.notify(new DataView(new Uint8Array([0x06, 0x00, command.getUint8(0), code]).buffer));
+
+    if (command.getUint8(0) !== 0x01) {
+      respond(0x02); // opcode non pris en charge
+      return;
+    }
+
+    const operator = command.getUint8(1);
+    const fromSequence = operator === 0x03 && command.byteLength >= 5 ? command.getUint16(3, true) : 0;
+    if (operator !== 0x01 && operator !== 0x03) {
+      respond(0x04); // opérateur non pris en charge
+      return;
+    }
+
+    const records = this.storedRecords.filter((record) => record.sequenceNumber >= fromSequence);
+    if (records.length === 0) {
+      respond(0x06); // aucun enregistrement
+      return;
+    }
+
+    const measurement = this.characteristics.get('glucose_measurement')!;
+    records.forEach((record, index) =>
+      this.schedule(() => measurement.notify(this.glucoseFrame(record)), (index + 1) * RECORD_INTERVAL)
+    );
+    this.schedule(() => respond(0x01), (records.length + 1) * RECORD_INTERVAL);
+  }
+}
+
+export class MockBluetooth {
+  private static installed = false;
+  private static scenario: MockScenario = 'normal';
+  private static nextDevice: string | null = null; // Service de l'appareil renvoyé par requestDevice
+  private static devices = new Map<string, MockDevice>(); // Un appareil par service, conservé comme par le navigateur
+
+  private static bluetooth: Bluetooth = {
+    requestDevice: (options) => MockBluetooth.requestDevice(options),
+    getDevices: async () => [...MockBluetooth.devices.values()],
+  };
+
+  /**
+   * Remplace navigator.bluetooth par les appareils simulés
+   */
+  static install() {
+    Object.defineProperty(navigator, 'bluetooth', { value: MockBluetooth.bluetooth, configurable: true });
+    MockBluetooth.installed = true;
+    MockBluetooth.save();
+    console.log('[MockBluetooth] 🧪 Appareils simulés activés');
+  }
+
+  /**
+   * Rétablit l'API du navigateur et déconnecte les appareils simulés
+   */
+  static uninstall() {
+    for (const device of MockBluetooth.devices.values()) {
+      device.gatt.disconnect();
+    }
+    MockBluetooth.devices.clear();
+    Reflect.deleteProperty(navigator, 'bluetooth');
+    MockBluetooth.installed = false;
+    MockBluetooth.save();
+    console.log('[MockBluetooth] Appareils simulés désactivés');
+  }
+
+  static isInstalled() {
+    return MockBluetooth.installed;
+  }
+
+  static getScenario() {
+    return MockBluetooth.scenario;
+  }
+
+  // Le scénario s'applique dès la mesure suivante des appareils connectés
+  static setScenario(scenario: MockScenario) {
+    MockBluetooth.scenario = scenario;
+    MockBluetooth.save();
+  }
+
+  static getNextDevice() {
+    return MockBluetooth.nextDevice;
+  }
+
+  // Appareil « choisi » lors de la prochaine connexion (null : le premier compatible non connecté)
+  static setNextDevice(service: string | null) {
+    MockBluetooth.nextDevice = service;
+  }
+
+  /**
+   * Réactive les appareils simulés si c'était le cas lors de la session précédente
+   */
+  static restore() {
+    try {
+      const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+      if (saved?.scenario) MockBluetooth.scenario = saved.scenario;
+      if (saved?.enabled) MockBluetooth.install();
+    } catch {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+
+  private static save() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ enabled: MockBluetooth.installed, scenario: MockBluetooth.scenario }));
+  }
+
+  private static getDevice(profile: MockDeviceProfile) {
+    let device = MockBluetooth.devices.get(profile.service);
+    if (!device) {
+      device = new MockDevice(
+        profile,
+        () => MockBluetooth.scenario,
+        () => MockBluetooth.devices.delete(profile.service)
+      );
+      MockBluetooth.devices.set(profile.service, device);
+    }
+    return device;
+  }
+
+  private static async requestDevice(options: RequestDeviceOptions): Promise<BluetoothDevice> {
+    await new Promise((resolve) => setTimeout(resolve, CHOOSER_DELAY));
+
+    const compatible = MOCK_DEVICE_PROFILES.filter(
+      (profile) =>
+        options.acceptAllDevices ||
+        options.filters?.some((filter) => filter.services?.map(String).includes(profile.service))
+    );
+    const profile =
+      compatible.find((candidate) => candidate.service === MockBluetooth.nextDevice) ??
+      compatible.find((candidate) => !MockBluetooth.devices.get(candidate.service)?.gatt.connected);
+
+    if (!profile) {
+      throw new DOMException('Aucun appareil simulé disponible', 'NotFoundError');
+    }
+    return MockBluetooth.getDevice(profile);
+  }
+}
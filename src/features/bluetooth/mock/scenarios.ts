@@ -0,0 +1,108 @@
+// Appareils simulés et scénarios de mesures
+//
+// Chaque scénario fixe les valeurs de référence des grandeurs mesurées ; une légère variation
+// aléatoire est ajoutée à chaque trame pour obtenir des séries réalistes.
+
+import type { MeasurementKey } from '@/features/room/rtc/peer';
+
+export type MockScenario = 'normal' | 'hypertensive' | 'fever' | 'disconnect';
+
+export const MOCK_SCENARIO_LABELS: Record<MockScenario, string> = {
+  normal: 'Constantes normales',
+  hypertensive: 'Hypertension',
+  fever: 'Fièvre',
+  disconnect: 'Déconnexion / reconnexion',
+};
+
+// Unités des valeurs : celles des flags des profils ci-dessous (mmHg, °C, kg, mg/dL)
+const NORMAL_VALUES: Partial<Record<MeasurementKey, number>> = {
+  systolic: 118,
+  diastolic: 76,
+  pulse_rate: 68,
+  body_temperature: 36.8,
+  oxygen_saturation: 97,
+  perfusion_index: 4.2,
+  body_weight: 72.4,
+  bmi: 23.1,
+  body_height: 1.77,
+  blood_glucose: 95,
+};
+
+const SCENARIO_VALUES: Record<MockScenario, Partial<Record<MeasurementKey, number>>> = {
+  normal: NORMAL_VALUES,
+  hypertensive: { ...NORMAL_VALUES, systolic: 168, diastolic: 104, pulse_rate: 86 },
+  fever: { ...NORMAL_VALUES, body_temperature: 39.4, pulse_rate: 104, oxygen_saturation: 95, perfusion_index: 2.1 },
+  disconnect: NORMAL_VALUES, // valeurs normales, mais l'appareil perd la connexion après chaque mesure
+};
+
+// Amplitude de la variation aléatoire autour de la valeur de référence
+const JITTER: Partial<Record<MeasurementKey, number>> = {
+  systolic: 4,
+  diastolic: 3,
+  pulse_rate: 3,
+  body_temperature: 0.2,
+  oxygen_saturation: 1,
+  perfusion_index: 0.4,
+  body_weight: 0.2,
+  blood_glucose: 6,
+};
+
+// Grandeurs que les appareils réels mesurent en valeurs entières
+const INTEGER_KEYS: MeasurementKey[] = ['systolic', 'diastolic', 'pulse_rate', 'oxygen_saturation', 'blood_glucose'];
+
+// Valeurs d'une mesure du scénario, avec leur variation (entières ou à une décimale)
+export function getScenarioValues(scenario: MockScenario): Partial<Record<MeasurementKey, number>> {
+  return Object.fromEntries(
+    Object.entries(SCENARIO_VALUES[scenario]).map(([key, value]) => {
+      const jitter = JITTER[key as MeasurementKey];
+      if (jitter === undefined) return [key, value];
+
+      const jittered = value + (Math.random() * 2 - 1) * jitter;
+      return [key, INTEGER_KEYS.includes(key as MeasurementKey) ? Math.round(jittered) : Math.round(jittered * 10) / 10];
+    })
+  );
+}
+
+// Appareil simulé : un par service de deviceType, avec les flags des trames de chaque characteristic
+export interface MockDeviceProfile {
+  service: string;
+  name: string;
+  characteristics: Record<string, number>; // characteristic => flags des trames envoyées
+  interval: number; // ms entre deux mesures
+}
+
+export const MOCK_DEVICE_PROFILES: MockDeviceProfile[] = [
+  {
+    service: 'blood_pressure',
+    name: 'Tensiomètre simulé',
+    characteristics: { blood_pressure_measurement: 0b00000110 }, // mmHg, horodatage, pouls
+    interval: 10000,
+  },
+  {
+    service: 'health_thermometer',
+    name: 'Thermomètre simulé',
+    characteristics: { temperature_measurement: 0b00000010 }, // °C, horodatage
+    interval: 10000,
+  },
+  {
+    service: 'pulse_oximeter',
+    name: 'Oxymètre simulé',
+    characteristics: {
+      plx_spot_check_measurement: 0b00001001, // horodatage, indice de perfusion
+      plx_continuous_measurement: 0b00010000, // indice de perfusion
+    },
+    interval: 6000,
+  },
+  {
+    service: 'weight_scale',
+    name: 'Pèse-personne simulé',
+    characteristics: { weight_measurement: 0b00001010 }, // kg, horodatage, IMC et taille
+    interval: 15000,
+  },
+  {
+    service: 'glucose',
+    name: 'Glucomètre simulé',
+    characteristics: { glucose_measurement: 0b00000010 }, // concentration en kg/L
+    interval: 20000,
+  },
+];
@@ -1,17 +1,33 @@
-export const readSfloat16 = (dataView: DataView, offset: number): number => {
+// mantisse × 10^exposant ; une division pour les exposants négatifs évite les erreurs d'arrondi (367 / 10 = 36.7)
+const applyExponent = (mantissa: number, exponent: number): number =>
+  exponent < 0 ? mantissa / Math.pow(10, -exponent) : mantissa * Math.pow(10, exponent);
+
+// Valeurs spéciales SFLOAT (NaN, NRes, ±INFINI, réservée) : envoyées par exemple par un oxymètre sans doigt détecté
+const SFLOAT_SPECIAL_VALUES = [0x07FF, 0x0800, 0x07FE, 0x0802, 0x0801];
+
+// Valeurs spéciales FLOAT (mêmes valeurs, mantisse sur 24 bits et exposant nul)
+const FLOAT_SPECIAL_VALUES = [0x007FFFFF, 0x00800000, 0x007FFFFE, 0x00800002, 0x00800001];
+
+// SFLOAT multiplié par 10^power sans erreur d'arrondi (glycémie en kg/L => mg/dL : power = 5)
+export const readSfloat16Scaled = (dataView: DataView, offset: number, power: number): number => {
   const raw = dataView.getUint16(offset, true); // lecture sur 2 octets (little endian)
+  if (SFLOAT_SPECIAL_VALUES.includes(raw)) return NaN;
   let mantissa = raw & 0x0FFF;
   let exponent = raw >> 12;
 
   if (mantissa >= 0x0800) mantissa -= 0x1000;
   if (exponent >= 0x0008) exponent -= 0x10;
 
-  return mantissa * Math.pow(10, exponent);
+  return applyExponent(mantissa, exponent + power);
 };
 
+export const readSfloat16 = (dataView: DataView, offset: number): number =>
+  readSfloat16Scaled(dataView, offset, 0);
 
-export function readIEEE11073Float(dataView: DataView, offset: number): number {
+
+export function readIEEE11073FloatScaled(dataView: DataView, offset: number, power: number): number {
   const raw = dataView.getUint32(offset, true); // lecture en little-endian
+  if (FLOAT_SPECIAL_VALUES.includes(raw)) return NaN;
 
   let mantissa = raw & 0x00FFFFFF; // bits 0 à 23
   let exponent = raw >> 24;          // bits 24 à 31
@@ -26,12 +42,18 @@ export function readIEEE11073Float(dataView: DataView, offset: number): number {
     exponent -= 0x100;
   }
 
-  return mantissa * Math.pow(10, exponent);
+  return applyExponent(mantissa, exponent + power);
 }
 
+export const readIEEE11073Float = (dataView: DataView, offset: number): number =>
+  readIEEE11073FloatScaled(dataView, offset, 0);
+
 
+// Une année à 0 signifie « inconnue » (horloge de l'appareil non réglée) : la date retournée est alors invalide
 export function readDateTime(dataView: DataView, offset: number): Date {
   const year = dataView.getUint16(offset, true); // 2 octets, little endian
+  if (year === 0) return new Date(NaN);
+
   const month = dataView.getUint8(offset + 2) - 1; // mois: 1-12 => JS: 0-11
   const day = dataView.getUint8(offset + 3);
   const hour = dataView.getUint8(offset + 4);
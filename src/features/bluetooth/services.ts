@@ -1,79 +1,159 @@
 // services.ts
 import deviceType, { type DeviceType } from './config';
+import { decodeFrame, type DecodedFrame } from './decoder';
+import type { Measurement } from '@/features/room/rtc/peer';
 
 type AddOrUpdateCardFn = (
   device: BluetoothDevice,
   server: BluetoothRemoteGATTServer,
   service: string,
-  results: { name: string; data: string | number }[]
+  measurements: Measurement[]
 ) => void;
 
 type SetStatusFn = (text: string) => void;
 
-// Configure les notifications pour un service donné (blood_pressure, health_thermometer, etc.)
+// Configure les notifications pour un service donné (blood_pressure, health_thermometer, pulse_oximeter, etc.)
 export async function configureNotifications(
   serviceKey: Extract<keyof DeviceType, string>,
   device: BluetoothDevice,
   server: BluetoothRemoteGATTServer,
   addOrUpdateCard: AddOrUpdateCardFn,
-  setStatus: SetStatusFn
+  setStatus: SetStatusFn,
+  signal: AbortSignal // Retire les écouteurs à la fin de la connexion (pas de doublon après une reconnexion)
 ) {
   const service = await server.getPrimaryService(serviceKey);
   const charsConfig = deviceType[serviceKey];
 
   // Pour chaque characteristic déclarée dans config.ts
-  for (const [charKey, cfg] of Object.entries(charsConfig)) {
-    const characteristic = await service.getCharacteristic(charKey);
+  let subscribed = 0;
+  for (const [charKey, spec] of Object.entries(charsConfig)) {
+    // Certaines characteristics sont optionnelles (un oxymètre peut n'exposer que la mesure ponctuelle ou continue)
+    let characteristic: BluetoothRemoteGATTCharacteristic;
+    try {
+      characteristic = await service.getCharacteristic(charKey);
+    } catch {
+      continue;
+    }
     await characteristic.startNotifications();
+    subscribed++;
 
     characteristic.addEventListener('characteristicvaluechanged', event => {
       const val = (event.target as BluetoothRemoteGATTCharacteristic).value!; //BluetoothRemoteGATTCharacteristic représente une “caractéristique” GATT distante (un point de lecture/écriture ou de notification) sur le périphérique Bluetooth.
-      const flags = val.getUint8(0);
-      const results: { name: string; data: string | number }[] = [];
-
-      // Champs fixes (SFLOAT à offset défini)
-      for (const [, def] of Object.entries(cfg)) {
-        if (def && typeof def === 'object' && 'value' in def) {
-          const raw = (cfg.decoder as any)(val, def.value);
-          results.push({ name: def.name, data: raw.toFixed(1) });
-        }
-      }
-
-      // Calcul du curseur juste après le plus grand offset fixe
-      const fixedOffsets = Object.values(cfg)
-        .filter((d: any) => d && typeof d === 'object' && 'value' in d)
-        .map((d: any) => d.value + 2);
-      let cursor = fixedOffsets.length ? Math.max(...fixedOffsets) : 1;
-
-      // Champs conditionnels (flags + offset)
-      for (const [, def] of Object.entries(cfg)) {
-        if (def && typeof def === 'object' && 'data' in def && typeof def.data === 'number') {
-          if ((flags & def.data) !== 0) {
-            const off = (def as any).offset ?? cursor;
-            const raw = (cfg.decoder as any)(val, off);
-            results.push({ name: def.name, data: raw.toFixed(1) });
-            cursor = off + 2;
-          }
-        }
-      }
-
-      //Champs personnalisés avec leur propre decoder
-      for (const [, def] of Object.entries(cfg)) {
-        if (def && typeof def === 'object' && 'decoder' in def && typeof def.decoder === 'function') {
-          const off = def.offset ?? cursor;
-          const raw = def.decoder(val, off);
-          const data = raw instanceof Date ? raw.toLocaleString() : raw;
-          results.push({ name: def.name, data });
-          cursor = off + 7; // date format Bluetooth = 7 octets
-        }
+      let frame: DecodedFrame;
+      try {
+        frame = decodeFrame(spec, val);
+      } catch (error) {
+        console.warn(`[Bluetooth] ⚠️ Trame ${charKey} ignorée :`, error);
+        return;
       }
 
+      // Sans date valide fournie par l'appareil, les valeurs sont horodatées à la réception
+      const timestamp = frame.timestamp ?? Date.now();
+      // Les valeurs non disponibles (SFLOAT NaN...) ne sont pas transmises
+      const measurements: Measurement[] = frame.values.filter((result) => Number.isFinite(result.value)).map((result) => ({
+        ...result,
+        timestamp,
+        deviceId: device.id,
+        deviceName: device.name,
+        service: serviceKey,
+        ...(frame.sequenceNumber !== undefined && { sequenceNumber: frame.sequenceNumber }),
+      }));
 
       // Mise à jour de l’UI
-      addOrUpdateCard(device, server, serviceKey, results);
+      addOrUpdateCard(device, server, serviceKey, measurements);
       setStatus(`Mesures reçues pour ${serviceKey} à ${new Date().toLocaleString()}`);
-    });
+    }, { signal });
+  }
+
+  if (subscribed === 0) {
+    throw new Error(`Aucune characteristic compatible pour ${serviceKey}`);
   }
 
   setStatus(`En attente des mesures sur ${serviceKey}…`);
 }
+
+// Lit le niveau de batterie (service 0x180F, en %) et suit ses variations quand l'appareil les notifie,
+// jusqu'à l'annulation de signal ; résout undefined si l'appareil n'expose pas ce service
+export async function watchBatteryLevel(
+  server: BluetoothRemoteGATTServer,
+  onChange: (level: number) => void,
+  signal: AbortSignal
+): Promise<number | undefined> {
+  try {
+    const service = await server.getPrimaryService('battery_service');
+    const characteristic = await service.getCharacteristic('battery_level');
+
+    try {
+      await characteristic.startNotifications();
+      characteristic.addEventListener('characteristicvaluechanged', event => {
+        onChange((event.target as BluetoothRemoteGATTCharacteristic).value!.getUint8(0));
+      }, { signal });
+    } catch {
+      // Notifications facultatives : seule la lecture initiale est disponible
+    }
+
+    return (await characteristic.readValue()).getUint8(0);
+  } catch {
+    return undefined;
+  }
+}
+
+// Record Access Control Point (0x2A52) : opcodes, opérateurs et codes de réponse utilisés
+const RACP_REPORT_STORED_RECORDS = 0x01;
+const RACP_RESPONSE_CODE = 0x06;
+const RACP_OPERATOR_ALL = 0x01;
+const RACP_OPERATOR_GREATER_OR_EQUAL = 0x03;
+const RACP_FILTER_SEQUENCE_NUMBER = 0x01;
+const RACP_SUCCESS = 0x01;
+const RACP_NO_RECORDS_FOUND = 0x06;
+const RACP_TIMEOUT = 60000; // ms, le transfert d'une mémoire pleine peut être long
+
+// Services dont les mesures enregistrées dans l'appareil peuvent être récupérées
+export const RECORD_ACCESS_SERVICES: string[] = ['glucose'];
+
+// Demande à l'appareil de renvoyer ses mesures enregistrées (toutes, ou à partir d'un numéro de séquence).
+// Les enregistrements arrivent par les notifications activées par configureNotifications ;
+// résout true une fois le transfert terminé, false si l'appareil n'a aucune mesure à envoyer.
+export async function requestStoredRecords(
+  serviceKey: string,
+  server: BluetoothRemoteGATTServer,
+  fromSequence?: number
+): Promise<boolean> {
+  const service = await server.getPrimaryService(serviceKey);
+  const racp = await service.getCharacteristic('record_access_control_point');
+  await racp.startNotifications(); // réponses envoyées par indication
+
+  const command = fromSequence === undefined
+    ? new Uint8Array([RACP_REPORT_STORED_RECORDS, RACP_OPERATOR_ALL])
+    : new Uint8Array([
+        RACP_REPORT_STORED_RECORDS,
+        RACP_OPERATOR_GREATER_OR_EQUAL,
+        RACP_FILTER_SEQUENCE_NUMBER,
+        fromSequence & 0xFF,
+        (fromSequence >> 8) & 0xFF,
+      ]);
+
+  return new Promise((resolve, reject) => {
+    const onResponse = (event: Event) => {
+      const value = (event.target as BluetoothRemoteGATTCharacteristic).value!;
+      // Réponse : [0x06, opérateur nul, opcode de la requête, code]
+      if (value.getUint8(0) !== RACP_RESPONSE_CODE || value.getUint8(2) !== RACP_REPORT_STORED_RECORDS) return;
+
+      const code = value.getUint8(3);
+      if (code === RACP_SUCCESS) finish(null, true);
+      else if (code === RACP_NO_RECORDS_FOUND) finish(null, false);
+      else finish(new Error(`Requête refusée par l'appareil (code ${code})`));
+    };
+
+    const finish = (error: Error | null, hasRecords = false) => {
+      clearTimeout(timer);
+      racp.removeEventListener('characteristicvaluechanged', onResponse);
+      if (error) reject(error);
+      else resolve(hasRecords);
+    };
+
+    const timer = setTimeout(() => finish(new Error("Pas de réponse de l'appareil")), RACP_TIMEOUT);
+    racp.addEventListener('characteristicvaluechanged', onResponse);
+    racp.writeValue(command).catch(finish);
+  });
+}
@@ -0,0 +1,136 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockBluetooth } from './mock/mockBluetooth';
+import { useBluetooth } from './useBluetooth';
+
+// Appareil simulé, pour le rendre injoignable comme le ferait le scénario « déconnexion »
+type MockDevice = BluetoothDevice & { inRange: boolean };
+
+const thermometer = async () =>
+  (await navigator.bluetooth.getDevices!()).find((device) => device.id === 'mock-health_thermometer') as MockDevice;
+
+// Fait avancer les délais simulés (sélection, connexion, mesures) et les promesses qui en dépendent
+const advance = (ms: number) => act(() => vi.advanceTimersByTimeAsync(ms));
+
+// Sélection d'un appareil : la connexion aboutit une fois la sélection et la connexion simulées écoulées
+const selectDevice = (connect: () => Promise<void>) =>
+  act(async () => {
+    const connecting = connect();
+    await vi.advanceTimersByTimeAsync(1000);
+    await connecting;
+  });
+
+describe('useBluetooth avec les appareils simulés', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(Math, 'random').mockReturnValue(0.5); // valeurs de référence du scénario
+    MockBluetooth.install();
+    MockBluetooth.setScenario('normal');
+    MockBluetooth.setNextDevice('health_thermometer');
+  });
+
+  afterEach(() => {
+    MockBluetooth.uninstall();
+    MockBluetooth.setNextDevice(null);
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  const connectThermometer = async (onMeasurement = vi.fn()) => {
+    const hook = renderHook(() => useBluetooth({ onMeasurement }));
+    await selectDevice(hook.result.current.connect);
+    return hook;
+  };
+
+  it('connecte l\'appareil choisi et transmet ses mesures décodées', async () => {
+    const onMeasurement = vi.fn();
+    const { result, unmount } = await connectThermometer(onMeasurement);
+
+    expect(result.current.devices).toMatchObject([{ id: 'mock-health_thermometer', state: 'connected', services: ['health_thermometer'] }]);
+
+    await advance(1000);
+    expect(onMeasurement).toHaveBeenCalledWith({
+      measurements: [expect.objectContaining({ key: 'body_temperature', value: 36.8, unit: 'Cel' })],
+    });
+
+    unmount();
+  });
+
+  it('se reconnecte avec un délai croissant tant que l\'appareil est hors de portée', async () => {
+    const { result, unmount } = await connectThermometer();
+    const device = await thermometer();
+    const connectSpy = vi.spyOn(device.gatt!, 'connect');
+
+    device.inRange = false;
+    act(() => device.gatt!.disconnect());
+    expect(result.current.devices[0].state).toBe('reconnecting');
+
+    // Tentatives à 1 s, puis 2 s et 4 s après chaque échec (200 ms de connexion simulée)
+    await advance(1200);
+    expect(connectSpy).toHaveBeenCalledTimes(1);
+    await advance(2200);
+    expect(connectSpy).toHaveBeenCalledTimes(2);
+    expect(result.current.devices[0].state).toBe('reconnecting');
+
+    device.inRange = true;
+    await advance(4200);
+    expect(connectSpy).toHaveBeenCalledTimes(3);
+    expect(result.current.devices[0].state).toBe('connected');
+
+    unmount();
+  });
+
+  it('déclare l\'appareil en échec une fois les tentatives épuisées', async () => {
+    const { result, unmount } = await connectThermometer();
+    const device = await thermometer();
+
+    device.inRange = false;
+    act(() => device.gatt!.disconnect());
+    await advance(120000);
+
+    expect(result.current.devices[0].state).toBe('failed');
+    expect(result.current.devices[0].status).toContain('6 tentatives');
+
+    unmount();
+  });
+
+  it('ne relance pas de reconnexion après une déconnexion par le patient', async () => {
+    const { result, unmount } = await connectThermometer();
+    const device = await thermometer();
+    const connectSpy = vi.spyOn(device.gatt!, 'connect');
+
+    act(() => result.current.disconnectDevice(device.id));
+    await advance(60000);
+
+    expect(result.current.devices[0].state).toBe('disconnected');
+    expect(connectSpy).not.toHaveBeenCalled();
+
+    unmount();
+  });
+
+  it('ne garde qu\'une chaîne de reconnexion pour un appareil oublié puis choisi de nouveau', async () => {
+    const { result, unmount } = await connectThermometer();
+    const device = await thermometer();
+    // Comme certains navigateurs, le même objet est renvoyé lors de la nouvelle sélection
+    vi.spyOn(navigator.bluetooth, 'requestDevice').mockResolvedValue(device);
+    vi.spyOn(device, 'forget').mockResolvedValue(undefined);
+
+    await act(() => result.current.forgetDevice(device.id));
+    await selectDevice(result.current.connect);
+    expect(result.current.devices).toHaveLength(1);
+
+    const connectSpy = vi.spyOn(device.gatt!, 'connect');
+    device.inRange = false;
+    act(() => device.gatt!.disconnect());
+    expect(result.current.devices[0].status).toContain('tentative 1/6');
+
+    // Une seule tentative à 1 s, la suivante n'arrive que 2 s après son échec
+    await advance(2200);
+    expect(connectSpy).toHaveBeenCalledTimes(1);
+
+    unmount();
+  });
+});
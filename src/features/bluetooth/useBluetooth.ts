@@ -1,123 +1,101 @@
 import React, { useState, useRef, useEffect } from 'react';
 import deviceType from './config';
-import { configureNotifications } from './services';
+import { configureNotifications, requestStoredRecords, watchBatteryLevel } from './services';
+import type { Measurement, MeasurementPayload } from '@/features/room/rtc/peer';
 
 interface ConnectedCard {
   device: BluetoothDevice;
   server: BluetoothRemoteGATTServer;
   service: string;
   deviceName: string;
-  measurements: { name: string; data: string | number }[];
+  measurements: Measurement[];
+}
+
+// État de la connexion d'un appareil :
+// connecting -> connected (ou failed si la connexion échoue)
+// connected -> reconnecting après une perte de connexion, puis connected ou failed une fois les tentatives épuisées
+// disconnected : déconnecté par le patient ; failed et disconnected n'évoluent plus sans action du patient
+export type DeviceConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'failed' | 'disconnected';
+
+// Appareil suivi par le gestionnaire (un patient peut en connecter plusieurs : thermomètre, tensiomètre...)
+export interface ManagedDevice {
+  id: string;
+  name: string;
+  state: DeviceConnectionState;
+  status: string; // Dernier message d'état de l'appareil
+  services: string[]; // Services compatibles auxquels l'appareil est abonné
+  batteryLevel?: number; // En %, si l'appareil expose le service batterie
 }
 
 type UseBluetoothOptions = {
-  onMeasurement?: (payload: object) => void; // callback à appeler quand une mesure est lue
+  onMeasurement?: (payload: MeasurementPayload) => void; // callback à appeler quand une mesure est lue
 };
 
+// Services Bluetooth compatibles définis dans le fichier config
+const supportedServices = Object.keys(deviceType) as Array<Extract<keyof typeof deviceType, string>>;
+
+// Reconnexion automatique : délai doublé à chaque échec, plafonné, et nombre de tentatives limité
+const RECONNECT_BASE_DELAY = 1000; // ms avant la première tentative
+const RECONNECT_MAX_DELAY = 30000; // ms au plus entre deux tentatives
+const RECONNECT_MAX_ATTEMPTS = 6;
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
 export function useBluetooth({ onMeasurement }: UseBluetoothOptions = {}) {
-  // État de connexion Bluetooth
+  // État de connexion Bluetooth (dernier message, tous appareils confondus)
   const [status, setStatus] = useState('En attente...');
+  const [devices, setDevices] = useState<ManagedDevice[]>([]); // Appareils suivis et leur état
   const [connectedCards, setConnectedCards] = useState<ConnectedCard[]>([]); // Liste des cartes connectées et leurs mesures
-  const deviceRef = useRef<BluetoothDevice | null>(null); // Référence à l’appareil connecté
-
-  // Services Bluetooth compatibles définis dans le fichier config
-  const supportedServices = Object.keys(deviceType) as Array<Extract<keyof typeof deviceType, string>>;
-
-  const connect = React.useCallback(async () => {
-    try {
-      // Prépare les filtres pour ne chercher que les services supportés
-      const filters = supportedServices.map((svc) => ({ services: [svc] }));
-      const device = await navigator.bluetooth.requestDevice({
-        filters,
-        optionalServices: supportedServices,
-      });
+  const devicesRef = useRef(new Map<string, BluetoothDevice>()); // Appareils suivis, par ID
+  // Suivi de chaque appareil, de sa sélection à son oubli : l'annuler retire l'écouteur des pertes de connexion
+  const trackingRef = useRef(new Map<string, AbortController>());
+  // Session de connexion en cours, par appareil : tant qu'elle existe, une perte de connexion déclenche la
+  // reconnexion automatique ; l'annuler retire les écouteurs des notifications et interrompt les tentatives
+  const sessionsRef = useRef(new Map<string, AbortController>());
+  const reconnectTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>()); // Prochaine tentative, par appareil
+  const reconnectAttemptsRef = useRef(new Map<string, number>()); // Tentatives depuis la dernière connexion réussie
+  const lastSequenceRef = useRef<Record<string, number>>({}); // Dernier numéro d'enregistrement reçu, par appareil
+  const downloadedUpToRef = useRef<Record<string, number>>({}); // Mémoire déjà récupérée jusqu'à ce numéro, par appareil
 
-      setStatus(`Connexion à ${device.name}...`);
-      deviceRef.current = device;
-
-      // Connexion GATT à l’appareil
-      const server = await device.gatt?.connect();
-      setStatus('Connecté !');
-
-      // Écoute les déconnexions pour tenter une reconnexion automatique
-      device.addEventListener('gattserverdisconnected', () => reconnectDevice(device));
-
-      if (!server) throw new Error('Impossible d’obtenir le GATT server');
-
-      // Pour chaque service compatible, essaye de l’activer
-      for (const serviceKey of supportedServices) {
-        try {
-          await server.getPrimaryService(serviceKey); // test si le service est disponible
-          await configureNotifications(
-            serviceKey,
-            device,
-            server,
-            (dev, srv, svc, measures) => addOrUpdateCard(dev, srv, svc, measures, onMeasurement),
-            setStatus
-          );
-          return; // Dès qu'un service marche, on arrête de chercher
-        } catch {}
-      }
+  // Toujours appeler le dernier callback fourni (le canal WebRTC peut changer après la connexion d'un appareil)
+  const onMeasurementRef = useRef(onMeasurement);
+  useEffect(() => {
+    onMeasurementRef.current = onMeasurement;
+  }, [onMeasurement]);
 
-      setStatus('Aucun service compatible trouvé.');
-    } catch (err: any) {
-      console.error(err);
-      setStatus('Erreur de connexion : ' + err.message);
-    }
+  const updateDevice = React.useCallback((id: string, changes: Partial<ManagedDevice>) => {
+    setDevices((prev) => prev.map((managed) => (managed.id === id ? { ...managed, ...changes } : managed)));
   }, []);
 
-  // Fonction appelée en cas de déconnexion : tente une reconnexion automatique
-  const reconnectDevice = async (device: BluetoothDevice) => {
-    setStatus('Tentative de reconnexion…');
-    try {
-      const server = await device.gatt!.connect();
-      setStatus('Reconnecté !');
-
-      for (const serviceKey of supportedServices) {
-        try {
-          await server.getPrimaryService(serviceKey);
-          await configureNotifications(
-            serviceKey,
-            device,
-            server,
-            (dev, srv, svc, measures) => addOrUpdateCard(dev, srv, svc, measures, onMeasurement),
-            setStatus
-          );
-          return;
-        } catch {}
-      }
+  // Met à jour l'état d'un appareil et le reprend dans l'état général
+  const setDeviceStatus = React.useCallback((device: BluetoothDevice, text: string, changes: Partial<ManagedDevice> = {}) => {
+    updateDevice(device.id, { ...changes, status: text });
+    setStatus(`${device.name || 'Appareil'} : ${text}`);
+  }, [updateDevice]);
 
-      setStatus('Aucun service compatible trouvé.');
-    } catch {
-      setTimeout(() => reconnectDevice(device), 5000);
-    }
-  };
-
-  // Stocke ou met à jour une carde, et envoie au docteur via WebRTC si dispo
-  const addOrUpdateCard = (
+  // Stocke ou met à jour une carte (une par appareil et par service), et envoie au docteur via WebRTC si dispo
+  const addOrUpdateCard = React.useCallback((
     device: BluetoothDevice,
     server: BluetoothRemoteGATTServer,
     service: string,
-    measurements: { name: string; data: string | number }[],
-    sendMeasurement?: (payload: object) => void
+    measurements: Measurement[]
   ) => {
-    // Transforme les mesures en un objet clé/valeur
-    const payload = {
-      [service]: measurements.reduce((acc, m) => {
-        acc[m.name] = m.data;
-        return acc;
-      }, {} as Record<string, string | number>)
-    };
-      console.log('[Patient] Mesure prête à être envoyée via WebRTC :', payload);
+    const payload: MeasurementPayload = { measurements };
+    console.log('[Patient] Mesure prête à être envoyée via WebRTC :', payload);
 
-    // Envoie la mesure si un callback est fourni
-    if (sendMeasurement) {
-      sendMeasurement(payload); // envoie la mesure via WebRTC
+    // Mémorise le dernier enregistrement reçu (en direct ou depuis la mémoire de l'appareil)
+    for (const { sequenceNumber } of measurements) {
+      if (sequenceNumber !== undefined && sequenceNumber > (lastSequenceRef.current[device.id] ?? -1)) {
+        lastSequenceRef.current[device.id] = sequenceNumber;
+      }
     }
 
+    // Envoie la mesure via WebRTC
+    onMeasurementRef.current?.(payload);
+
     // Met à jour la carte dans l’état React
     setConnectedCards((prev) => {
-      const index = prev.findIndex((card) => card.service === service);
+      const index = prev.findIndex((card) => card.device.id === device.id && card.service === service);
       const updatedCard: ConnectedCard = {
         device,
         server,
@@ -132,12 +110,228 @@ export function useBluetooth({ onMeasurement }: UseBluetoothOptions = {}) {
       }
       return [...prev, updatedCard];
     });
+  }, []);
 
+  // Ferme la session d'un appareil (déconnexion par le patient, oubli, fin de consultation, échec) :
+  // annule la tentative en cours et la suivante, retire les écouteurs et coupe la connexion GATT
+  const closeSession = React.useCallback((device: BluetoothDevice) => {
+    sessionsRef.current.get(device.id)?.abort();
+    sessionsRef.current.delete(device.id); // avant disconnect() : la déconnexion ne doit pas relancer de reconnexion
+    clearTimeout(reconnectTimersRef.current.get(device.id));
+    reconnectTimersRef.current.delete(device.id);
+    reconnectAttemptsRef.current.delete(device.id);
+    device.gatt?.disconnect();
+  }, []);
 
-  };
+  // Connexion GATT et abonnement à chaque service compatible exposé par l'appareil ; les écouteurs sont
+  // liés au signal de la tentative, si bien qu'une reconnexion n'en laisse jamais deux sur une characteristic
+  const setupDevice = React.useCallback(async (device: BluetoothDevice, signal: AbortSignal) => {
+    const server = await device.gatt?.connect();
+    if (!server) throw new Error('Impossible d’obtenir le GATT server');
+
+    // Session fermée pendant la connexion : l'appareil ne doit pas rester connecté
+    if (signal.aborted) {
+      if (!sessionsRef.current.has(device.id)) server.disconnect();
+      throw new Error('Connexion annulée');
+    }
+
+    const services: string[] = [];
+    for (const serviceKey of supportedServices) {
+      try {
+        await configureNotifications(serviceKey, device, server, addOrUpdateCard, (text) => setDeviceStatus(device, text), signal);
+        services.push(serviceKey);
+      } catch {} // service absent de cet appareil
+    }
+
+    if (services.length === 0) {
+      throw new Error('Aucun service compatible trouvé.');
+    }
+
+    const batteryLevel = await watchBatteryLevel(server, (level) => updateDevice(device.id, { batteryLevel: level }), signal);
+    updateDevice(device.id, { services, batteryLevel });
+  }, [addOrUpdateCard, setDeviceStatus, updateDevice]);
+
+  // Programme la tentative de reconnexion suivante après une perte de connexion ou un échec,
+  // ou déclare l'appareil en échec une fois les tentatives épuisées
+  const scheduleReconnect = React.useCallback((device: BluetoothDevice) => {
+    // Les écouteurs de la connexion perdue sont retirés : la tentative en ajoutera de nouveaux
+    sessionsRef.current.get(device.id)?.abort();
+    const controller = new AbortController();
+    sessionsRef.current.set(device.id, controller);
+
+    const attempt = (reconnectAttemptsRef.current.get(device.id) ?? 0) + 1;
+    if (attempt > RECONNECT_MAX_ATTEMPTS) {
+      closeSession(device);
+      setDeviceStatus(device, `Reconnexion impossible après ${RECONNECT_MAX_ATTEMPTS} tentatives`, { state: 'failed' });
+      return;
+    }
+    reconnectAttemptsRef.current.set(device.id, attempt);
+
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** (attempt - 1), RECONNECT_MAX_DELAY);
+    console.log(`[Bluetooth] 🔄 ${device.name || device.id} : tentative ${attempt}/${RECONNECT_MAX_ATTEMPTS} dans ${delay}ms`);
+    setDeviceStatus(device, `Connexion perdue, tentative ${attempt}/${RECONNECT_MAX_ATTEMPTS} dans ${delay / 1000} s…`, {
+      state: 'reconnecting',
+    });
+
+    reconnectTimersRef.current.set(device.id, setTimeout(async () => {
+      reconnectTimersRef.current.delete(device.id);
+      setDeviceStatus(device, `Tentative de reconnexion ${attempt}/${RECONNECT_MAX_ATTEMPTS}…`);
+      try {
+        await setupDevice(device, controller.signal);
+        if (controller.signal.aborted) return;
+        reconnectAttemptsRef.current.delete(device.id);
+        setDeviceStatus(device, 'Reconnecté !', { state: 'connected' });
+      } catch (err) {
+        // Tentative annulée : la session a été fermée ou une nouvelle perte de connexion a déjà été prise en charge
+        if (controller.signal.aborted) return;
+        console.warn(`[Bluetooth] ⚠️ Reconnexion de ${device.name || device.id} échouée :`, err);
+        scheduleReconnect(device);
+      }
+    }, delay));
+  }, [closeSession, setDeviceStatus, setupDevice]);
+
+  // Ajoute l'appareil à la liste suivie (une seule fois, même s'il est sélectionné de nouveau)
+  const trackDevice = React.useCallback((device: BluetoothDevice) => {
+    if (devicesRef.current.has(device.id)) return;
+
+    devicesRef.current.set(device.id, device);
+    setDevices((prev) => [
+      ...prev,
+      { id: device.id, name: device.name || 'Inconnu', state: 'connecting', status: '', services: [] },
+    ]);
+
+    // Écoute les pertes de connexion pour tenter une reconnexion automatique ; une déconnexion voulue
+    // (patient, oubli, fin de consultation) a déjà fermé la session et n'en déclenche pas
+    const tracking = new AbortController();
+    trackingRef.current.set(device.id, tracking);
+    device.addEventListener('gattserverdisconnected', () => {
+      if (sessionsRef.current.has(device.id)) scheduleReconnect(device);
+    }, { signal: tracking.signal });
+  }, [scheduleReconnect]);
+
+  const connectDevice = React.useCallback(async (device: BluetoothDevice) => {
+    if (sessionsRef.current.has(device.id)) {
+      setDeviceStatus(device, 'Déjà connecté');
+      return;
+    }
+
+    const controller = new AbortController();
+    sessionsRef.current.set(device.id, controller);
+    setDeviceStatus(device, 'Connexion…', { state: 'connecting' });
+    try {
+      await setupDevice(device, controller.signal);
+      if (controller.signal.aborted) return;
+      setDeviceStatus(device, 'Connecté !', { state: 'connected' });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error(err);
+      closeSession(device);
+      setDeviceStatus(device, 'Erreur de connexion : ' + errorMessage(err), { state: 'failed' });
+    }
+  }, [closeSession, setDeviceStatus, setupDevice]);
 
-  
+  // Demande au patient de choisir un appareil et l'ajoute à ceux déjà connectés
+  const connect = React.useCallback(async () => {
+    let device: BluetoothDevice;
+    try {
+      // Prépare les filtres pour ne chercher que les services supportés
+      const filters = supportedServices.map((svc) => ({ services: [svc] }));
+      device = await navigator.bluetooth.requestDevice({
+        filters,
+        optionalServices: [...supportedServices, 'battery_service'],
+      });
+    } catch (err) {
+      console.error(err);
+      setStatus('Erreur de connexion : ' + errorMessage(err));
+      return;
+    }
 
-  // Retourne les infos de connexion + les cardes + la fonction de connexion
-  return { status, connectedCards, connect };
+    trackDevice(device);
+    await connectDevice(device);
+  }, [trackDevice, connectDevice]);
+
+  // Reconnecte un appareil déconnecté par le patient ou en échec
+  const reconnectDevice = React.useCallback(async (id: string) => {
+    const device = devicesRef.current.get(id);
+    if (device) await connectDevice(device);
+  }, [connectDevice]);
+
+  // Déconnecte un appareil, qui reste dans la liste pour être reconnecté
+  const disconnectDevice = React.useCallback((id: string) => {
+    const device = devicesRef.current.get(id);
+    if (!device) return;
+
+    closeSession(device);
+    setDeviceStatus(device, 'Déconnecté', { state: 'disconnected' });
+  }, [closeSession, setDeviceStatus]);
+
+  // Déconnecte un appareil et le retire de la liste, avec ses cartes ; le navigateur révoque aussi son accès
+  const forgetDevice = React.useCallback(async (id: string) => {
+    const device = devicesRef.current.get(id);
+    if (!device) return;
+
+    closeSession(device);
+    trackingRef.current.get(id)?.abort();
+    trackingRef.current.delete(id);
+    devicesRef.current.delete(id);
+    delete lastSequenceRef.current[id];
+    delete downloadedUpToRef.current[id];
+
+    setDevices((prev) => prev.filter((managed) => managed.id !== id));
+    setConnectedCards((prev) => prev.filter((card) => card.device.id !== id));
+    setStatus(`${device.name || 'Appareil'} : oublié`);
+
+    try {
+      await device.forget();
+    } catch {} // forget() n'est pas disponible dans tous les navigateurs
+  }, [closeSession]);
+
+  // Quitter la consultation (la carte est démontée à la fermeture de la salle) déconnecte tous les appareils
+  // et annule les reconnexions en attente
+  useEffect(() => {
+    const tracked = devicesRef.current;
+    const tracking = trackingRef.current;
+    return () => {
+      for (const device of tracked.values()) closeSession(device);
+      for (const controller of tracking.values()) controller.abort();
+      tracking.clear();
+    };
+  }, [closeSession]);
+
+  // Récupère les mesures enregistrées dans l'appareil (glucomètre) : toute la mémoire la première fois,
+  // puis celles qui suivent la précédente récupération ; elles passent par addOrUpdateCard et sont envoyées
+  // au médecin comme les mesures en direct (qui ignore celles qu'il a déjà reçues)
+  const downloadStoredRecords = React.useCallback(async (deviceId: string, service: string) => {
+    const card = connectedCards.find((connected) => connected.device.id === deviceId && connected.service === service);
+    if (!card) return;
+
+    const downloadedUpTo = downloadedUpToRef.current[deviceId];
+    setDeviceStatus(card.device, 'Récupération des mesures enregistrées…');
+    try {
+      const hasRecords = await requestStoredRecords(
+        service,
+        card.server,
+        downloadedUpTo !== undefined && downloadedUpTo < 0xFFFF ? downloadedUpTo + 1 : undefined
+      );
+      if (lastSequenceRef.current[deviceId] !== undefined) {
+        downloadedUpToRef.current[deviceId] = lastSequenceRef.current[deviceId];
+      }
+      setDeviceStatus(card.device, hasRecords ? 'Mesures enregistrées récupérées.' : 'Aucune nouvelle mesure enregistrée.');
+    } catch (err) {
+      console.error(err);
+      setDeviceStatus(card.device, 'Erreur lors de la récupération des mesures : ' + errorMessage(err));
+    }
+  }, [connectedCards, setDeviceStatus]);
+
+  // Retourne les infos de connexion, les appareils, les cartes et les actions sur les appareils
+  return {
+    status,
+    devices,
+    connectedCards,
+    connect,
+    reconnectDevice,
+    disconnectDevice,
+    forgetDevice,
+    downloadStoredRecords,
+  };
 }
@@ -1,44 +1,98 @@
-import { useState, useEffect } from "react";
+import { useCallback, useMemo } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { v4 as uuidv4 } from "uuid";
+import { RootState } from "@/app/store";
+import { Measurement, MeasurementPayload } from "@/features/room/rtc/peer";
+import {
+  MeasurementReading,
+  readingAdded,
+  readingAnnotated,
+  seriesCleared,
+} from "./measurementHistorySlice";
 
 type DoctorServices = {
-  [serviceName: string]: Record<string, string | number>; // précision du type si possible
+  [serviceName: string]: Measurement[]; // dernière mesure de chaque service
 };
 
+// Aucun historique pour la salle : référence stable pour éviter des rendus inutiles
+const EMPTY_HISTORY: Record<string, MeasurementReading[]> = {};
+
 // Hook principal utilisé pour recevoir et stocker les mesures
 export function useDoctorData() {
-  // État principal contenant toutes les mesures organisées par service
-  const [doctorServices, setDoctorServices] = useState<object>({});
-  // État temporaire utilisé pour stocker une nouvelle mesure reçue avant traitement
-  const [newData, setNewData] = useState<object | null>(null);
+  const dispatch = useDispatch();
+  const roomId = useSelector((state: RootState) => state.room.roomId);
+
+  // Série horodatée des mesures reçues, par service (conservée dans le store pour la salle)
+  const history = useSelector(
+    (state: RootState) =>
+      (roomId && state.measurementHistory.historyByRoom[roomId]) || EMPTY_HISTORY
+  );
+
+  // Dernière mesure de chaque service, affichée dans les ServiceCard
+  const doctorServices = useMemo<DoctorServices>(
+    () =>
+      Object.fromEntries(
+        Object.entries(history)
+          .filter(([, series]) => series.length > 0)
+          .map(([service, series]) => [service, series[series.length - 1].measurements])
+      ),
+    [history]
+  );
 
   // Fonction appelée automatiquement par le système WebRTC quand une mesure arrive
-  const receiveData = (rawDataReceived: any) => {
-    console.log("[Médecin] Payload reçu :", rawDataReceived);
-    setNewData(rawDataReceived); // on stocke directement le payload brut reçu (déjà filtré en amont)
-  };
+  const receiveData = useCallback(
+    (payload: MeasurementPayload) => {
+      console.log("[Médecin] Payload reçu :", payload);
+      if (!roomId) return;
 
-  // Fonction qui extrait le service (clé) et les mesures à partir du payload
-  const processNewData = (currentData: object) => {
-    const service = Object.keys(currentData)[0]; // ex: 'blood_pressure'
-    const measures = (currentData as any)[service]; // ex: { systolique: 120, ... }
+      // Regrouper les valeurs par service (un appareil envoie normalement un seul service à la fois)
+      const byService: Record<string, Measurement[]> = {};
+      for (const measurement of payload.measurements) {
+        (byService[measurement.service] ??= []).push(measurement);
+      }
 
-    // On ajoute ou remplace les mesures pour ce service dans le state principal
-    setDoctorServices((prev) => ({
-      ...prev,
-      [service]: measures,
-    }));
-  };
+      // On ajoute la mesure à la série du service, sans écraser les précédentes
+      for (const [service, measurements] of Object.entries(byService)) {
+        dispatch(
+          readingAdded({
+            roomId,
+            service,
+            reading: {
+              // Un enregistrement récupéré plusieurs fois dans la mémoire de l'appareil n'est ajouté qu'une fois
+              id: measurements[0].sequenceNumber !== undefined
+                ? `${measurements[0].deviceId}-${measurements[0].sequenceNumber}`
+                : uuidv4(),
+              timestamp: Math.max(...measurements.map((measurement) => measurement.timestamp)),
+              measurements,
+            },
+          })
+        );
+      }
+    },
+    [dispatch, roomId]
+  );
+
+  // Vider la série d'un service
+  const clearHistory = useCallback(
+    (service: string) => {
+      if (roomId) dispatch(seriesCleared({ roomId, service }));
+    },
+    [dispatch, roomId]
+  );
 
-  // À chaque fois que newData est mis à jour, on le traite immédiatement
-  useEffect(() => {
-    if (newData) {
-      processNewData(newData);
-      setNewData(null);
-    }
-  }, [newData]);
+  // Annoter une mesure (une note vide retire l'annotation)
+  const annotateReading = useCallback(
+    (service: string, id: string, note: string) => {
+      if (roomId) dispatch(readingAnnotated({ roomId, service, id, note }));
+    },
+    [dispatch, roomId]
+  );
 
   return {
     doctorServices, //les mesures prêtes à être affichées
-    receiveData,
-  }; //la fonction à passer à onMeasurement()
+    history, // l'historique des mesures, par service
+    receiveData, //la fonction à passer à onMeasurement()
+    clearHistory,
+    annotateReading,
+  };
 }
@@ -3,15 +3,21 @@
  * 
  * This file defines the Redux slice for managing chat messaging functionality.
  * It handles storage and organization of messages by room, loading states, and error handling.
+ * Messages are deduplicated by id, and the persisted history of a room is merged in on join.
+ * It also tracks delivery receipts of own messages, who is currently typing
+ * and the files exchanged over the file channel.
  */
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import { ChatMessage } from '@/features/room/rtc/peer';
+import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { ChatMessage, ChatMessageStatus, FileTransferInfo, FileTransferStatus, Role } from '@/features/room/rtc/peer';
+import { getChatHistoryStore, isChatHistoryEnabled } from './history';
 
 /**
  * Interface defining the chat state structure
  */
 interface ChatState {
     messagesByRoom: Record<string, ChatMessage[]>; // Messages organized by room ID
+    typingByRoom: Record<string, Record<string, Role>>; // Participants currently typing (clientId -> role) by room ID
+    transfersByRoom: Record<string, FileTransferInfo[]>; // Files sent and received, by room ID
     isLoading: boolean; // Loading state indicator
     error: string | null; // Error message if any
 }
@@ -21,10 +27,38 @@ interface ChatState {
  */
 const initialState: ChatState = {
     messagesByRoom: {},
+    typingByRoom: {},
+    transfersByRoom: {},
     isLoading: false,
     error: null
 };
 
+/**
+ * Loads the persisted history of a room (see features/chat/history), if the user opted in
+ */
+export const loadChatHistory = createAsyncThunk(
+    'chat/loadHistory',
+    async (roomId: string) => ({
+        roomId,
+        messages: isChatHistoryEnabled() ? await getChatHistoryStore().load(roomId) : []
+    })
+);
+
+/**
+ * Adds messages to a room, skipping ids already present, and keeps the room sorted by time
+ */
+function mergeMessages(state: ChatState, roomId: string, messages: ChatMessage[]) {
+    const existing = state.messagesByRoom[roomId] ?? [];
+    const knownIds = new Set(existing.map(message => message.id));
+    const added = messages.filter(message => !knownIds.has(message.id));
+    if (added.length === 0) return;
+
+    state.messagesByRoom[roomId] = [...existing, ...added].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// Receipts only move a message forward: a late chat_ack must not hide a chat_read
+const STATUS_ORDER: ChatMessageStatus[] = ['pending', 'sent', 'delivered', 'read'];
+
 /**
  * Chat slice containing reducers to manage chat messages
  */
@@ -34,14 +68,68 @@ const chatSlice = createSlice({
     reducers: {
         /**
          * Handles a new message received for a specific room
-         * Creates the room's message array if it doesn't exist
+         * Creates the room's message array if it doesn't exist; a message already known (same id) is ignored
          */
         messageReceived: (state, action: PayloadAction<{ roomId: string, message: ChatMessage }>) => {
             const { roomId, message } = action.payload;
-            if (!state.messagesByRoom[roomId]) {
-                state.messagesByRoom[roomId] = [];
+            mergeMessages(state, roomId, [message]);
+        },
+        /**
+         * Updates the delivery status of own messages (outbox flush, chat_ack, chat_read)
+         */
+        messageStatusUpdated: (state, action: PayloadAction<{ roomId: string, ids: string[], status: ChatMessageStatus }>) => {
+            const { roomId, ids, status } = action.payload;
+            const targetIds = new Set(ids);
+
+            for (const message of state.messagesByRoom[roomId] ?? []) {
+                if (!targetIds.has(message.id)) continue;
+                if (STATUS_ORDER.indexOf(status) > STATUS_ORDER.indexOf(message.status ?? 'sent')) {
+                    message.status = status;
+                }
             }
-            state.messagesByRoom[roomId].push(message);
+        },
+        /**
+         * Records that a participant started or stopped typing
+         */
+        typingChanged: (state, action: PayloadAction<{ roomId: string, sender: string, senderRole: Role, isTyping: boolean }>) => {
+            const { roomId, sender, senderRole, isTyping } = action.payload;
+            const typing = state.typingByRoom[roomId] ?? {};
+
+            if (isTyping) {
+                typing[sender] = senderRole;
+            } else {
+                delete typing[sender];
+            }
+            state.typingByRoom[roomId] = typing;
+        },
+        /**
+         * Registers a file transfer with one remote client
+         * In a mesh, the same outgoing file is registered once per recipient
+         */
+        fileTransferStarted: (state, action: PayloadAction<{ roomId: string, transfer: Omit<FileTransferInfo, 'links'>, peer: string }>) => {
+            const { roomId, transfer, peer } = action.payload;
+            const transfers = state.transfersByRoom[roomId] ?? [];
+            let existing = transfers.find(t => t.id === transfer.id);
+
+            if (!existing) {
+                existing = { ...transfer, links: {} };
+                transfers.push(existing);
+            } else if (!existing.url && transfer.url) {
+                existing.url = transfer.url;
+            }
+            existing.links[peer] ??= { transferredBytes: 0, status: 'pending' };
+            state.transfersByRoom[roomId] = transfers;
+        },
+        /**
+         * Updates the progress of a file transfer with one remote client
+         */
+        fileTransferProgressed: (state, action: PayloadAction<{ roomId: string, id: string, peer: string, transferredBytes: number, status: FileTransferStatus, url?: string }>) => {
+            const { roomId, id, peer, transferredBytes, status, url } = action.payload;
+            const transfer = state.transfersByRoom[roomId]?.find(t => t.id === id);
+            if (!transfer) return;
+
+            transfer.links[peer] = { transferredBytes, status };
+            if (url) transfer.url = url;
         },
         /**
          * Clears all messages for a specific room
@@ -49,12 +137,16 @@ const chatSlice = createSlice({
         clearMessages: (state, action: PayloadAction<string>) => {
             const roomId = action.payload;
             state.messagesByRoom[roomId] = [];
+            delete state.typingByRoom[roomId];
+            delete state.transfersByRoom[roomId];
         },
         /**
          * Clears all messages across all rooms
          */
         clearAllMessages: (state) => {
             state.messagesByRoom = {};
+            state.typingByRoom = {};
+            state.transfersByRoom = {};
         },
         /**
          * Sets an error message
@@ -68,8 +160,22 @@ const chatSlice = createSlice({
         clearError: (state) => {
             state.error = null;
         }
+    },
+    extraReducers: (builder) => {
+        builder
+            .addCase(loadChatHistory.pending, (state) => {
+                state.isLoading = true;
+            })
+            .addCase(loadChatHistory.fulfilled, (state, action) => {
+                state.isLoading = false;
+                mergeMessages(state, action.payload.roomId, action.payload.messages);
+            })
+            .addCase(loadChatHistory.rejected, (state, action) => {
+                state.isLoading = false;
+                state.error = action.error.message ?? 'Failed to load chat history';
+            });
     }
 });
 
-export const { messageReceived, clearMessages, clearAllMessages, setError, clearError } = chatSlice.actions;
+export const { messageReceived, messageStatusUpdated, typingChanged, fileTransferStarted, fileTransferProgressed, clearMessages, clearAllMessages, setError, clearError } = chatSlice.actions;
 export default chatSlice.reducer;
\ No newline at end of file
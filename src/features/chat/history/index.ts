@@ -0,0 +1,62 @@
+/**
+ * Chat History Module Entry Point
+ *
+ * Exports the store contract, the available adapters and the store used by
+ * the application (Supabase by default, replaceable with setChatHistoryStore).
+ *
+ * History is opt-in: the chat is encrypted end-to-end on the data channel, but
+ * the stored messages are readable by the server (see the threat model in
+ * e2e-session.ts). Each participant chooses, on this device, whether their own
+ * messages are kept; nothing is saved nor loaded until they do.
+ */
+import type { ChatHistoryStore } from './types';
+import { SupabaseChatHistoryStore } from './supabase-history';
+
+export type { ChatHistoryStore } from './types';
+export { SupabaseChatHistoryStore } from './supabase-history';
+export { MemoryChatHistoryStore } from './memory-history';
+
+let chatHistoryStore: ChatHistoryStore = new SupabaseChatHistoryStore();
+
+const HISTORY_OPT_IN_KEY = 'chatHistoryEnabled';
+
+/**
+ * Returns the store used to persist and load chat messages
+ */
+export function getChatHistoryStore(): ChatHistoryStore {
+    return chatHistoryStore;
+}
+
+/**
+ * Whether the user agreed to keep their chat messages on the server
+ */
+export function isChatHistoryEnabled(): boolean {
+    try {
+        return localStorage.getItem(HISTORY_OPT_IN_KEY) === 'true';
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Records the choice of the user; messages sent before opting in are not saved afterwards
+ */
+export function setChatHistoryEnabled(enabled: boolean) {
+    try {
+        if (enabled) {
+            localStorage.setItem(HISTORY_OPT_IN_KEY, 'true');
+        } else {
+            localStorage.removeItem(HISTORY_OPT_IN_KEY);
+        }
+    } catch (err) {
+        console.error('[ChatHistory] Could not save the history preference:', err);
+    }
+}
+
+/**
+ * Replaces the chat history store (e.g. in-memory store for local development)
+ */
+export function setChatHistoryStore(store: ChatHistoryStore) {
+    console.log(`[ChatHistory] Using ${store.name} chat history store`);
+    chatHistoryStore = store;
+}
@@ -0,0 +1,28 @@
+/**
+ * In-Memory Chat History Store
+ *
+ * Keeps the history in the current page only. Useful for local development
+ * without a database and for scripted scenarios.
+ */
+import type { ChatMessage } from '@/features/room/rtc/peer';
+import type { ChatHistoryStore } from './types';
+
+export class MemoryChatHistoryStore implements ChatHistoryStore {
+    readonly name = 'memory';
+    private messagesByRoom: Map<string, Map<string, ChatMessage>> = new Map();
+
+    async load(roomId: string): Promise<ChatMessage[]> {
+        const messages = this.messagesByRoom.get(roomId);
+        return messages ? Array.from(messages.values()).sort((a, b) => a.timestamp - b.timestamp) : [];
+    }
+
+    async save(roomId: string, message: ChatMessage): Promise<void> {
+        if (!this.messagesByRoom.has(roomId)) {
+            this.messagesByRoom.set(roomId, new Map());
+        }
+        const messages = this.messagesByRoom.get(roomId)!;
+        if (!messages.has(message.id)) {
+            messages.set(message.id, message);
+        }
+    }
+}
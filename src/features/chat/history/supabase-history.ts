@@ -0,0 +1,62 @@
+/**
+ * Supabase Chat History Store
+ *
+ * Persists chat messages in the `chat_messages` table (see supabase/migrations).
+ * Row-level security restricts reads and writes to the participants of the room.
+ * The content is stored in clear: it is only used once the user opted in (see index.ts).
+ */
+import { supabase } from '@/lib/supabaseClient';
+import type { ChatMessage, Role } from '@/features/room/rtc/peer';
+import type { ChatHistoryStore } from './types';
+
+// Define the interface to reflect the database structure
+interface ChatMessageRow {
+    id: string;
+    room_id: string;
+    sender: string;
+    sender_role: Role;
+    content: string;
+    sent_at: string;
+}
+
+export class SupabaseChatHistoryStore implements ChatHistoryStore {
+    readonly name = 'supabase';
+
+    async load(roomId: string): Promise<ChatMessage[]> {
+        const { data, error } = await supabase
+            .from('chat_messages')
+            .select('id, room_id, sender, sender_role, content, sent_at')
+            .eq('room_id', roomId)
+            .order('sent_at', { ascending: true });
+
+        if (error) {
+            console.error('[ChatHistory] Error loading chat history:', error);
+            return [];
+        }
+
+        return (data as ChatMessageRow[]).map(row => ({
+            id: row.id,
+            sender: row.sender,
+            senderRole: row.sender_role,
+            content: row.content,
+            timestamp: new Date(row.sent_at).getTime()
+        }));
+    }
+
+    async save(roomId: string, message: ChatMessage): Promise<void> {
+        const { error } = await supabase
+            .from('chat_messages')
+            .upsert({
+                id: message.id,
+                room_id: roomId,
+                sender: message.sender,
+                sender_role: message.senderRole,
+                content: message.content,
+                sent_at: new Date(message.timestamp).toISOString()
+            }, { onConflict: 'id', ignoreDuplicates: true });
+
+        if (error) {
+            console.error('[ChatHistory] Error saving chat message:', error);
+        }
+    }
+}
@@ -0,0 +1,22 @@
+/**
+ * Chat History Store Types
+ *
+ * This file defines the contract used to persist chat messages per room,
+ * so that the conversation survives page reloads and reconnections.
+ * Each adapter (Supabase table, in-memory) implements it.
+ */
+import type { ChatMessage } from '@/features/room/rtc/peer';
+
+export interface ChatHistoryStore {
+    readonly name: string;  // Human readable adapter name, used in logs
+
+    /**
+     * Loads the messages of a room, oldest first
+     */
+    load(roomId: string): Promise<ChatMessage[]>;
+
+    /**
+     * Persists a message; saving the same message id twice is a no-op
+     */
+    save(roomId: string, message: ChatMessage): Promise<void>;
+}
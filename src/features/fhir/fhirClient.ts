@@ -0,0 +1,85 @@
+/**
+ * FHIR Client
+ *
+ * Delivers the measurement Bundles: as a JSON file downloaded by the
+ * practitioner, or POSTed to the hospital's FHIR endpoint. The endpoint
+ * defaults to VITE_FHIR_ENDPOINT and can be changed from the export panel
+ * (kept in localStorage); `npm run fhir-mock` in server/ starts a local one.
+ */
+import type { Bundle } from './types';
+
+const ENDPOINT_STORAGE_KEY = 'fhirEndpoint';
+
+export interface FhirPostResult {
+    ok: boolean;
+    status: number;
+    error?: string;
+}
+
+export class FhirClient {
+    /**
+     * Returns the configured FHIR base URL, or an empty string if none
+     */
+    static getEndpoint(): string {
+        return localStorage.getItem(ENDPOINT_STORAGE_KEY) ?? import.meta.env.VITE_FHIR_ENDPOINT ?? '';
+    }
+
+    /**
+     * Remembers the FHIR base URL chosen by the practitioner (empty to restore the default)
+     */
+    static setEndpoint(endpoint: string) {
+        if (endpoint.trim()) {
+            localStorage.setItem(ENDPOINT_STORAGE_KEY, endpoint.trim());
+        } else {
+            localStorage.removeItem(ENDPOINT_STORAGE_KEY);
+        }
+    }
+
+    /**
+     * Saves the Bundle as a JSON file
+     */
+    static downloadBundle(bundle: Bundle, fileName = `observations-${bundle.timestamp.slice(0, 10)}.json`) {
+        const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' });
+        const url = URL.createObjectURL(blob);
+
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+
+        // Revoked once the browser has started the download it was given
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+    }
+
+    /**
+     * POSTs a transaction Bundle to the base URL of a FHIR server
+     */
+    static async postBundle(bundle: Bundle, endpoint: string = FhirClient.getEndpoint()): Promise<FhirPostResult> {
+        if (!endpoint) {
+            return { ok: false, status: 0, error: 'No FHIR endpoint configured' };
+        }
+
+        try {
+            const response = await fetch(endpoint, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/fhir+json',
+                    Accept: 'application/fhir+json'
+                },
+                body: JSON.stringify(bundle)
+            });
+
+            if (!response.ok) {
+                const error = await response.text();
+                console.error(`[FHIR] ❌ Bundle rejected (${response.status}):`, error);
+                return { ok: false, status: response.status, error };
+            }
+
+            console.log(`[FHIR] ✅ Bundle ${bundle.id} sent (${bundle.entry.length} entries)`);
+            return { ok: true, status: response.status };
+        } catch (error) {
+            console.error('[FHIR] ❌ Error sending bundle:', error);
+            return { ok: false, status: 0, error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+}
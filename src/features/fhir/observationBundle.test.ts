@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { createObservationBundle, isIdentifiedPatient, PATIENT_NUMBER_SYSTEM } from './observationBundle';
+import type { Measurement } from '@/features/room/rtc/peer';
+import type { MeasurementReading } from '@/features/bluetooth/measurementHistorySlice';
+import type { Observation } from './types';
+
+const measurement = (key: Measurement['key'], value: number, unit: string, service: string): Measurement => ({
+    key,
+    value,
+    unit,
+    timestamp: Date.UTC(2026, 9, 19, 8, 30),
+    deviceId: 'device',
+    service
+});
+
+const reading = (...measurements: Measurement[]): MeasurementReading => ({
+    id: measurements[0].key,
+    timestamp: measurements[0].timestamp,
+    measurements
+});
+
+const patient = { name: 'Martin', first_name: 'Léa', patient_number: 42 };
+
+describe('createObservationBundle', () => {
+    it('files blood glucose under laboratory results and the other values under vital signs', () => {
+        const bundle = createObservationBundle({
+            glucose: [reading(measurement('blood_glucose', 95, 'mg/dL', 'glucose'))],
+            health_thermometer: [reading(measurement('body_temperature', 36.7, 'Cel', 'health_thermometer'))]
+        }, patient);
+
+        const categories = bundle.entry
+            .map(entry => entry.resource)
+            .filter((resource): resource is Observation => resource.resourceType === 'Observation')
+            .map(observation => [observation.code.coding?.[0].code, observation.category?.[0].coding?.[0].code]);
+
+        expect(categories).toEqual([
+            ['2339-0', 'laboratory'],
+            ['8310-5', 'vital-signs']
+        ]);
+    });
+
+    it('creates the patient only if its number is unknown to the server and ties every Observation to it', () => {
+        const bundle = createObservationBundle({
+            pulse_oximeter: [reading(measurement('oxygen_saturation', 97, '%', 'pulse_oximeter'))]
+        }, patient);
+
+        const [patientEntry, observationEntry] = bundle.entry;
+        expect(patientEntry.request.ifNoneExist).toBe(`identifier=${PATIENT_NUMBER_SYSTEM}|42`);
+        expect((observationEntry.resource as Observation).subject.reference).toBe(patientEntry.fullUrl);
+    });
+
+    it('refuses to export for a patient without number', () => {
+        expect(isIdentifiedPatient(null)).toBe(false);
+        expect(isIdentifiedPatient({ name: 'Martin', first_name: 'Léa' })).toBe(false);
+        expect(isIdentifiedPatient(patient)).toBe(true);
+    });
+});
@@ -0,0 +1,209 @@
+/**
+ * FHIR Observation Bundle
+ *
+ * Converts the measurements received during a consultation into a FHIR R4
+ * transaction Bundle of Observations coded with LOINC, tied to the patient
+ * entered in the informations form. Systolic and diastolic pressures read
+ * together become the components of one blood pressure panel, as required by
+ * the FHIR vital signs profile; blood glucose is a laboratory result.
+ *
+ * The patient number is required: it lets the server match the patient it
+ * already knows instead of creating a new one on every export.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import type { Measurement, MeasurementKey } from '@/features/room/rtc/peer';
+import type { MeasurementReading } from '@/features/bluetooth/measurementHistorySlice';
+import type { Bundle, BundleEntry, CodeableConcept, Observation, Patient, Quantity, Reference } from './types';
+
+const LOINC_SYSTEM = 'http://loinc.org';
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+
+// Identifier system of the patient number entered in the informations form
+export const PATIENT_NUMBER_SYSTEM = 'urn:teleconsult:patient-number';
+
+const LOINC_CODES: Partial<Record<MeasurementKey, { code: string; display: string }>> = {
+    systolic: { code: '8480-6', display: 'Systolic blood pressure' },
+    diastolic: { code: '8462-4', display: 'Diastolic blood pressure' },
+    pulse_rate: { code: '8867-4', display: 'Heart rate' },
+    body_temperature: { code: '8310-5', display: 'Body temperature' },
+    oxygen_saturation: { code: '59408-5', display: 'Oxygen saturation in Arterial blood by Pulse oximetry' },
+    body_weight: { code: '29463-7', display: 'Body weight' },
+    body_height: { code: '8302-2', display: 'Body height' },
+    bmi: { code: '39156-5', display: 'Body mass index (BMI) [Ratio]' },
+    blood_glucose: { code: '2339-0', display: 'Glucose [Mass/volume] in Blood' }
+};
+
+// Codes depending on the unit reported by the device (glucose meters send mg/dL or mmol/L)
+const LOINC_CODES_BY_UNIT: Partial<Record<MeasurementKey, Record<string, { code: string; display: string }>>> = {
+    blood_glucose: { 'mmol/L': { code: '15074-8', display: 'Glucose [Moles/volume] in Blood' } }
+};
+
+const getLoincCode = (measurement: Measurement) =>
+    LOINC_CODES_BY_UNIT[measurement.key]?.[measurement.unit] ?? LOINC_CODES[measurement.key];
+
+const BLOOD_PRESSURE_PANEL = { code: '85354-9', display: 'Blood pressure panel with all children optional' };
+const BLOOD_PRESSURE_KEYS: MeasurementKey[] = ['systolic', 'diastolic'];
+
+// Human readable form of the UCUM codes
+const UNIT_DISPLAY: Record<string, string> = {
+    'mm[Hg]': 'mmHg',
+    '/min': 'beats/minute',
+    Cel: 'C',
+    '[degF]': 'F',
+    '[lb_av]': 'lb',
+    '[in_i]': 'in'
+};
+
+const VITAL_SIGNS_CATEGORY: CodeableConcept = {
+    coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: 'vital-signs', display: 'Vital Signs' }]
+};
+
+const LABORATORY_CATEGORY: CodeableConcept = {
+    coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: 'laboratory', display: 'Laboratory' }]
+};
+
+// Values measured on a sample rather than on the body itself
+const LABORATORY_KEYS: MeasurementKey[] = ['blood_glucose'];
+
+/**
+ * Patient as entered in the informations form
+ */
+export interface PatientDetails {
+    name: string;
+    first_name: string;
+    birth_date?: string;        // DD/MM/YYYY (fr-FR) or YYYY-MM-DD
+    gender?: 'Homme' | 'Femme';
+    patient_number?: number;
+}
+
+/**
+ * Patient the measurements can be exported for: identified by its number
+ */
+export type IdentifiedPatient = PatientDetails & { patient_number: number };
+
+/**
+ * Tells whether the measurements can be exported for this patient
+ */
+export const isIdentifiedPatient = (patient?: PatientDetails | null): patient is IdentifiedPatient =>
+    patient?.patient_number !== undefined && patient.patient_number !== null;
+
+const loincConcept = ({ code, display }: { code: string; display: string }): CodeableConcept => ({
+    coding: [{ system: LOINC_SYSTEM, code, display }],
+    text: display
+});
+
+const toQuantity = (measurement: Measurement): Quantity => ({
+    value: measurement.value,
+    unit: UNIT_DISPLAY[measurement.unit] ?? measurement.unit,
+    system: UCUM_SYSTEM,
+    code: measurement.unit
+});
+
+// The form stores the birth date in the French format
+function toFhirDate(date: string): string | undefined {
+    const french = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(date);
+    if (french) return `${french[3]}-${french[2]}-${french[1]}`;
+    return /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : undefined;
+}
+
+/**
+ * Builds the Patient resource of the form informations
+ */
+export function toPatient(details: IdentifiedPatient): Patient {
+    return {
+        resourceType: 'Patient',
+        id: uuidv4(),
+        identifier: [{ system: PATIENT_NUMBER_SYSTEM, value: String(details.patient_number) }],
+        name: [{ family: details.name, given: [details.first_name] }],
+        gender: details.gender === 'Homme' ? 'male' : details.gender === 'Femme' ? 'female' : undefined,
+        birthDate: details.birth_date ? toFhirDate(details.birth_date) : undefined
+    };
+}
+
+/**
+ * Converts one reading into Observations: a blood pressure panel for the
+ * systolic / diastolic pair and one Observation per other coded value.
+ * Values without a LOINC code are left out.
+ */
+export function toObservations(reading: MeasurementReading, subject: Reference): Observation[] {
+    const observations: Observation[] = [];
+
+    const createObservation = (code: CodeableConcept, measurements: Measurement[]): Observation => ({
+        resourceType: 'Observation',
+        id: uuidv4(),
+        status: 'final',
+        category: [LABORATORY_KEYS.includes(measurements[0].key) ? LABORATORY_CATEGORY : VITAL_SIGNS_CATEGORY],
+        code,
+        subject,
+        effectiveDateTime: new Date(measurements[0].timestamp).toISOString(),
+        device: {
+            display: measurements[0].deviceName,
+            identifier: { value: measurements[0].deviceId }
+        },
+        note: reading.note ? [{ text: reading.note }] : undefined
+    });
+
+    const pressures = reading.measurements.filter(measurement => BLOOD_PRESSURE_KEYS.includes(measurement.key));
+    if (pressures.length > 0) {
+        observations.push({
+            ...createObservation(loincConcept(BLOOD_PRESSURE_PANEL), pressures),
+            component: pressures.map(measurement => ({
+                code: loincConcept(getLoincCode(measurement)!),
+                valueQuantity: toQuantity(measurement)
+            }))
+        });
+    }
+
+    for (const measurement of reading.measurements) {
+        const loinc = getLoincCode(measurement);
+        if (!loinc || BLOOD_PRESSURE_KEYS.includes(measurement.key)) continue;
+
+        observations.push({
+            ...createObservation(loincConcept(loinc), [measurement]),
+            valueQuantity: toQuantity(measurement)
+        });
+    }
+
+    return observations;
+}
+
+/**
+ * Builds the transaction Bundle of every reading of the consultation
+ * @param history Readings by service (see useDoctorData)
+ * @param patient Patient of the consultation; created on the server only if its number is not already there
+ */
+export function createObservationBundle(history: Record<string, MeasurementReading[]>, patient: IdentifiedPatient): Bundle {
+    const resource = toPatient(patient);
+    const fullUrl = `urn:uuid:${resource.id}`;
+    const subject: Reference = { reference: fullUrl, display: `${patient.first_name} ${patient.name}` };
+
+    const entry: BundleEntry[] = [{
+        fullUrl,
+        resource,
+        request: {
+            method: 'POST',
+            url: 'Patient',
+            ifNoneExist: `identifier=${PATIENT_NUMBER_SYSTEM}|${patient.patient_number}`
+        }
+    }];
+
+    const readings = Object.values(history).flat().sort((a, b) => a.timestamp - b.timestamp);
+    for (const reading of readings) {
+        for (const observation of toObservations(reading, subject)) {
+            entry.push({
+                fullUrl: `urn:uuid:${observation.id}`,
+                resource: observation,
+                request: { method: 'POST', url: 'Observation' }
+            });
+        }
+    }
+
+    return {
+        resourceType: 'Bundle',
+        id: uuidv4(),
+        type: 'transaction',
+        timestamp: new Date().toISOString(),
+        entry
+    };
+}
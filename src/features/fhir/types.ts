@@ -0,0 +1,76 @@
+/**
+ * FHIR R4 Types
+ *
+ * Subset of the FHIR R4 resources produced by the measurement export
+ * (see http://hl7.org/fhir/R4). Only the elements we fill are declared.
+ */
+
+export interface Coding {
+    system: string;
+    code: string;
+    display?: string;
+}
+
+export interface CodeableConcept {
+    coding: Coding[];
+    text?: string;
+}
+
+export interface Quantity {
+    value: number;
+    unit: string;
+    system: string;     // UCUM (http://unitsofmeasure.org)
+    code: string;       // UCUM code
+}
+
+export interface Reference {
+    reference?: string;
+    display?: string;
+    identifier?: { system?: string; value: string };
+}
+
+export interface Patient {
+    resourceType: 'Patient';
+    id: string;
+    identifier?: { system: string; value: string }[];
+    name?: { family: string; given: string[] }[];
+    gender?: 'male' | 'female' | 'other' | 'unknown';
+    birthDate?: string; // YYYY-MM-DD
+}
+
+export interface ObservationComponent {
+    code: CodeableConcept;
+    valueQuantity: Quantity;
+}
+
+export interface Observation {
+    resourceType: 'Observation';
+    id: string;
+    status: 'final';
+    category: CodeableConcept[];
+    code: CodeableConcept;
+    subject: Reference;
+    effectiveDateTime: string;
+    valueQuantity?: Quantity;
+    component?: ObservationComponent[];
+    device?: Reference;
+    note?: { text: string }[];
+}
+
+export interface BundleEntry {
+    fullUrl: string;
+    resource: Patient | Observation;
+    request: {
+        method: 'POST';
+        url: string;
+        ifNoneExist?: string;   // Conditional create: the patient is only created once
+    };
+}
+
+export interface Bundle {
+    resourceType: 'Bundle';
+    id: string;
+    type: 'transaction';
+    timestamp: string;
+    entry: BundleEntry[];
+}
@@ -0,0 +1,119 @@
+/**
+ * Invitation Supabase Service
+ *
+ * This file defines the service layer for one-time room invitations.
+ * The owner of a room generates an expiring invitation, shared as a link
+ * (/join/<token>) or a short code. The invitation is validated and consumed
+ * server-side by the `redeem_room_invitation` function (see supabase/migrations),
+ * which also invites the patient to the room.
+ */
+import { supabase } from '@/lib/supabaseClient';
+
+// Define the interface to reflect the database structure
+export interface Invitation {
+  id: string;
+  room_id: string;
+  token: string;
+  code: string;
+  created_by: string;
+  expires_at: string;
+  used_at: string | null;
+  used_by: string | null;
+  created_at: string;
+}
+
+export type RedeemStatus = 'ok' | 'not_found' | 'used' | 'expired' | 'not_patient' | 'throttled';
+
+export interface RedeemResult {
+  status: RedeemStatus;
+  room_id: string | null;
+}
+
+// Default validity of an invitation
+export const DEFAULT_INVITATION_VALIDITY_HOURS = 24;
+
+export class InvitationSupabase {
+  /**
+   * Creates an invitation for a room owned by the current practitioner
+   * @param validForHours How long the invitation can be used
+   * @returns The invitation (with its token and code) or null if it failed
+   */
+  static async createInvitation(roomId: string, validForHours: number = DEFAULT_INVITATION_VALIDITY_HOURS): Promise<Invitation | null> {
+    const { data, error } = await supabase
+      .from('room_invitations')
+      .insert({
+        room_id: roomId,
+        expires_at: new Date(Date.now() + validForHours * 60 * 60 * 1000).toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating invitation:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  /**
+   * Retrieves the invitations of a room that are still usable, latest first
+   */
+  static async getActiveInvitations(roomId: string): Promise<Invitation[] | null> {
+    const { data, error } = await supabase
+      .from('room_invitations')
+      .select('*')
+      .eq('room_id', roomId)
+      .is('used_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error getting invitations:', error);
+      return null;
+    }
+
+    return data as Invitation[];
+  }
+
+  /**
+   * Revokes an invitation before it is used
+   */
+  static async revokeInvitation(invitationId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('room_invitations')
+      .delete()
+      .eq('id', invitationId);
+
+    if (error) {
+      console.error('Error revoking invitation:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Redeems an invitation (link token or short code) for the current user
+   * @returns The outcome and, when accepted, the room to join; null if the request failed
+   */
+  static async redeemInvitation(tokenOrCode: string): Promise<RedeemResult | null> {
+    const { data, error } = await supabase.rpc('redeem_room_invitation', {
+      invitation: tokenOrCode.trim()
+    });
+
+    if (error) {
+      console.error('Error redeeming invitation:', error);
+      return null;
+    }
+
+    return data as RedeemResult;
+  }
+
+  /**
+   * Builds the link sent to the patient
+   */
+  static getInvitationLink(invitation: Invitation): string {
+    return `${window.location.origin}/join/${invitation.token}`;
+  }
+}
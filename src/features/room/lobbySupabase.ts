@@ -0,0 +1,170 @@
+/**
+ * Lobby Supabase Service
+ *
+ * This file defines the service layer for the consultation waiting room.
+ * Patients (or the interpreter / caregiver accompanying them) request
+ * admission to a room with their name and reason for consultation; the practitioner admits, defers or rejects each request.
+ * Only admitted patients can register a signaling key for the room
+ * (see supabase/migrations), so nobody reaches the practitioner unadmitted.
+ */
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabaseClient';
+
+export type AdmissionStatus = 'waiting' | 'admitted' | 'deferred' | 'rejected';
+
+// Roles that join through the waiting room
+export type AdmissionRole = 'patient' | 'interpreter' | 'caregiver';
+
+// Define the interface to reflect the database structure
+export interface Admission {
+  id: string;
+  room_id: string;
+  patient_id: string;
+  patient_name: string;
+  reason: string;
+  role: AdmissionRole;
+  status: AdmissionStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export class LobbySupabase {
+  // Several components may watch the same admissions: each subscription gets its own channel
+  private static subscriptionCount = 0;
+
+  /**
+   * Puts the current patient in the waiting room of a room
+   * A previous request for the same room is reset to 'waiting'
+   * @returns The admission request or null if it failed
+   */
+  static async requestAdmission(roomId: string, patientName: string, reason: string, role: AdmissionRole = 'patient'): Promise<Admission | null> {
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) {
+      console.error('Error requesting admission: no authenticated user');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('room_admissions')
+      .upsert({
+        room_id: roomId,
+        patient_id: userData.user.id,
+        patient_name: patientName,
+        reason,
+        role,
+        status: 'waiting'
+      }, { onConflict: 'room_id,patient_id' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error requesting admission:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  /**
+   * Gets an admission request by its ID
+   */
+  static async getAdmission(admissionId: string): Promise<Admission | null> {
+    const { data, error } = await supabase
+      .from('room_admissions')
+      .select('*')
+      .eq('id', admissionId)
+      .single();
+
+    if (error || !data) {
+      console.error('Error getting admission:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  /**
+   * Retrieves the requests still waiting for a decision (waiting or deferred), oldest first
+   */
+  static async getPendingAdmissions(): Promise<Admission[] | null> {
+    const { data, error } = await supabase
+      .from('room_admissions')
+      .select('*')
+      .in('status', ['waiting', 'deferred'])
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error getting pending admissions:', error);
+      return null;
+    }
+
+    return data as Admission[];
+  }
+
+  /**
+   * Retrieves the user IDs of the patients admitted in a room
+   */
+  static async getAdmittedPatientIds(roomId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('room_admissions')
+      .select('patient_id')
+      .eq('room_id', roomId)
+      .eq('status', 'admitted');
+
+    if (error) {
+      console.error('Error getting admitted patients:', error);
+      return [];
+    }
+
+    return data.map((row) => row.patient_id as string);
+  }
+
+  /**
+   * Records the practitioner's decision on a request
+   */
+  static async updateStatus(admissionId: string, status: AdmissionStatus): Promise<boolean> {
+    const { error } = await supabase
+      .from('room_admissions')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', admissionId);
+
+    if (error) {
+      console.error('Error updating admission status:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Removes a request (patient leaving the waiting room)
+   */
+  static async leaveLobby(admissionId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('room_admissions')
+      .delete()
+      .eq('id', admissionId);
+
+    if (error) {
+      console.error('Error leaving lobby:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Sets up a real-time subscription to admission changes
+   * @param callback Function to call when an admission changes
+   * @param filter Optional Postgres filter, e.g. `room_id=eq.${roomId}`
+   * @returns The subscription object
+   */
+  static subscribeToAdmissions(callback: (payload: RealtimePostgresChangesPayload<Admission>) => void, filter?: string) {
+    return supabase
+      .channel(`admissions-changes:${filter ?? 'all'}:${++LobbySupabase.subscriptionCount}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'room_admissions', filter },
+        callback)
+      .subscribe();
+  }
+}
@@ -4,6 +4,11 @@
    * This file defines the service layer for interacting with Supabase
    * to manage consultation rooms. It handles room creation, retrieval,
    * and real-time subscriptions.
+   *
+   * Rooms belong to the practitioner who created them (owner_id) and may be
+   * restricted to invited patients and expire. Row-level security (see
+   * supabase/migrations) makes every query return only the rooms the caller
+   * is allowed to see.
    */
   import { supabase } from '@/lib/supabaseClient';
   import { Role } from './rtc/peer';
@@ -12,6 +17,14 @@
   export interface Room {
     id: string;
     short_name: string;
+    owner_id?: string | null;         // Practitioner who owns the room (null for legacy shared rooms)
+    invited_patient_ids?: string[];   // Patients allowed to see the room
+    expires_at?: string | null;       // After this date, only the owner sees the room
+  }
+
+  export interface RoomOptions {
+    invitedPatientIds?: string[];
+    expiresAt?: Date | null;
   }
 
   export class RoomSupabase {
@@ -21,6 +34,9 @@
      * @returns The created room or null if creation failed
      */
 
+    /**
+     * Retrieves the rooms the current user can see (owned, invited or shared)
+     */
     static async getAllRooms(): Promise<Room[] | null> {
   try {
     const { data, error } = await supabase.from("rooms").select("*");
@@ -35,6 +51,28 @@
   }
 }
 
+/**
+ * Retrieves the rooms owned by the current practitioner
+ */
+static async getMyRooms(): Promise<Room[] | null> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) {
+    console.error("Aucun utilisateur connecté pour récupérer ses salles.");
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("rooms")
+    .select("*")
+    .eq("owner_id", userData.user.id);
+
+  if (error) {
+    console.error("Erreur lors de la récupération de mes salles :", error);
+    return null;
+  }
+  return data as Room[];
+}
+
 static async deleteRoom(id: string): Promise<boolean> {
   try {
     const { error } = await supabase.from("rooms").delete().eq("id", id);
@@ -49,7 +87,11 @@ static async deleteRoom(id: string): Promise<boolean> {
   }
 }
 
-  static async createRoom(shortName: string): Promise<Room | null> {
+  /**
+   * Creates a room owned by the current practitioner
+   * @param options Optional invited patients and expiry date
+   */
+  static async createRoom(shortName: string, options: RoomOptions = {}): Promise<Room | null> {
     if (!shortName || shortName.trim() === '') {
       console.error('Le nom de la room est requis.');
       return null;
@@ -58,7 +100,11 @@ static async deleteRoom(id: string): Promise<boolean> {
     try {
       const { data, error } = await supabase
         .from('rooms')
-        .insert({ short_name: shortName })
+        .insert({
+          short_name: shortName,
+          invited_patient_ids: options.invitedPatientIds ?? [],
+          expires_at: options.expiresAt?.toISOString() ?? null
+        })
         .select()
         .single();
 
@@ -77,17 +123,81 @@ static async deleteRoom(id: string): Promise<boolean> {
 
 
     /**
-     * Retrieves all rooms from the database
+     * Updates the patients invited to a room (owner only)
+     */
+    static async updateInvitedPatients(roomId: string, patientIds: string[]): Promise<boolean> {
+      const { error } = await supabase
+        .from('rooms')
+        .update({ invited_patient_ids: patientIds })
+        .eq('id', roomId);
+
+      if (error) {
+        console.error('Error updating invited patients:', error);
+        return false;
+      }
+
+      return true;
+    }
+
+    /**
+     * Invites a patient to a room, keeping the patients already invited
+     * The patient is appended server-side (`invite_patient`), so concurrent invitations are not lost
+     */
+    static async invitePatient(roomId: string, patientId: string): Promise<boolean> {
+      const { error } = await supabase.rpc('invite_patient', {
+        target_room: roomId,
+        patient: patientId
+      });
+
+      if (error) {
+        console.error('Error inviting patient:', error);
+        return false;
+      }
+
+      return true;
+    }
+
+    /**
+     * Sets or clears the expiry date of a room (owner only)
+     */
+    static async updateExpiry(roomId: string, expiresAt: Date | null): Promise<boolean> {
+      const { error } = await supabase
+        .from('rooms')
+        .update({ expires_at: expiresAt?.toISOString() ?? null })
+        .eq('id', roomId);
+
+      if (error) {
+        console.error('Error updating room expiry:', error);
+        return false;
+      }
+
+      return true;
+    }
+
+    /**
+     * Whether a room has expired at the given time
+     */
+    static isExpired(room: Room, now: Date = new Date()): boolean {
+      return !!room.expires_at && new Date(room.expires_at).getTime() <= now.getTime();
+    }
+
+    /**
+     * Retrieves the rooms the current user can see
      */
     static async getRooms() {
       return supabase.from('rooms').select('*');
     }
 
     /**
-     * Deletes all rooms except the default one
+     * Deletes all the rooms owned by the current practitioner
+     * Shared rooms (without owner) and other practitioners' rooms are kept
      */
     static async deleteAllRooms() {
-      return supabase.from('rooms').delete().neq('id', "2f36f4b6-aefb-11ed-afa1-0242ac120002");
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) {
+        return { data: null, error: new Error('No authenticated user') };
+      }
+      return supabase.from('rooms').delete().eq('owner_id', userData.user.id);
     }
 
     /**
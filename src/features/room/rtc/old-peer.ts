@@ -1,5 +1,6 @@
 // Simplified WebRTC peer connection implementation for basic connectivity
 
+import { v4 as uuidv4 } from 'uuid';
 import { SignalingService, SignalingMessage, UserPresence } from './signaling';
 import { store } from '@/app/store';
 import { DEFAULT_ICE_CONFIG, getLatestIceConfig } from './ice/ice-config-slice';
@@ -21,6 +22,7 @@ export interface DataChannelMessage {
 
 // Interface spécifique pour les messages de chat
 export interface ChatMessage {
+    id: string;
     sender: string;
     senderRole: Role;
     content: string;
@@ -329,6 +331,7 @@ export class PeerConnection {
                 switch (message.type) {
                     case 'chat':
                         const chatMessage: ChatMessage = {
+                            id: uuidv4(),
                             sender: message.sender,
                             senderRole: message.senderRole,
                             content: message.payload,
@@ -390,6 +393,7 @@ export class PeerConnection {
         if (success) {
             // Ajouter le message au store local aussi
             const chatMessage: ChatMessage = {
+                id: uuidv4(),
                 sender: this.clientId,
                 senderRole: this.role,
                 content,
@@ -1,11 +1,16 @@
 // Main class for WebRTC connection management
 
-import { SignalingService, SignalingMessage, UserPresence } from '../../signaling';
+import { SignalingService, SignalingChannel, SignalingMessage, UserPresence } from '../../signaling';
+import { SignalingTransport } from '../../transport';
+import { SignalingAuthenticator } from '../../security';
 import { store } from '@/app/store';
 import { getLatestIceConfig } from '../../ice/ice-config-slice';
 import { cleanupRoomState, resetParticipantsConnection } from '../../../roomSlice';
-import { Role, ChatMessage } from '../models/types';
-import { DataChannelManager } from '../data-channel/data-channel-manager';
+import { Role, ChatMessage, FileTransferProgress, E2EVerification, MeasurementPayload } from '../models/types';
+import { DataChannelManager, DataChannelLinkState } from '../data-channel/data-channel-manager';
+import { DataChannelEvents, DataChannelEventHandler, DataChannelEventType } from '../data-channel/data-channel-events';
+import { MessageOutbox, getOutboxStore } from '../data-channel/outbox';
+import { FileTransferManager } from '../data-channel/file-transfer-manager';
 import { setupPeerConnectionListeners, IPeerConnection } from '../handlers/connection-handlers';
 import { PerfectNegotiation } from '../negotiation/perfect-negotiation';
 import { StreamsByDevice } from '@/features/streams/streamSlice';
@@ -106,8 +111,11 @@ export class PeerConnection implements IPeerConnection {
     } = {};
 
     private pc: RTCPeerConnection;
-    private signaling: SignalingService;
+    private signaling: SignalingChannel;
     private dataChannelManager: DataChannelManager;
+    private outbox: MessageOutbox;
+    private fileTransfer: FileTransferManager;
+    private events: DataChannelEvents = new DataChannelEvents();
     private perfectNegotiation: PerfectNegotiation;
     private role: Role;
     private roomId: string;
@@ -124,12 +132,23 @@ export class PeerConnection implements IPeerConnection {
     // Callbacks
     private onConnectionStateChangeCallback: ((state: RTCPeerConnectionState) => void) | null = null;
     private onRoomReadyCallback: ((isReady: boolean) => void) | null = null;
-    private onChatMessageCallback: ((message: ChatMessage) => void) | null = null;
 
     // Exported constants for compatibility
     public readonly ROLE = Role;
 
-    constructor(roomId: string, clientId: string, role: Role) {
+    /**
+     * @param transport Optional signaling transport (Supabase, WebSocket, in-memory); defaults to the configured one
+     * @param authenticator Optional signaling authenticator; defaults to Supabase Auth bound keys
+     * @param signaling Optional existing signaling channel (used by PeerMesh); transport and authenticator are then ignored
+     */
+    constructor(
+        roomId: string,
+        clientId: string,
+        role: Role,
+        transport?: SignalingTransport,
+        authenticator?: SignalingAuthenticator,
+        signaling?: SignalingChannel
+    ) {
         debugLog(`[WebRTC] Creating PeerConnection with role: ${role}, roomId: ${roomId}, clientId: ${clientId}`);
         this.roomId = roomId;
         this.clientId = clientId;
@@ -146,7 +165,7 @@ export class PeerConnection implements IPeerConnection {
         this.checkTurnConfiguration(iceConfig);
 
         // Initialize signaling
-        this.signaling = new SignalingService(roomId, clientId, role);
+        this.signaling = signaling ?? new SignalingService(roomId, clientId, role, transport, authenticator);
 
         // Initialize WebRTC peer connection with the ICE configuration
         this.pc = new RTCPeerConnection(iceConfig);
@@ -154,12 +173,26 @@ export class PeerConnection implements IPeerConnection {
         this.setupStreamsAndTransceivers(this.pc);
 
 
+        // Messages queued while the data channel is down, kept across peer connection resets and page reloads.
+        // The link is keyed by the authenticated users: the client ids change when a page is reloaded
+        const remoteClientId = this.signaling.remoteClientId;
+        const outboxKey = [
+            roomId,
+            this.signaling.getUserId(clientId) ?? clientId,
+            remoteClientId && (this.signaling.getUserId(remoteClientId) ?? remoteClientId)
+        ].filter(Boolean).join(':');
+        this.outbox = new MessageOutbox(outboxKey, getOutboxStore());
+
+        // File transfers survive resets too, so an interrupted transfer resumes on the next data channel
+        this.fileTransfer = new FileTransferManager(roomId, clientId, role, this.signaling.remoteClientId ?? 'remote');
+
         // Initialize DataChannel manager with a function that always returns the current peer connection
         this.dataChannelManager = new DataChannelManager(
             () => this.pc,  // This function will always provide the current peer connection
             this.roomId,
             this.clientId,
-            this.role
+            this.role,
+            this.getLinkState()
         );
 
         // Setup peer connection listeners
@@ -521,13 +554,11 @@ export class PeerConnection implements IPeerConnection {
         setupPeerConnectionListeners(this, this.pc);
 
         this.pc.addEventListener("track", this.onTrack);
+    }
 
-        // Setup listeners for chat messages from DataChannelManager
-        this.dataChannelManager.onChatMessage((message) => {
-            if (this.onChatMessageCallback) {
-                this.onChatMessageCallback(message);
-            }
-        });
+    // State kept across data channel manager recreations: outbox, file transfers and subscribers
+    private getLinkState(): DataChannelLinkState {
+        return { outbox: this.outbox, fileTransfer: this.fileTransfer, events: this.events };
     }
 
     // Setup signaling listening
@@ -649,14 +680,57 @@ export class PeerConnection implements IPeerConnection {
         this.dataChannelManager.setupDataChannel(channel);
     }
 
-    // Send a chat message
-    sendChatMessage(content: string): boolean {
-        return this.dataChannelManager.sendChatMessage(content);
+    // Send a chat message (the id lets the mesh send the same message to several peers)
+    sendChatMessage(content: string, id?: string): boolean {
+        return this.dataChannelManager.sendChatMessage(content, id);
+    }
+
+    // Send a file on the file channel (the id lets the mesh send the same file to several peers)
+    sendFile(file: File, id?: string): boolean {
+        return this.dataChannelManager.sendFile(file, id);
+    }
+
+    // Subscribe to the progress of file transfers
+    onFileTransferProgress(callback: (progress: FileTransferProgress) => void) {
+        this.fileTransfer.onProgress(callback);
+    }
+
+    // Send read receipts for displayed chat messages
+    sendReadReceipt(ids: string[]): boolean {
+        return this.dataChannelManager.sendReadReceipt(ids);
+    }
+
+    // Notify the remote peer that the user is (or stopped) typing
+    sendTyping(isTyping: boolean): boolean {
+        return this.dataChannelManager.sendTyping(isTyping);
+    }
+
+    /**
+     * Subscribe to a data channel message type or to the channel events (open, close, error)
+     * Subscriptions survive data channel recreation
+     * @returns The unsubscribe function
+     */
+    on<K extends DataChannelEventType>(type: K, handler: DataChannelEventHandler<K>): () => void {
+        return this.events.on(type, handler);
+    }
+
+    off<K extends DataChannelEventType>(type: K, handler: DataChannelEventHandler<K>) {
+        this.events.off(type, handler);
     }
 
     // Subscribe to chat messages
-    onChatMessage(callback: (message: ChatMessage) => void) {
-        this.onChatMessageCallback = callback;
+    onChatMessage(callback: (message: ChatMessage) => void): () => void {
+        return this.dataChannelManager.onChatMessage(callback);
+    }
+
+    // Subscribe to measurements
+    onMeasurement(callback: (payload: MeasurementPayload) => void): () => void {
+        return this.dataChannelManager.onMeasurement(callback);
+    }
+
+    // Send a measurement
+    sendMeasurement(payload: MeasurementPayload): boolean {
+        return this.dataChannelManager.sendMeasurement(payload);
     }
 
     // Check if the dataChannel is available
@@ -664,11 +738,22 @@ export class PeerConnection implements IPeerConnection {
         return this.dataChannelManager.isDataChannelAvailable();
     }
 
+    // Short authentication string of the end-to-end encrypted data channel, null while not encrypted
+    getVerification(): E2EVerification | null {
+        return this.dataChannelManager.getVerification();
+    }
+
     // Check if the room is ready for connection (patient + practitioner present)
     isRoomReady(): boolean {
         return this.readyToNegotiate;
     }
 
+    // Update the patients admitted from the waiting room (practitioner side)
+    // Room readiness is re-evaluated against the new list
+    setAdmittedPatients(userIds: string[]) {
+        this.signaling.setAdmittedUsers(userIds);
+    }
+
     // Callback for room state changes
     onRoomReady(callback: (isReady: boolean) => void) {
         this.onRoomReadyCallback = callback;
@@ -739,10 +824,6 @@ export class PeerConnection implements IPeerConnection {
                 }
             });
 
-            // Force an explicit dispatch when leaving a room to avoid
-            // any residual behavior
-            store.dispatch({ type: 'webrtc/dataChannelStatusChanged' });
-
             // Clean up any reference to this room in Redux state
             store.dispatch(cleanupRoomState({ roomId: this.roomId }));
 
@@ -758,7 +839,6 @@ export class PeerConnection implements IPeerConnection {
                     roomId: this.roomId
                 }
             });
-            store.dispatch({ type: 'webrtc/dataChannelStatusChanged' });
         }
     }
 
@@ -823,12 +903,13 @@ export class PeerConnection implements IPeerConnection {
             }
         });
 
-        // Update data channel manager with new peer connection
+        // Update data channel manager with new peer connection (the outbox is kept)
         this.dataChannelManager = new DataChannelManager(
             () => this.pc,
             this.roomId,
             this.clientId,
-            this.role
+            this.role,
+            this.getLinkState()
         );
 
         // NOTE: Do not reset this.readyToNegotiate here as this state must be managed
@@ -860,9 +941,8 @@ export class PeerConnection implements IPeerConnection {
             this.onConnectionStateChangeCallback('disconnected');
         }
 
-        // Force a state update for components observing
-        // dataChannel and connection status changes
-        store.dispatch({ type: 'webrtc/dataChannelStatusChanged' });
+        // Force a state update for components observing connection status changes
+        // (data channel subscribers are notified by the data channel manager)
         store.dispatch({
             type: 'webrtc/connectionStatusChanged', payload: {
                 status: 'reset',
@@ -923,7 +1003,7 @@ export class PeerConnection implements IPeerConnection {
         return this.pc;
     }
 
-    getSignaling(): SignalingService {
+    getSignaling(): SignalingChannel {
         return this.signaling;
     }
 
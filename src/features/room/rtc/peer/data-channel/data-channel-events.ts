@@ -0,0 +1,59 @@
+// Abonnements aux événements du canal de données
+//
+// Chaque type de message accepte plusieurs abonnés, ainsi que les événements de cycle de vie
+// du canal (open, close, error). Le registre appartient à la PeerConnection : les abonnements
+// survivent donc à la recréation du canal et du DataChannelManager.
+
+import { DataChannelMessage, DataChannelMessageType, E2EVerification } from '../models/types';
+
+export type DataChannelEventMap = {
+    [T in DataChannelMessageType]: DataChannelMessage<T>;   // Message validé reçu de l'autre participant
+} & {
+    open: undefined;    // Canal ouvert et version du protocole négociée
+    close: undefined;   // Canal fermé (coupure, reset ou départ)
+    error: Event;       // Erreur du canal
+    verification: E2EVerification;  // Code de vérification du chiffrement de bout en bout (établi ou perdu)
+};
+
+export type DataChannelEventType = keyof DataChannelEventMap;
+
+export type DataChannelEventHandler<K extends DataChannelEventType> = (event: DataChannelEventMap[K]) => void;
+
+export class DataChannelEvents {
+    private handlers: { [K in DataChannelEventType]?: Set<DataChannelEventHandler<K>> } = {};
+
+    /**
+     * S'abonner à un type de message ou à un événement du canal
+     * @returns La fonction de désabonnement
+     */
+    on<K extends DataChannelEventType>(type: K, handler: DataChannelEventHandler<K>): () => void {
+        const handlers = (this.handlers[type] ?? new Set()) as Set<DataChannelEventHandler<K>>;
+        handlers.add(handler);
+        this.handlers[type] = handlers as (typeof this.handlers)[K];
+        return () => this.off(type, handler);
+    }
+
+    // Se désabonner
+    off<K extends DataChannelEventType>(type: K, handler: DataChannelEventHandler<K>) {
+        (this.handlers[type] as Set<DataChannelEventHandler<K>> | undefined)?.delete(handler);
+    }
+
+    // Notifier les abonnés ; l'erreur d'un abonné n'empêche pas les suivants d'être notifiés
+    emit<K extends DataChannelEventType>(type: K, event: DataChannelEventMap[K]) {
+        const handlers = this.handlers[type] as Set<DataChannelEventHandler<K>> | undefined;
+        if (!handlers) return;
+
+        for (const handler of Array.from(handlers)) {
+            try {
+                handler(event);
+            } catch (err) {
+                console.error(`[WebRTC] Error in data channel "${type}" handler:`, err);
+            }
+        }
+    }
+
+    // Notifier les abonnés du type d'un message reçu
+    emitMessage(message: DataChannelMessage) {
+        this.emit(message.type, message as DataChannelEventMap[typeof message.type]);
+    }
+}
@@ -1,8 +1,93 @@
 // Gestionnaire des canaux de données
 
+import { v4 as uuidv4 } from 'uuid';
 import { store } from '@/app/store';
-import { messageReceived } from '@/features/chat/chatSlice';
-import { Role, DataChannelMessage, ChatMessage } from '../models/types';
+import { messageReceived, messageStatusUpdated, typingChanged } from '@/features/chat/chatSlice';
+import { getChatHistoryStore, isChatHistoryEnabled } from '@/features/chat/history';
+import { setError } from '@/features/chat/chatSlice';
+import {
+    Role,
+    DataChannelMessage,
+    DataChannelMessageType,
+    DataChannelPayloads,
+    ChatMessage,
+    HelloPayload,
+    E2EVerification,
+    MeasurementPayload
+} from '../models/types';
+import { MessageOutbox, getOutboxStore } from './outbox';
+import { FileTransferManager } from './file-transfer-manager';
+import { DataChannelEvents, DataChannelEventHandler, DataChannelEventType } from './data-channel-events';
+import { E2ESession } from './e2e-session';
+import { fromLegacyMeasurementPayload, isMeasurementPayload } from './legacy-measurement';
+import {
+    E2E_PROTOCOL_VERSION,
+    LEGACY_PROTOCOL_VERSION,
+    createHelloPayload,
+    encodeDataChannelMessage,
+    encodeEncryptedContent,
+    isEncryptedInVersion,
+    isEncryptedType,
+    isSupportedByVersion,
+    negotiateProtocolVersion,
+    parseDataChannelMessage,
+    parseDecryptedMessage
+} from './protocol';
+
+// Un participant qui n'envoie plus d'indication de saisie est considéré comme ayant arrêté d'écrire
+const TYPING_TIMEOUT = 5000;
+
+// Messages conservés dans l'outbox tant que le canal est fermé ; les autres (accusés, saisie) sont perdus
+const QUEUED_MESSAGE_TYPES: DataChannelMessageType[] = ['chat', 'measurement'];
+
+/**
+ * État d'un lien partagé par les gestionnaires successifs d'une même PeerConnection
+ * (reprise après un reset ou une reconnexion)
+ */
+export interface DataChannelLinkState {
+    outbox: MessageOutbox;                  // Messages en attente du canal
+    fileTransfer: FileTransferManager;      // Transferts de fichiers en cours
+    events: DataChannelEvents;              // Abonnés aux messages et aux événements du canal
+}
+
+// Convertit un message de chat reçu pour l'affichage
+// Les clients du protocole v1 n'envoient pas d'id : il est déduit de l'expéditeur et de l'horodatage
+export function toChatMessage(message: DataChannelMessage<'chat'>): ChatMessage {
+    return {
+        id: typeof message.payload === 'string' ? `${message.sender}-${message.timestamp}` : message.payload.id,
+        sender: message.sender,
+        senderRole: message.senderRole,
+        content: typeof message.payload === 'string' ? message.payload : message.payload.content,
+        timestamp: message.timestamp
+    };
+}
+
+// Ajoute un message envoyé au store ("en attente" jusqu'à son envoi effectif) et, si l'utilisateur l'a accepté,
+// le persiste pour le retrouver après un rechargement ; le même id peut être enregistré plusieurs fois sans doublon
+export function recordOutgoingChatMessage(roomId: string, message: ChatMessage) {
+    store.dispatch(messageReceived({ roomId, message }));
+    if (isChatHistoryEnabled()) {
+        getChatHistoryStore().save(roomId, message);
+    }
+}
+
+// Données authentifiées avec le contenu chiffré : l'enveloppe ne peut pas être rejouée sous un autre id ou expéditeur
+function getAssociatedData(message: DataChannelMessage): string {
+    return `${message.id}:${message.sender}:${message.senderRole}:${message.timestamp}`;
+}
+
+// Convertit les mesures reçues au format structuré (les clients v1 à v3 envoient des libellés)
+export function toMeasurementPayload(message: DataChannelMessage<'measurement'>): MeasurementPayload {
+    return isMeasurementPayload(message.payload)
+        ? message.payload
+        : fromLegacyMeasurementPayload(message.payload, message.timestamp);
+}
+
+// Sans réponse au hello dans ce délai, l'autre participant parle la version 1 du protocole (sans négociation)
+const HELLO_TIMEOUT = 3000;
+
+// Erreur affichée quand l'autre participant ne peut pas chiffrer (ancienne version, ou hello supprimé ou modifié en route)
+const UNENCRYPTED_PEER_ERROR = 'Votre interlocuteur ne prend pas en charge le chiffrement de bout en bout : le chat et l\'envoi des mesures sont désactivés.';
 
 export class DataChannelManager {
     private getPeerConnection: () => RTCPeerConnection; // Fonction pour récupérer la connexion actuelle
@@ -10,14 +95,42 @@ export class DataChannelManager {
     private roomId: string;
     private clientId: string;
     private role: Role;
-    private onChatMessageCallback: ((message: ChatMessage) => void) | null = null;
-    private onMeasurementCallback: ((data: object) => void) | null = null;
-
-    constructor(peerConnectionProvider: () => RTCPeerConnection, roomId: string, clientId: string, role: Role) {
+    private typingTimeouts: Map<string, { role: Role, timeout: NodeJS.Timeout }> = new Map();
+    private outbox: MessageOutbox;
+    private fileTransfer: FileTransferManager;
+    private events: DataChannelEvents;
+    private protocolVersion: number | null = null; // Version négociée ; null tant que la négociation n'a pas abouti
+    private helloTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    // Chiffrement de bout en bout (protocole v3) : session de la connexion actuelle du canal
+    private e2e: E2ESession | null = null;
+    private remoteCommitment: string | null = null;     // Engagement de l'autre participant, reçu avant sa clé
+    private keyRevealed = false;
+    private e2eGeneration = 0;                          // Invalide les opérations asynchrones d'un canal fermé entre-temps
+    private verification: E2EVerification | null = null;
+    private encryptQueue: Promise<void> = Promise.resolve();    // Conserve l'ordre d'envoi des messages chiffrés
+    private decryptQueue: Promise<void> = Promise.resolve();    // Conserve l'ordre de réception des messages chiffrés
+
+    /**
+     * @param link État du lien conservé par la PeerConnection ; un nouvel état est créé sinon
+     */
+    constructor(
+        peerConnectionProvider: () => RTCPeerConnection,
+        roomId: string,
+        clientId: string,
+        role: Role,
+        link?: DataChannelLinkState
+    ) {
         this.getPeerConnection = peerConnectionProvider;
         this.roomId = roomId;
         this.clientId = clientId;
         this.role = role;
+        this.outbox = link?.outbox ?? new MessageOutbox(`${roomId}:${clientId}`, getOutboxStore());
+        this.fileTransfer = link?.fileTransfer ?? new FileTransferManager(roomId, clientId, role, 'remote');
+        this.events = link?.events ?? new DataChannelEvents();
+
+        // Les messages restaurés après un rechargement partent dès que possible
+        this.outbox.ready.then(() => this.flushOutbox());
     }
 
     // Créer un canal de données pour toutes les communications
@@ -51,6 +164,9 @@ export class DataChannelManager {
 
             this.setupDataChannel(this.dataChannel);
 
+            // Canal séparé pour les fichiers : leurs morceaux ne retardent pas le chat
+            this.fileTransfer.createChannel(pc);
+
             return this.dataChannel;
         } catch (err) {
             console.error('[WebRTC] Error creating data channel:', err);
@@ -67,16 +183,16 @@ export class DataChannelManager {
 
         channel.onopen = () => {
             console.log('[WebRTC] Data channel opened');
-            // Forcer une mise à jour de l'interface en utilisant un dispatch vide
-            // Cela permettra aux composants qui observent l'état de se re-rendre
-            store.dispatch({ type: 'webrtc/dataChannelStatusChanged' });
+            // Négocier la version du protocole avant tout autre message ; "open" est émis ensuite
+            this.startHandshake();
         };
 
         channel.onclose = () => {
             console.log('[WebRTC] Data channel closed');
             this.dataChannel = null;
-            // Forcer une mise à jour de l'interface
-            store.dispatch({ type: 'webrtc/dataChannelStatusChanged' });
+            this.resetHandshake();
+            this.clearRemoteTyping();
+            this.events.emit('close', undefined);
         };
 
         channel.onerror = (error) => {
@@ -88,62 +204,303 @@ export class DataChannelManager {
             } else {
                 console.error('[WebRTC] Data channel error:', error);
             }
-            // Forcer une mise à jour de l'interface
-            store.dispatch({ type: 'webrtc/dataChannelStatusChanged' });
+            this.events.emit('error', error);
         };
 
         channel.onmessage = (event) => {
-            try {
-                const message = JSON.parse(event.data) as DataChannelMessage;
-                console.log(`[WebRTC] Received message of type: ${message.type}`, message);
-
-                // Traiter les différents types de messages
-                switch (message.type) {
-                    case 'chat':
-                        const chatMessage: ChatMessage = {
-                            sender: message.sender,
-                            senderRole: message.senderRole,
-                            content: message.payload,
-                            timestamp: message.timestamp
-                        };
-
-                        // Dispatch le message au store
-                        store.dispatch(messageReceived({
-                            roomId: this.roomId,
-                            message: chatMessage
-                        }));
-
-                        // Appeler le callback s'il existe
-                        if (this.onChatMessageCallback) {
-                            this.onChatMessageCallback(chatMessage);
-                        }
-                        break;
-                    case 'measurement':
-                        console.log('[WebRTC] Dans case "measurement" – callback dispo ?', !!this.onMeasurementCallback);
-                        if (this.onMeasurementCallback) {
-                            console.log('[WebRTC] J’appelle le callback avec :', message.payload);
-                            this.onMeasurementCallback(message.payload);
-                        }
-                        break;
-
-
-                    case 'channel_closing':
-                        console.log('[WebRTC] Remote peer is closing data channel gracefully');
-                        // Pas besoin de faire quoi que ce soit, le canal va se fermer naturellement
-                        break;
-
-                    // Ajouter d'autres types de messages ici
-                    default:
-                        console.log(`[WebRTC] Unhandled message type: ${message.type}`);
-                }
-            } catch (err) {
-                console.error('[WebRTC] Error parsing message:', err);
+            // Rejeter les trames mal formées (JSON invalide, type inconnu, contenu non conforme au schéma)
+            const result = parseDataChannelMessage(event.data);
+            if (!result.ok) {
+                console.warn(`[WebRTC] Rejected data channel frame: ${result.error}`);
+                return;
+            }
+
+            const message = result.message;
+            if (message.type === 'encrypted') {
+                this.receiveEncrypted(message);
+                return;
+            }
+
+            // Un message de chat ou de mesure ne circule jamais en clair, même avant la fin de la négociation
+            if (isEncryptedType(message.type)) {
+                console.warn(`[WebRTC] Rejected unencrypted ${message.type} message`);
+                return;
             }
+
+            this.handleMessage(message);
         };
     }
 
-    // Envoyer un message via le dataChannel
-    sendDataChannelMessage(type: string, payload: any): boolean {
+    // Traite un message reçu (en clair ou déchiffré)
+    private handleMessage(message: DataChannelMessage) {
+        console.log(`[WebRTC] Received message of type: ${message.type} (${message.id})`);
+
+        // Un message renvoyé par l'outbox de l'autre pair peut arriver deux fois
+        if (message.id && !this.outbox.markReceived(message.id)) {
+            console.log(`[WebRTC] Ignoring duplicate message: ${message.id}`);
+            return;
+        }
+
+        // Traiter les différents types de messages
+        switch (message.type) {
+            case 'hello':
+                this.handleHello(message.payload);
+                break;
+            case 'key_commit':
+                this.remoteCommitment = message.payload.commitment;
+                this.revealKey();
+                break;
+            case 'key_exchange':
+                this.handleKeyExchange(message);
+                break;
+            case 'chat': {
+                const chatMessage = toChatMessage(message);
+
+                // Dispatch le message au store
+                store.dispatch(messageReceived({
+                    roomId: this.roomId,
+                    message: chatMessage
+                }));
+
+                // Accuser réception (ignoré pour les clients du protocole v1)
+                this.send('chat_ack', { id: chatMessage.id });
+
+                // L'envoi d'un message met fin à la saisie
+                this.setRemoteTyping(message.sender, message.senderRole, false);
+                break;
+            }
+            case 'chat_ack':
+                store.dispatch(messageStatusUpdated({
+                    roomId: this.roomId,
+                    ids: [message.payload.id],
+                    status: 'delivered'
+                }));
+                break;
+            case 'chat_read':
+                store.dispatch(messageStatusUpdated({
+                    roomId: this.roomId,
+                    ids: message.payload.ids,
+                    status: 'read'
+                }));
+                break;
+            case 'typing':
+                this.setRemoteTyping(message.sender, message.senderRole, message.payload.isTyping);
+                break;
+            case 'channel_closing':
+                console.log('[WebRTC] Remote peer is closing data channel gracefully');
+                // Pas besoin de faire quoi que ce soit, le canal va se fermer naturellement
+                break;
+        }
+
+        // Notifier les abonnés de ce type de message (mesures, chat...)
+        this.events.emitMessage(message);
+    }
+
+    // Déchiffre un message puis le traite comme un message reçu en clair
+    private receiveEncrypted(message: DataChannelMessage<'encrypted'>) {
+        const session = this.e2e;
+        if (!session?.isEstablished) {
+            console.warn('[WebRTC] Rejected encrypted message: end-to-end key not established');
+            return;
+        }
+
+        this.decryptQueue = this.decryptQueue
+            .then(async () => {
+                const plaintext = await session.decrypt(message.payload, getAssociatedData(message));
+
+                // Le canal a pu être réinitialisé pendant le déchiffrement
+                if (session !== this.e2e) return;
+
+                const result = parseDecryptedMessage(message, plaintext);
+                if (!result.ok) {
+                    console.warn(`[WebRTC] Rejected encrypted message: ${result.error}`);
+                    return;
+                }
+                this.handleMessage(result.message);
+            })
+            .catch((err) => console.warn('[WebRTC] Could not decrypt data channel message:', err));
+    }
+
+    // Envoie notre hello ; sans réponse, l'autre participant est un client v1, sans chiffrement : le canal reste inutilisable
+    private startHandshake() {
+        this.resetHandshake();
+        this.transmit(this.createMessage('hello', createHelloPayload()), LEGACY_PROTOCOL_VERSION);
+
+        this.helloTimeout = setTimeout(() => {
+            this.helloTimeout = null;
+            console.error('[WebRTC] No protocol handshake from remote peer: refusing an unencrypted data channel');
+            store.dispatch(setError(UNENCRYPTED_PEER_ERROR));
+        }, HELLO_TIMEOUT);
+    }
+
+    private handleHello(remote: HelloPayload) {
+        if (this.helloTimeout) {
+            clearTimeout(this.helloTimeout);
+            this.helloTimeout = null;
+        }
+
+        const version = negotiateProtocolVersion(remote);
+        if (version === null) {
+            // Versions incompatibles : le canal reste ouvert mais aucun message applicatif n'est échangé
+            console.error(`[WebRTC] Incompatible data channel protocol: remote speaks v${remote.minVersion}-v${remote.version}`);
+            this.protocolVersion = null;
+            store.dispatch(setError(remote.version < E2E_PROTOCOL_VERSION
+                ? UNENCRYPTED_PEER_ERROR
+                : 'La version de l\'application de votre interlocuteur est incompatible : le chat est indisponible.'));
+            return;
+        }
+
+        this.setProtocolVersion(version);
+    }
+
+    private setProtocolVersion(version: number) {
+        if (this.protocolVersion === version) return;
+
+        this.protocolVersion = version;
+        console.log(`[WebRTC] 🤝 Data channel protocol v${version} negotiated`);
+
+        // Le canal n'est utilisable qu'une fois la clé de bout en bout établie (toutes les versions acceptées chiffrent)
+        this.startKeyExchange();
+    }
+
+    private setChannelReady() {
+        this.events.emit('open', undefined);
+
+        // Envoyer, dans l'ordre, les messages mis en attente pendant la coupure
+        this.flushOutbox();
+    }
+
+    // Générer notre paire de clés et envoyer son engagement ; la clé est révélée après réception de celui de l'autre
+    private startKeyExchange() {
+        const generation = this.e2eGeneration;
+
+        E2ESession.create()
+            .then((session) => {
+                if (generation !== this.e2eGeneration) return;
+
+                this.e2e = session;
+                this.transmit(this.createMessage('key_commit', { commitment: session.commitment }));
+                this.revealKey();
+            })
+            .catch((err) => {
+                console.error('[WebRTC] Could not generate end-to-end keys:', err);
+                store.dispatch(setError('Le chiffrement de bout en bout n\'a pas pu être initialisé : le chat est indisponible.'));
+            });
+    }
+
+    // Révéler notre clé publique, une fois notre session créée et l'engagement de l'autre participant reçu
+    private revealKey() {
+        if (!this.e2e || !this.remoteCommitment || this.keyRevealed) return;
+
+        this.keyRevealed = true;
+        this.transmit(this.createMessage('key_exchange', { publicKey: this.e2e.publicKey }));
+    }
+
+    private handleKeyExchange(message: DataChannelMessage<'key_exchange'>) {
+        const session = this.e2e;
+        if (!session || !this.remoteCommitment || session.isEstablished) {
+            console.warn('[WebRTC] Ignoring unexpected end-to-end key exchange');
+            return;
+        }
+
+        const generation = this.e2eGeneration;
+        session.establish(message.payload.publicKey, this.remoteCommitment)
+            .then((sas) => {
+                if (generation !== this.e2eGeneration) return;
+
+                console.log('[WebRTC] 🔒 Data channel end-to-end encryption established');
+                this.verification = { peer: message.sender, peerRole: message.senderRole, sas };
+                this.events.emit('verification', this.verification);
+                this.fileTransfer.setSession(session);
+                this.setChannelReady();
+            })
+            .catch((err) => {
+                // Clé non conforme à son engagement : le canal reste inutilisable
+                console.error('[WebRTC] End-to-end key exchange failed:', err);
+                store.dispatch(setError('La vérification du chiffrement de bout en bout a échoué : le chat est indisponible.'));
+            });
+    }
+
+    private resetHandshake() {
+        if (this.helloTimeout) {
+            clearTimeout(this.helloTimeout);
+            this.helloTimeout = null;
+        }
+        this.protocolVersion = null;
+
+        // Nouvelles clés à chaque ouverture du canal
+        this.e2eGeneration += 1;
+        this.e2e = null;
+        this.fileTransfer.setSession(null);
+        this.remoteCommitment = null;
+        this.keyRevealed = false;
+        if (this.verification) {
+            this.events.emit('verification', { ...this.verification, sas: null });
+            this.verification = null;
+        }
+    }
+
+    /**
+     * Envoie un message typé via le dataChannel
+     * Les messages de chat et de mesures sont mis en attente (outbox) si le canal est fermé ;
+     * les autres sont ignorés si le canal est fermé ou si l'autre participant ne les connaît pas
+     */
+    send<T extends DataChannelMessageType>(type: T, payload: DataChannelPayloads[T]): boolean {
+        const message = this.createMessage(type, payload);
+
+        if (QUEUED_MESSAGE_TYPES.includes(type)) {
+            this.sendOrQueue(message);
+            return true;
+        }
+
+        return this.transmit(message);
+    }
+
+    private createMessage<T extends DataChannelMessageType>(type: T, payload: DataChannelPayloads[T]): DataChannelMessage {
+        return {
+            id: uuidv4(),
+            type,
+            payload,
+            sender: this.clientId,
+            senderRole: this.role,
+            timestamp: Date.now()
+        } as DataChannelMessage;
+    }
+
+    /**
+     * Envoie le message tout de suite si le canal est ouvert et que rien n'attend avant lui,
+     * sinon le place dans l'outbox
+     * @returns true si le message est parti immédiatement
+     */
+    private sendOrQueue(message: DataChannelMessage): boolean {
+        if (this.outbox.size === 0 && this.isDataChannelAvailable() && this.transmit(message)) {
+            return true;
+        }
+
+        this.outbox.enqueue(message);
+        this.flushOutbox();
+        return false;
+    }
+
+    // Envoyer les messages en attente, dans l'ordre, tant que le canal le permet
+    private flushOutbox() {
+        if (this.outbox.size === 0 || !this.isDataChannelAvailable()) return;
+
+        this.outbox.flush((message) => this.transmit(message));
+    }
+
+    // Un message de chat passe à l'état "envoyé" une fois effectivement parti sur le canal (après son chiffrement)
+    private markSent(message: DataChannelMessage) {
+        if (message.type === 'chat' && typeof message.payload !== 'string') {
+            store.dispatch(messageStatusUpdated({ roomId: this.roomId, ids: [message.payload.id], status: 'sent' }));
+        }
+    }
+
+    /**
+     * Envoie le message dans le format de la version négociée
+     * @param version Version à utiliser (le hello part avant la fin de la négociation)
+     */
+    private transmit(message: DataChannelMessage, version: number | null = this.protocolVersion): boolean {
         if (!this.dataChannel) {
             console.error('[WebRTC] Cannot send message, data channel is null');
             return false;
@@ -154,17 +511,23 @@ export class DataChannelManager {
             return false;
         }
 
-        try {
-            const message: DataChannelMessage = {
-                type,
-                payload,
-                sender: this.clientId,
-                senderRole: this.role,
-                timestamp: Date.now()
-            };
+        if (version === null) {
+            console.warn(`[WebRTC] Cannot send ${message.type}, protocol version not negotiated`);
+            return false;
+        }
 
-            this.dataChannel.send(JSON.stringify(message));
-            console.log(`[WebRTC] Sent message of type: ${type}`, message);
+        if (message.type !== 'hello' && !isSupportedByVersion(message.type, version)) {
+            console.log(`[WebRTC] Not sending ${message.type}: not supported by protocol v${version}`);
+            return false;
+        }
+
+        if (isEncryptedInVersion(message.type, version)) {
+            return this.transmitEncrypted(message, version);
+        }
+
+        try {
+            this.dataChannel.send(encodeDataChannelMessage(message, version));
+            this.markSent(message);
 
             return true;
         } catch (err) {
@@ -173,41 +536,136 @@ export class DataChannelManager {
         }
     }
 
-    // Envoyer un message de chat
-    sendChatMessage(content: string): boolean {
-        const success = this.sendDataChannelMessage('chat', content);
+    /**
+     * Chiffre puis envoie le message dans une enveloppe "encrypted" portant les mêmes id, expéditeur et horodatage
+     * Le chiffrement est asynchrone : true signifie que le message est pris en charge, il n'est marqué
+     * envoyé qu'une fois parti ; s'il ne peut finalement pas partir, il retourne à sa place dans l'outbox
+     */
+    private transmitEncrypted(message: DataChannelMessage, version: number): boolean {
+        const session = this.e2e;
+        const channel = this.dataChannel;
+        if (!session?.isEstablished || !channel) {
+            console.warn(`[WebRTC] Cannot send ${message.type}, end-to-end key not established`);
+            return false;
+        }
+
+        this.encryptQueue = this.encryptQueue
+            .then(async () => {
+                const payload = await session.encrypt(encodeEncryptedContent(message, version), getAssociatedData(message));
+                if (session !== this.e2e || channel.readyState !== 'open') {
+                    throw new Error('data channel closed during encryption');
+                }
+
+                channel.send(encodeDataChannelMessage({ ...message, type: 'encrypted', payload }, version));
+                console.log(`[WebRTC] Sent encrypted message of type: ${message.type} (${message.id})`);
+                this.markSent(message);
+            })
+            .catch((err) => {
+                console.error(`[WebRTC] Error sending encrypted ${message.type}:`, err);
+                if (QUEUED_MESSAGE_TYPES.includes(message.type)) {
+                    this.outbox.requeue(message);
+                    // Canal remplacé pendant le chiffrement : le nouveau a pu vider l'outbox avant ce retour
+                    if (session !== this.e2e) this.flushOutbox();
+                }
+            });
+
+        return true;
+    }
+
+    // Envoyer un message de chat (mis en attente si le canal est fermé)
+    // L'id permet d'envoyer le même message à plusieurs participants sans le dupliquer (store et historique)
+    sendChatMessage(content: string, id: string = uuidv4()): boolean {
+        const message = this.createMessage('chat', { id, content });
+
+        // Ajouter le message au store local aussi, "en attente" jusqu'à son envoi effectif
+        recordOutgoingChatMessage(this.roomId, {
+            id,
+            sender: this.clientId,
+            senderRole: this.role,
+            content,
+            timestamp: message.timestamp,
+            status: 'pending'
+        });
+
+        // Passe à l'état "envoyé" une fois effectivement parti (voir markSent)
+        this.sendOrQueue(message);
+
+        return true;
+    }
+
+    // Signaler que les messages reçus ont été affichés (accusés de lecture)
+    sendReadReceipt(ids: string[]): boolean {
+        if (ids.length === 0) return true;
+        return this.send('chat_read', { ids });
+    }
+
+    // Signaler que l'utilisateur est en train d'écrire (ou a arrêté)
+    sendTyping(isTyping: boolean): boolean {
+        return this.send('typing', { isTyping });
+    }
 
-        if (success) {
-            // Ajouter le message au store local aussi
-            const chatMessage: ChatMessage = {
-                sender: this.clientId,
-                senderRole: this.role,
-                content,
-                timestamp: Date.now()
-            };
+    // Met à jour l'indicateur de saisie d'un participant, qui expire sans nouvelle indication
+    private setRemoteTyping(sender: string, senderRole: Role, isTyping: boolean) {
+        const current = this.typingTimeouts.get(sender);
+        if (current) {
+            clearTimeout(current.timeout);
+            this.typingTimeouts.delete(sender);
+        }
 
-            store.dispatch(messageReceived({
-                roomId: this.roomId,
-                message: chatMessage
-            }));
+        if (isTyping) {
+            this.typingTimeouts.set(sender, {
+                role: senderRole,
+                timeout: setTimeout(() => this.setRemoteTyping(sender, senderRole, false), TYPING_TIMEOUT)
+            });
+        } else if (!current) {
+            // Pas d'indicateur actif pour ce participant : rien à retirer
+            return;
         }
 
-        return success;
+        store.dispatch(typingChanged({ roomId: this.roomId, sender, senderRole, isTyping }));
+    }
+
+    // Retirer les indicateurs de saisie quand le canal se ferme
+    private clearRemoteTyping() {
+        for (const [sender, { role }] of Array.from(this.typingTimeouts)) {
+            this.setRemoteTyping(sender, role, false);
+        }
+    }
+
+    /**
+     * S'abonner à un type de message ou à un événement du canal (open, close, error)
+     * @returns La fonction de désabonnement
+     */
+    on<K extends DataChannelEventType>(type: K, handler: DataChannelEventHandler<K>): () => void {
+        return this.events.on(type, handler);
+    }
+
+    // Se désabonner
+    off<K extends DataChannelEventType>(type: K, handler: DataChannelEventHandler<K>) {
+        this.events.off(type, handler);
     }
 
     // S'abonner aux messages de chat
-    onChatMessage(callback: (message: ChatMessage) => void) {
-        this.onChatMessageCallback = callback;
+    onChatMessage(callback: (message: ChatMessage) => void): () => void {
+        return this.on('chat', (message) => callback(toChatMessage(message)));
     }
 
     // S'abonner aux messages de mesures
-    onMeasurement(callback: (data: object) => void) {
-        this.onMeasurementCallback = callback;
+    onMeasurement(callback: (payload: MeasurementPayload) => void): () => void {
+        return this.on('measurement', (message) => callback(toMeasurementPayload(message)));
     }
 
-    // Vérifier si le dataChannel est disponible
+    // Vérifier si le dataChannel est disponible (ouvert, version du protocole négociée et clé de bout en bout établie)
     isDataChannelAvailable(): boolean {
-        return this.dataChannel !== null && this.dataChannel.readyState === 'open';
+        if (this.dataChannel === null || this.dataChannel.readyState !== 'open' || this.protocolVersion === null) {
+            return false;
+        }
+        return this.e2e?.isEstablished ?? false;
+    }
+
+    // Code de vérification du chiffrement de bout en bout, null si le canal n'est pas chiffré
+    getVerification(): E2EVerification | null {
+        return this.verification;
     }
 
     // Vérifier l'état de santé du DataChannel pour le timeout intelligent
@@ -225,13 +683,25 @@ export class DataChannelManager {
         this.dataChannel = channel;
     }
 
+    // Configure le canal de fichiers ouvert par l'autre participant
+    setupFileChannel(channel: RTCDataChannel) {
+        this.fileTransfer.setupChannel(channel);
+    }
+
+    // Envoyer un fichier (image, PDF...) sur le canal de fichiers
+    sendFile(file: File, id?: string): boolean {
+        return this.fileTransfer.sendFile(file, id);
+    }
+
     // Fermer le canal de données
     closeDataChannel() {
+        this.fileTransfer.closeChannel();
+
         if (this.dataChannel) {
             // Envoyer un message de fermeture gracieuse avant de fermer
             try {
                 if (this.dataChannel.readyState === 'open') {
-                    this.sendDataChannelMessage('channel_closing', { reason: 'graceful_shutdown' });
+                    this.send('channel_closing', { reason: 'graceful_shutdown' });
                 }
             } catch (err) {
                 console.warn('[WebRTC] Could not send closing message:', err);
@@ -257,12 +727,12 @@ export class DataChannelManager {
                 console.error('[WebRTC] Error while closing data channel:', err);
             } finally {
                 this.dataChannel = null;
+                this.resetHandshake();
+                this.clearRemoteTyping();
 
-                // Forcer une mise à jour de l'interface pour notifier les composants
-                // que le canal n'est plus disponible
-                store.dispatch({ type: 'webrtc/dataChannelStatusChanged' });
+                // Les gestionnaires du canal sont retirés : notifier la fermeture aux abonnés
+                this.events.emit('close', undefined);
                 console.log('[WebRTC] DataChannel reference cleared');
-                this.onChatMessageCallback = null;
             }
         }
     }
@@ -272,8 +742,8 @@ export class DataChannelManager {
         console.warn(`[WebRTC] Forcing data channel closure. Reason: ${reason}`);
         this.closeDataChannel();
     }
-    sendMeasurement(data: object): boolean {
-        return this.sendDataChannelMessage('measurement', data);
+    sendMeasurement(payload: MeasurementPayload): boolean {
+        return this.send('measurement', payload);
     }
 
 }
\ No newline at end of file
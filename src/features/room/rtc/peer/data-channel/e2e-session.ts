@@ -0,0 +1,172 @@
+// Chiffrement de bout en bout des messages du canal de données
+//
+// Le canal est déjà protégé par DTLS, mais un relais TURN ou une signalisation compromise pourraient
+// s'interposer entre les participants. Chaque ouverture du canal génère une paire de clés ECDH P-256
+// éphémère ; le secret partagé est dérivé par HKDF en une clé AES-GCM.
+//
+// Chaque participant envoie d'abord l'empreinte de sa clé publique (engagement), puis ne révèle sa clé
+// qu'après avoir reçu l'engagement de l'autre : un intermédiaire ne peut donc plus choisir ses clés
+// pour obtenir le même code des deux côtés. Ce code court (SAS), calculé sur les deux clés publiques,
+// est comparé à voix haute par les participants ; s'il diffère, quelqu'un s'est interposé.
+//
+// Le chiffrement protège les messages en transit seulement : l'historique du chat (features/chat/history)
+// est stocké en clair dans Supabase, lisible par qui administre le serveur. Il est donc désactivé par
+// défaut ; chaque participant choisit de conserver ses propres messages, en acceptant ce compromis.
+
+import { EncryptedPayload } from '../models/types';
+
+const KEY_ALGORITHM: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+const HKDF_INFO = new TextEncoder().encode('teleconsult-data-channel-e2e');
+const IV_LENGTH = 12;
+
+// Octets ajoutés à des données binaires chiffrées : IV puis tag d'authentification AES-GCM
+export const E2E_BINARY_OVERHEAD = IV_LENGTH + 16;
+
+// Code à 6 chiffres : une chance sur un million pour un intermédiaire de tomber juste
+const SAS_DIGITS = 6;
+
+const toBase64 = (buffer: ArrayBuffer | Uint8Array) =>
+    btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+const fromBase64 = (value: string) =>
+    Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+    return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+// Les deux clés publiques dans un ordre commun aux deux participants
+function getTranscript(localPublicKey: string, remotePublicKey: string): Uint8Array {
+    const [first, second] = [localPublicKey, remotePublicKey].sort().map(fromBase64);
+    const transcript = new Uint8Array(first.length + second.length);
+    transcript.set(first);
+    transcript.set(second, first.length);
+    return transcript;
+}
+
+// Code affiché en deux groupes de chiffres ("123 456") pour être lu facilement
+async function computeSas(transcript: Uint8Array): Promise<string> {
+    const hash = await sha256(transcript);
+    const value = new DataView(hash.buffer).getUint32(0) % 10 ** SAS_DIGITS;
+    const digits = value.toString().padStart(SAS_DIGITS, '0');
+    return `${digits.slice(0, SAS_DIGITS / 2)} ${digits.slice(SAS_DIGITS / 2)}`;
+}
+
+export class E2ESession {
+    private keyPair: CryptoKeyPair;
+    private key: CryptoKey | null = null;   // Clé AES-GCM, une fois l'échange terminé
+    readonly publicKey: string;             // Clé publique brute, en base64
+    readonly commitment: string;            // Empreinte SHA-256 de la clé publique, en base64
+    sas: string | null = null;              // Code de vérification, une fois l'échange terminé
+
+    private constructor(keyPair: CryptoKeyPair, publicKey: string, commitment: string) {
+        this.keyPair = keyPair;
+        this.publicKey = publicKey;
+        this.commitment = commitment;
+    }
+
+    // Générer une paire de clés éphémère (clé privée non exportable)
+    static async create(): Promise<E2ESession> {
+        const keyPair = await crypto.subtle.generateKey(KEY_ALGORITHM, false, ['deriveBits']);
+        const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+        return new E2ESession(keyPair, toBase64(publicKey), toBase64(await sha256(publicKey)));
+    }
+
+    get isEstablished(): boolean {
+        return this.key !== null;
+    }
+
+    /**
+     * Dériver la clé partagée à partir de la clé publique de l'autre participant
+     * @param remoteCommitment Empreinte reçue avant la clé : la clé doit y correspondre
+     * @returns Le code de vérification à comparer à voix haute
+     */
+    async establish(remotePublicKey: string, remoteCommitment: string): Promise<string> {
+        const remoteRaw = fromBase64(remotePublicKey);
+        if (toBase64(await sha256(remoteRaw)) !== remoteCommitment) {
+            throw new Error('remote public key does not match its commitment');
+        }
+        if (remotePublicKey === this.publicKey) {
+            throw new Error('remote public key is our own');
+        }
+
+        const remoteKey = await crypto.subtle.importKey('raw', remoteRaw, KEY_ALGORITHM, false, []);
+        const secret = await crypto.subtle.deriveBits({ name: 'ECDH', public: remoteKey }, this.keyPair.privateKey, 256);
+        const transcript = getTranscript(this.publicKey, remotePublicKey);
+
+        const hkdfKey = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+        this.key = await crypto.subtle.deriveKey(
+            { name: 'HKDF', hash: 'SHA-256', salt: transcript, info: HKDF_INFO },
+            hkdfKey,
+            { name: 'AES-GCM', length: 256 },
+            false,
+            ['encrypt', 'decrypt']
+        );
+        this.sas = await computeSas(transcript);
+        return this.sas;
+    }
+
+    /**
+     * Chiffrer un texte ; les données associées sont authentifiées sans être chiffrées
+     */
+    async encrypt(plaintext: string, associatedData: string): Promise<EncryptedPayload> {
+        const key = this.requireKey();
+        const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+        const data = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(associatedData) },
+            key,
+            new TextEncoder().encode(plaintext)
+        );
+        return { iv: toBase64(iv), data: toBase64(data) };
+    }
+
+    /**
+     * Déchiffrer un texte ; échoue si le message ou ses données associées ont été modifiés
+     */
+    async decrypt(payload: EncryptedPayload, associatedData: string): Promise<string> {
+        const key = this.requireKey();
+        const plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: fromBase64(payload.iv), additionalData: new TextEncoder().encode(associatedData) },
+            key,
+            fromBase64(payload.data)
+        );
+        return new TextDecoder().decode(plaintext);
+    }
+
+    /**
+     * Chiffrer des données binaires (morceaux de fichiers) : l'IV précède le texte chiffré
+     */
+    async encryptBytes(data: ArrayBuffer, associatedData: string): Promise<ArrayBuffer> {
+        const key = this.requireKey();
+        const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+        const encrypted = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(associatedData) },
+            key,
+            data
+        );
+
+        const sealed = new Uint8Array(IV_LENGTH + encrypted.byteLength);
+        sealed.set(iv);
+        sealed.set(new Uint8Array(encrypted), IV_LENGTH);
+        return sealed.buffer;
+    }
+
+    /**
+     * Déchiffrer des données produites par encryptBytes ; échoue si elles ont été modifiées
+     */
+    async decryptBytes(sealed: ArrayBuffer, associatedData: string): Promise<ArrayBuffer> {
+        const key = this.requireKey();
+        return crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: new Uint8Array(sealed, 0, IV_LENGTH), additionalData: new TextEncoder().encode(associatedData) },
+            key,
+            new Uint8Array(sealed, IV_LENGTH)
+        );
+    }
+
+    private requireKey(): CryptoKey {
+        if (!this.key) {
+            throw new Error('end-to-end key not established');
+        }
+        return this.key;
+    }
+}
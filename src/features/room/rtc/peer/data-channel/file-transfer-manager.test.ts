@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parse as uuidParse } from 'uuid';
+import { FileTransferManager, revokeFileUrls } from './file-transfer-manager';
+import { E2ESession } from './e2e-session';
+import { Role, type FileControlMessage, type FileOfferPayload } from '../models/types';
+
+const dispatch = vi.hoisted(() => vi.fn());
+vi.mock('@/app/store', () => ({ store: { dispatch } }));
+vi.mock('@/features/chat/chatSlice', () => ({
+    fileTransferStarted: (payload: unknown) => ({ type: 'fileTransferStarted', payload }),
+    fileTransferProgressed: (payload: unknown) => ({ type: 'fileTransferProgressed', payload })
+}));
+
+const TRANSFER_ID = '0b6f4c1e-2d3a-4f5b-8c7d-9e0f1a2b3c4d';
+
+/**
+ * File channel of the remote side, as seen by the manager under test
+ * The remote side encrypts and decrypts its frames with its end of the link session
+ */
+class FakeChannel {
+    readyState = 'open';
+    binaryType = 'blob';
+    bufferedAmount = 0;
+    bufferedAmountLowThreshold = 0;
+    sent: unknown[] = [];
+    onopen: (() => void) | null = null;
+    onclose: (() => void) | null = null;
+    onerror: ((error: unknown) => void) | null = null;
+    onmessage: ((event: { data: unknown }) => void) | null = null;
+
+    constructor(readonly remote: E2ESession) {}
+
+    send(data: unknown) {
+        this.sent.push(data);
+    }
+
+    receive(data: unknown) {
+        this.onmessage?.({ data });
+    }
+
+    async receiveControl(message: unknown) {
+        this.receive(JSON.stringify(await this.remote.encrypt(JSON.stringify(message), 'file-control')));
+    }
+
+    async receiveChunk(index: number, bytes: number[]) {
+        const sealed = await this.remote.encryptBytes(new Uint8Array(bytes).buffer, `${TRANSFER_ID}:${index}`);
+        this.receive(chunk(index, new Uint8Array(sealed)));
+    }
+
+    controls(): Promise<FileControlMessage[]> {
+        return Promise.all(this.sent
+            .filter((data): data is string => typeof data === 'string')
+            .map(async data => JSON.parse(await this.remote.decrypt(JSON.parse(data), 'file-control'))));
+    }
+}
+
+const offer = (changes: Partial<FileOfferPayload> = {}): FileOfferPayload => ({
+    id: TRANSFER_ID,
+    name: 'rash.jpg',
+    mimeType: 'image/jpeg',
+    size: 4,
+    chunkSize: 16 * 1024,
+    sender: 'someone-else',
+    senderRole: Role.PATIENT,
+    timestamp: Date.now(),
+    ...changes
+});
+
+const chunk = (index: number, bytes: ArrayLike<number>) => {
+    const frame = new Uint8Array(20 + bytes.length);
+    frame.set(uuidParse(TRANSFER_ID), 0);
+    new DataView(frame.buffer).setUint32(16, index);
+    frame.set(bytes, 20);
+    return frame.buffer;
+};
+
+// Both ends of a link session, with the key exchange done
+const establishSessions = async () => {
+    const [local, remote] = await Promise.all([E2ESession.create(), E2ESession.create()]);
+    await local.establish(remote.publicKey, remote.commitment);
+    await remote.establish(local.publicKey, local.commitment);
+    return { local, remote };
+};
+
+// Lets the manager decrypt, handle and answer the frames received so far
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+const setup = async ({ established = true } = {}) => {
+    const { local, remote } = await establishSessions();
+    const manager = new FileTransferManager('room', 'local', Role.PRACTITIONER, 'remote');
+    const channel = new FakeChannel(remote);
+    manager.setupChannel(channel as unknown as RTCDataChannel);
+    if (established) {
+        manager.setSession(local);
+    }
+    return { manager, channel, local };
+};
+
+describe('FileTransferManager', () => {
+    beforeEach(() => {
+        dispatch.mockClear();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        revokeFileUrls('room');
+        vi.restoreAllMocks();
+    });
+
+    it('drops malformed control frames', async () => {
+        const { channel } = await setup();
+
+        await channel.receiveControl({ type: 'file_offer', offer: { ...offer(), size: -1 } });
+        await channel.receiveControl({ type: 'file_offer', offer: { ...offer(), id: 'not-a-uuid' } });
+        channel.receive('{');
+        await settle();
+
+        expect(channel.sent).toEqual([]);
+        expect(dispatch).not.toHaveBeenCalled();
+    });
+
+    it('drops frames that are not encrypted with the link session', async () => {
+        const { channel } = await setup();
+        const { remote: stranger } = await establishSessions();
+
+        channel.receive(JSON.stringify({ type: 'file_offer', offer: offer() }));
+        channel.receive(JSON.stringify(await stranger.encrypt(JSON.stringify({ type: 'file_offer', offer: offer() }), 'file-control')));
+        channel.receive(chunk(0, [1, 2, 3, 4]));
+        await settle();
+
+        expect(channel.sent).toEqual([]);
+        expect(dispatch).not.toHaveBeenCalled();
+    });
+
+    it('waits for the end-to-end session before offering or accepting files', async () => {
+        const { manager, channel, local } = await setup({ established: false });
+
+        await channel.receiveControl({ type: 'file_offer', offer: offer() });
+        manager.sendFile(new File(['scan'], 'lab.pdf', { type: 'application/pdf' }));
+        await settle();
+        expect(channel.sent).toEqual([]);
+
+        manager.setSession(local);
+        await settle();
+        expect((await channel.controls()).map(message => message.type).sort()).toEqual(['file_accept', 'file_offer']);
+    });
+
+    it('sends the chunks of a file encrypted', async () => {
+        const { manager, channel } = await setup();
+
+        manager.sendFile(new File(['scan'], 'lab.pdf', { type: 'application/pdf' }));
+        await settle();
+        const [sent] = await channel.controls();
+        expect(sent.type).toBe('file_offer');
+        const id = sent.type === 'file_offer' ? sent.offer.id : '';
+
+        await channel.receiveControl({ type: 'file_accept', id, offset: 0 });
+        await settle();
+        const frame = channel.sent.at(-1) as ArrayBuffer;
+        expect(new TextDecoder().decode(frame)).not.toContain('scan');
+
+        const plaintext = await channel.remote.decryptBytes(frame.slice(20), `${id}:0`);
+        expect(new TextDecoder().decode(plaintext)).toBe('scan');
+    });
+
+    it('attributes an offer to the remote client of the link whatever sender it announces', async () => {
+        const { channel } = await setup();
+
+        await channel.receiveControl({ type: 'file_offer', offer: offer() });
+        await settle();
+
+        const started = dispatch.mock.calls[0][0].payload;
+        expect(started.peer).toBe('remote');
+        expect(started.transfer.sender).toBe('remote');
+        expect(await channel.controls()).toEqual([{ type: 'file_accept', id: TRANSFER_ID, offset: 0 }]);
+    });
+
+    it('rejects empty files and aborts a transfer sending more than its announced size', async () => {
+        const { channel } = await setup();
+
+        await channel.receiveControl({ type: 'file_offer', offer: offer({ size: 0 }) });
+        await settle();
+        expect(await channel.controls()).toEqual([{ type: 'file_reject', id: TRANSFER_ID, reason: 'empty' }]);
+
+        channel.sent = [];
+        await channel.receiveControl({ type: 'file_offer', offer: offer({ size: 2 }) });
+        await channel.receiveChunk(0, [1, 2, 3, 4]);
+        await settle();
+        expect(await channel.controls()).toEqual([
+            { type: 'file_accept', id: TRANSFER_ID, offset: 0 },
+            { type: 'file_reject', id: TRANSFER_ID, reason: 'size_mismatch' }
+        ]);
+    });
+
+    it('refuses to send an empty file', async () => {
+        const { manager } = await setup();
+
+        expect(manager.sendFile(new File([], 'empty.pdf'))).toBe(false);
+    });
+
+    it('releases the received files of a room', async () => {
+        const revoke = vi.spyOn(URL, 'revokeObjectURL');
+        const { channel } = await setup();
+
+        await channel.receiveControl({ type: 'file_offer', offer: offer() });
+        await channel.receiveChunk(0, [1, 2, 3, 4]);
+        await settle();
+        const url = dispatch.mock.calls.at(-1)![0].payload.url;
+
+        revokeFileUrls('room');
+        expect(revoke).toHaveBeenCalledWith(url);
+    });
+});
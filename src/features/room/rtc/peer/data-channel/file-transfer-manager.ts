@@ -0,0 +1,524 @@
+// Transfert de fichiers (photos, PDF) sur un canal de données dédié
+//
+// Les messages de contrôle (offre, acceptation, accusé de réception) sont envoyés en JSON,
+// les morceaux du fichier en binaire : [id du transfert (16 octets)][index du morceau (4 octets)][données].
+// Comme le chat, tout est chiffré de bout en bout avec la session du lien (voir e2e-session.ts) :
+// aucun transfert ne part avant que l'échange de clés ait abouti, et ce qui arrive en clair est ignoré.
+// Le gestionnaire appartient à la PeerConnection : il survit à la recréation des canaux,
+// ce qui permet de reprendre un transfert interrompu là où le destinataire s'est arrêté.
+
+import { v4 as uuidv4, parse as uuidParse, stringify as uuidStringify } from 'uuid';
+import { store } from '@/app/store';
+import { fileTransferProgressed, fileTransferStarted } from '@/features/chat/chatSlice';
+import { Role, FileControlMessage, FileOfferPayload, FileTransferProgress, FileTransferStatus } from '../models/types';
+import { parseEncryptedFileControl, parseFileControlMessage } from './protocol';
+import { E2ESession, E2E_BINARY_OVERHEAD } from './e2e-session';
+
+export const FILE_CHANNEL_LABEL = 'file-channel';
+
+// Taille maximale d'un fichier envoyé ou accepté
+export const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+// En-tête des morceaux : id du transfert (UUID binaire) puis index du morceau (uint32)
+const FRAME_HEADER_SIZE = 20;
+
+// Morceaux chiffrés de 16 Ko au plus : taille de message acceptée par tous les navigateurs
+const CHUNK_SIZE = 16 * 1024 - FRAME_HEADER_SIZE - E2E_BINARY_OVERHEAD;
+
+// Données authentifiées des messages de contrôle : ils ne peuvent pas passer pour un autre message chiffré
+const CONTROL_ASSOCIATED_DATA = 'file-control';
+
+// Messages reçus avant la fin de l'échange de clés, gardés pour être déchiffrés ensuite
+const MAX_PENDING_FRAMES = 16;
+
+// Contre-pression : l'envoi s'arrête au-delà du seuil haut et reprend sous bufferedAmountLowThreshold
+const BUFFERED_AMOUNT_HIGH = 1024 * 1024;
+const BUFFERED_AMOUNT_LOW = 256 * 1024;
+
+interface OutgoingTransfer {
+    offer: FileOfferPayload;
+    file: Blob;
+    offset: number;
+    status: FileTransferStatus;
+    sending: boolean;
+    lastReportedPercent: number;
+}
+
+interface IncomingTransfer {
+    offer: FileOfferPayload;
+    chunks: ArrayBuffer[];
+    receivedBytes: number;
+    status: FileTransferStatus;
+    lastReportedPercent: number;
+}
+
+// URLs locales des fichiers par salle, partagées par les liens d'un même transfert (maillage)
+const fileUrls: Map<string, Map<string, string>> = new Map();
+
+function getFileUrl(roomId: string, id: string, file: Blob): string {
+    let urls = fileUrls.get(roomId);
+    if (!urls) {
+        urls = new Map();
+        fileUrls.set(roomId, urls);
+    }
+
+    let url = urls.get(id);
+    if (!url) {
+        url = URL.createObjectURL(file);
+        urls.set(id, url);
+    }
+    return url;
+}
+
+/**
+ * Libère les fichiers d'une salle (messages effacés ou salle quittée) : leurs URLs ne sont plus valides
+ */
+export function revokeFileUrls(roomId: string) {
+    fileUrls.get(roomId)?.forEach(url => URL.revokeObjectURL(url));
+    fileUrls.delete(roomId);
+}
+
+export class FileTransferManager {
+    private channel: RTCDataChannel | null = null;
+    private roomId: string;
+    private clientId: string;
+    private role: Role;
+    private remoteClientId: string;
+    private outgoing: Map<string, OutgoingTransfer> = new Map();
+    private incoming: Map<string, IncomingTransfer> = new Map();
+    private onProgressCallback: ((progress: FileTransferProgress) => void) | null = null;
+    private session: E2ESession | null = null;              // Session de bout en bout du lien, une fois établie
+    private pendingFrames: (string | ArrayBuffer)[] = [];
+    private sendQueue: Promise<void> = Promise.resolve();    // Ordre d'envoi des messages de contrôle
+    private receiveQueue: Promise<void> = Promise.resolve(); // Ordre de traitement des messages reçus
+
+    /**
+     * @param remoteClientId Client distant du lien (clé de progression dans le store)
+     */
+    constructor(roomId: string, clientId: string, role: Role, remoteClientId: string) {
+        this.roomId = roomId;
+        this.clientId = clientId;
+        this.role = role;
+        this.remoteClientId = remoteClientId;
+    }
+
+    // Créer le canal dédié aux fichiers (côté qui crée les canaux de données)
+    createChannel(pc: RTCPeerConnection) {
+        if (this.channel && this.channel.readyState === 'open') return;
+
+        try {
+            this.setupChannel(pc.createDataChannel(FILE_CHANNEL_LABEL));
+            console.log('[FileTransfer] Created file channel');
+        } catch (err) {
+            console.error('[FileTransfer] Error creating file channel:', err);
+        }
+    }
+
+    // Configure les événements du canal de fichiers
+    setupChannel(channel: RTCDataChannel) {
+        this.channel = channel;
+        channel.binaryType = 'arraybuffer';
+        channel.bufferedAmountLowThreshold = BUFFERED_AMOUNT_LOW;
+
+        channel.onopen = () => {
+            console.log('[FileTransfer] File channel opened');
+            this.offerPendingTransfers();
+        };
+
+        channel.onclose = () => {
+            console.log('[FileTransfer] File channel closed');
+            if (this.channel === channel) {
+                this.channel = null;
+            }
+            this.pauseTransfers();
+        };
+
+        channel.onerror = (error) => {
+            console.error('[FileTransfer] File channel error:', error);
+        };
+
+        channel.onmessage = (event) => {
+            this.receive(event.data as string | ArrayBuffer);
+        };
+    }
+
+    /**
+     * Session de bout en bout du lien : établie, les transferts peuvent partir ;
+     * null quand une nouvelle négociation commence, les transferts attendent la suivante
+     */
+    setSession(session: E2ESession | null) {
+        this.session = session;
+        if (!session) {
+            this.pendingFrames = [];
+            this.pauseTransfers();
+            return;
+        }
+
+        const frames = this.pendingFrames;
+        this.pendingFrames = [];
+        frames.forEach(frame => this.receive(frame));
+        this.offerPendingTransfers();
+    }
+
+    // Fermer le canal ; les transferts en cours reprendront sur le prochain canal
+    closeChannel() {
+        if (!this.channel) return;
+
+        this.channel.onopen = null;
+        this.channel.onclose = null;
+        this.channel.onerror = null;
+        this.channel.onmessage = null;
+
+        try {
+            if (this.channel.readyState !== 'closed') {
+                this.channel.close();
+            }
+        } catch (err) {
+            console.error('[FileTransfer] Error while closing file channel:', err);
+        } finally {
+            this.channel = null;
+            this.pauseTransfers();
+        }
+    }
+
+    /**
+     * Envoie un fichier ; il part dès que le canal est ouvert et la session de bout en bout établie
+     * @param id Identifiant partagé quand le même fichier est envoyé à plusieurs participants
+     * @returns false si le fichier est vide ou dépasse MAX_FILE_SIZE
+     */
+    sendFile(file: File, id: string = uuidv4()): boolean {
+        if (file.size === 0) {
+            console.warn(`[FileTransfer] File ${file.name} is empty`);
+            return false;
+        }
+        if (file.size > MAX_FILE_SIZE) {
+            console.warn(`[FileTransfer] File ${file.name} is too large (${file.size} bytes)`);
+            return false;
+        }
+
+        const offer: FileOfferPayload = {
+            id,
+            name: file.name,
+            mimeType: file.type || 'application/octet-stream',
+            size: file.size,
+            chunkSize: CHUNK_SIZE,
+            sender: this.clientId,
+            senderRole: this.role,
+            timestamp: Date.now()
+        };
+        const transfer: OutgoingTransfer = { offer, file, offset: 0, status: 'pending', sending: false, lastReportedPercent: -1 };
+        this.outgoing.set(id, transfer);
+
+        store.dispatch(fileTransferStarted({
+            roomId: this.roomId,
+            transfer: { ...this.describe(offer), direction: 'outgoing', url: getFileUrl(this.roomId, id, file) },
+            peer: this.remoteClientId
+        }));
+
+        this.sendControl({ type: 'file_offer', offer });
+        return true;
+    }
+
+    // S'abonner à la progression des transferts
+    onProgress(callback: (progress: FileTransferProgress) => void) {
+        this.onProgressCallback = callback;
+    }
+
+    private getSecureChannel(): { channel: RTCDataChannel; session: E2ESession } | null {
+        const { channel, session } = this;
+        if (!channel || channel.readyState !== 'open' || !session?.isEstablished) return null;
+        return { channel, session };
+    }
+
+    // Proposer à nouveau les transferts inachevés : le destinataire indique où reprendre
+    private offerPendingTransfers() {
+        for (const transfer of this.outgoing.values()) {
+            if (transfer.status !== 'complete' && transfer.status !== 'failed') {
+                this.sendControl({ type: 'file_offer', offer: transfer.offer });
+            }
+        }
+    }
+
+    private sendControl(message: FileControlMessage) {
+        const secure = this.getSecureChannel();
+        if (!secure) return;
+
+        this.sendQueue = this.sendQueue
+            .then(async () => {
+                const payload = await secure.session.encrypt(JSON.stringify(message), CONTROL_ASSOCIATED_DATA);
+                // Canal ou clés remplacés pendant le chiffrement : le message repartira avec les suivants
+                if (secure.session !== this.session || secure.channel.readyState !== 'open') return;
+                secure.channel.send(JSON.stringify(payload));
+            })
+            .catch((err) => {
+                console.error(`[FileTransfer] Error sending ${message.type}:`, err);
+            });
+    }
+
+    // Les messages sont déchiffrés dans l'ordre d'arrivée
+    private receive(data: string | ArrayBuffer) {
+        const session = this.session;
+        if (!session?.isEstablished) {
+            if (this.pendingFrames.length < MAX_PENDING_FRAMES) {
+                this.pendingFrames.push(data);
+            } else {
+                console.warn('[FileTransfer] ⚠️ Dropping file channel message received before end-to-end encryption');
+            }
+            return;
+        }
+
+        this.receiveQueue = this.receiveQueue
+            .then(() => typeof data === 'string' ? this.receiveControl(session, data) : this.receiveChunk(session, data))
+            .catch((err) => {
+                console.warn('[FileTransfer] ⚠️ Dropping file channel message that could not be decrypted:', err);
+            });
+    }
+
+    private async receiveControl(session: E2ESession, raw: string) {
+        const envelope = parseEncryptedFileControl(raw);
+        if (!envelope.ok) {
+            console.warn(`[FileTransfer] ⚠️ Dropping control message not encrypted end-to-end: ${envelope.error}`);
+            return;
+        }
+
+        const plaintext = await session.decrypt(envelope.payload, CONTROL_ASSOCIATED_DATA);
+        if (session !== this.session) return;
+
+        const result = parseFileControlMessage(plaintext);
+        if (!result.ok) {
+            console.warn(`[FileTransfer] ⚠️ Dropping malformed control message: ${result.error}`);
+            return;
+        }
+        this.handleControl(result.message);
+    }
+
+    private async receiveChunk(session: E2ESession, data: ArrayBuffer) {
+        if (data.byteLength < FRAME_HEADER_SIZE + E2E_BINARY_OVERHEAD) return;
+
+        const id = uuidStringify(new Uint8Array(data, 0, 16));
+        const index = new DataView(data).getUint32(16);
+        // L'en-tête est authentifié : un morceau ne peut pas être rejoué dans un autre transfert ou à un autre index
+        const chunk = await session.decryptBytes(data.slice(FRAME_HEADER_SIZE), `${id}:${index}`);
+        if (session !== this.session) return;
+
+        this.handleChunk(id, index, chunk);
+    }
+
+    private handleControl(message: FileControlMessage) {
+        switch (message.type) {
+            case 'file_offer':
+                this.handleOffer(message.offer);
+                break;
+            case 'file_accept': {
+                const transfer = this.outgoing.get(message.id);
+                if (!transfer || transfer.status === 'complete') return;
+                // La reprise ne peut se faire qu'au début d'un morceau du fichier
+                if (message.offset > transfer.offer.size || message.offset % CHUNK_SIZE !== 0) {
+                    console.warn(`[FileTransfer] ⚠️ Ignoring invalid resume offset ${message.offset} for ${message.id}`);
+                    return;
+                }
+                transfer.offset = message.offset;
+                this.pump(transfer);
+                break;
+            }
+            case 'file_received': {
+                const transfer = this.outgoing.get(message.id);
+                if (!transfer) return;
+                transfer.offset = transfer.offer.size;
+                this.updateOutgoing(transfer, 'complete');
+                // Le fichier n'est plus nécessaire pour une reprise
+                this.outgoing.delete(message.id);
+                break;
+            }
+            case 'file_reject': {
+                const transfer = this.outgoing.get(message.id);
+                if (!transfer) return;
+                console.warn(`[FileTransfer] Transfer ${message.id} rejected: ${message.reason}`);
+                this.updateOutgoing(transfer, 'failed');
+                this.outgoing.delete(message.id);
+                break;
+            }
+        }
+    }
+
+    private handleOffer(received: FileOfferPayload) {
+        // Le fichier vient du client distant de ce lien, quel que soit l'expéditeur annoncé
+        const offer: FileOfferPayload = { ...received, sender: this.remoteClientId };
+        if (offer.size === 0 || offer.size > MAX_FILE_SIZE) {
+            this.sendControl({ type: 'file_reject', id: offer.id, reason: offer.size === 0 ? 'empty' : 'too_large' });
+            return;
+        }
+
+        let transfer = this.incoming.get(offer.id);
+        if (!transfer) {
+            transfer = { offer, chunks: [], receivedBytes: 0, status: 'pending', lastReportedPercent: -1 };
+            this.incoming.set(offer.id, transfer);
+
+            store.dispatch(fileTransferStarted({
+                roomId: this.roomId,
+                transfer: { ...this.describe(offer), direction: 'incoming' },
+                peer: offer.sender
+            }));
+        }
+
+        // Déjà reçu : l'accusé de réception s'est perdu avec l'ancien canal
+        if (transfer.status === 'complete') {
+            this.sendControl({ type: 'file_received', id: offer.id });
+            return;
+        }
+
+        if (transfer.receivedBytes > 0) {
+            console.log(`[FileTransfer] 🔁 Resuming ${offer.name} at ${transfer.receivedBytes}/${offer.size} bytes`);
+        }
+        this.sendControl({ type: 'file_accept', id: offer.id, offset: transfer.receivedBytes });
+    }
+
+    private handleChunk(id: string, index: number, chunk: ArrayBuffer) {
+        const transfer = this.incoming.get(id);
+        if (!transfer || transfer.status === 'complete' || transfer.status === 'failed') return;
+
+        // Morceau déjà reçu (renvoyé après une reconnexion)
+        if (index !== transfer.chunks.length) return;
+
+        // Plus de données que la taille annoncée : le transfert est abandonné
+        if (transfer.receivedBytes + chunk.byteLength > transfer.offer.size) {
+            console.warn(`[FileTransfer] ⚠️ ${transfer.offer.name} exceeds its announced size, transfer aborted`);
+            transfer.chunks = [];
+            this.sendControl({ type: 'file_reject', id, reason: 'size_mismatch' });
+            this.updateIncoming(transfer, 'failed');
+            return;
+        }
+        transfer.chunks.push(chunk);
+        transfer.receivedBytes += chunk.byteLength;
+
+        if (transfer.receivedBytes < transfer.offer.size) {
+            this.updateIncoming(transfer, 'transferring');
+            return;
+        }
+
+        const file = new Blob(transfer.chunks, { type: transfer.offer.mimeType });
+        transfer.chunks = [];
+        this.sendControl({ type: 'file_received', id });
+        this.updateIncoming(transfer, 'complete', getFileUrl(this.roomId, id, file));
+        console.log(`[FileTransfer] ✅ Received ${transfer.offer.name} (${transfer.offer.size} bytes)`);
+    }
+
+    // Envoie les morceaux à partir de l'offset demandé par le destinataire, en respectant la contre-pression
+    private async pump(transfer: OutgoingTransfer) {
+        if (transfer.sending) return;
+        transfer.sending = true;
+
+        try {
+            while (transfer.offset < transfer.offer.size) {
+                const secure = this.getSecureChannel();
+                if (!secure) {
+                    this.updateOutgoing(transfer, 'paused');
+                    return;
+                }
+                const { channel, session } = secure;
+
+                if (channel.bufferedAmount > BUFFERED_AMOUNT_HIGH) {
+                    await this.waitForBufferedAmountLow(channel);
+                    continue;
+                }
+
+                const index = transfer.offset / CHUNK_SIZE;
+                const chunk = await transfer.file.slice(transfer.offset, transfer.offset + CHUNK_SIZE).arrayBuffer();
+                const sealed = await session.encryptBytes(chunk, `${transfer.offer.id}:${index}`);
+                // Canal ou clés remplacés entre-temps : le destinataire redemandera ce morceau
+                if (session !== this.session || channel.readyState !== 'open') continue;
+
+                channel.send(this.encodeChunk(transfer.offer.id, index, sealed));
+                transfer.offset += chunk.byteLength;
+                this.updateOutgoing(transfer, 'transferring');
+            }
+            // Le transfert est terminé à la réception de file_received
+        } catch (err) {
+            console.error(`[FileTransfer] Error sending ${transfer.offer.name}:`, err);
+            this.updateOutgoing(transfer, 'paused');
+        } finally {
+            transfer.sending = false;
+        }
+    }
+
+    private waitForBufferedAmountLow(channel: RTCDataChannel): Promise<void> {
+        return new Promise((resolve) => {
+            const done = () => {
+                channel.removeEventListener('bufferedamountlow', done);
+                channel.removeEventListener('close', done);
+                resolve();
+            };
+            channel.addEventListener('bufferedamountlow', done);
+            channel.addEventListener('close', done);
+        });
+    }
+
+    private encodeChunk(id: string, index: number, chunk: ArrayBuffer): ArrayBuffer {
+        const frame = new Uint8Array(FRAME_HEADER_SIZE + chunk.byteLength);
+        frame.set(uuidParse(id), 0);
+        new DataView(frame.buffer).setUint32(16, index);
+        frame.set(new Uint8Array(chunk), FRAME_HEADER_SIZE);
+        return frame.buffer;
+    }
+
+    // Les transferts en cours attendent le prochain canal
+    private pauseTransfers() {
+        for (const transfer of this.outgoing.values()) {
+            if (transfer.status === 'transferring' || transfer.status === 'pending') {
+                this.updateOutgoing(transfer, 'paused');
+            }
+        }
+        for (const transfer of this.incoming.values()) {
+            if (transfer.status === 'transferring') {
+                this.updateIncoming(transfer, 'paused');
+            }
+        }
+    }
+
+    private describe(offer: FileOfferPayload) {
+        return {
+            id: offer.id,
+            name: offer.name,
+            mimeType: offer.mimeType,
+            size: offer.size,
+            sender: offer.sender,
+            senderRole: offer.senderRole,
+            timestamp: offer.timestamp
+        };
+    }
+
+    private updateOutgoing(transfer: OutgoingTransfer, status: FileTransferStatus) {
+        this.report(transfer, 'outgoing', this.remoteClientId, transfer.offset, status);
+    }
+
+    private updateIncoming(transfer: IncomingTransfer, status: FileTransferStatus, url?: string) {
+        this.report(transfer, 'incoming', transfer.offer.sender, transfer.receivedBytes, status, url);
+    }
+
+    // Publie la progression (au plus une fois par pourcent pour ne pas saturer le store)
+    private report(
+        transfer: OutgoingTransfer | IncomingTransfer,
+        direction: 'incoming' | 'outgoing',
+        peer: string,
+        transferredBytes: number,
+        status: FileTransferStatus,
+        url?: string
+    ) {
+        const percent = transfer.offer.size > 0 ? Math.floor(transferredBytes * 100 / transfer.offer.size) : 100;
+        if (status === transfer.status && percent === transfer.lastReportedPercent) return;
+
+        transfer.status = status;
+        transfer.lastReportedPercent = percent;
+
+        const progress: FileTransferProgress = {
+            id: transfer.offer.id,
+            peer,
+            direction,
+            transferredBytes,
+            size: transfer.offer.size,
+            status
+        };
+        store.dispatch(fileTransferProgressed({ roomId: this.roomId, id: progress.id, peer, transferredBytes, status, url }));
+        this.onProgressCallback?.(progress);
+    }
+}
@@ -0,0 +1,67 @@
+// Conversion des mesures pour les clients des protocoles v1 à v3
+//
+// Ces clients envoient et attendent les valeurs sous forme de texte, indexées par leur libellé
+// d'affichage (unité comprise) sous le nom du service. Ces libellés font partie du format
+// d'échange : ils ne doivent pas suivre les traductions de l'interface.
+
+import { LegacyMeasurementPayload, Measurement, MeasurementKey, MeasurementPayload } from '../models/types';
+
+// Libellé du champ portant la date fournie par l'appareil (texte localisé, non relu)
+const LEGACY_DATE_FIELD = 'Date de la mesure';
+
+// Identifiant d'appareil des mesures reçues d'un client v1 à v3, qui ne le transmet pas
+const LEGACY_DEVICE_ID = 'unknown';
+
+// Champs connus des clients v1 à v3 ; les grandeurs ajoutées depuis (SpO2...) n'y figurent pas
+const LEGACY_FIELDS: Partial<Record<MeasurementKey, { label: string; unit: string }>> = {
+    systolic: { label: 'Systolique (mmHg)', unit: 'mm[Hg]' },
+    diastolic: { label: 'Diastolique (mmHg)', unit: 'mm[Hg]' },
+    pulse_rate: { label: 'Fréquence cardiaque (bpm)', unit: '/min' },
+    body_temperature: { label: 'Température (°C)', unit: 'Cel' }
+};
+
+// Vérifie que le payload suit le format structuré (protocole v4)
+export function isMeasurementPayload(payload: MeasurementPayload | LegacyMeasurementPayload): payload is MeasurementPayload {
+    return Array.isArray((payload as MeasurementPayload).measurements);
+}
+
+/**
+ * Convertit des mesures au format des clients v1 à v3 (un seul service par message)
+ * Les valeurs dont la clé n'existait pas dans ces versions, ou dans une autre unité (kPa, °F), sont omises
+ */
+export function toLegacyMeasurementPayload(payload: MeasurementPayload): LegacyMeasurementPayload {
+    const [first] = payload.measurements;
+    if (!first) return {};
+
+    const fields: Record<string, string | number> = {};
+    for (const measurement of payload.measurements) {
+        const legacy = LEGACY_FIELDS[measurement.key];
+        if (legacy && legacy.unit === measurement.unit && measurement.service === first.service) {
+            fields[legacy.label] = measurement.value.toFixed(1);
+        }
+    }
+    fields[LEGACY_DATE_FIELD] = new Date(first.timestamp).toLocaleString();
+
+    return { [first.service]: fields };
+}
+
+/**
+ * Convertit les mesures reçues d'un client v1 à v3
+ * @param receivedAt Horodatage du message : la date localisée de l'appareil n'est pas relue
+ */
+export function fromLegacyMeasurementPayload(payload: LegacyMeasurementPayload, receivedAt: number): MeasurementPayload {
+    const measurements: Measurement[] = [];
+
+    for (const [service, fields] of Object.entries(payload)) {
+        if (!fields || typeof fields !== 'object') continue;
+
+        for (const [key, { label, unit }] of Object.entries(LEGACY_FIELDS) as [MeasurementKey, { label: string; unit: string }][]) {
+            const value = Number(fields[label]);
+            if (fields[label] === undefined || !Number.isFinite(value)) continue;
+
+            measurements.push({ key, value, unit, timestamp: receivedAt, deviceId: LEGACY_DEVICE_ID, service });
+        }
+    }
+
+    return { measurements };
+}
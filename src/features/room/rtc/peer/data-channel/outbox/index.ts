@@ -0,0 +1,34 @@
+/**
+ * Data Channel Outbox Module Entry Point
+ *
+ * Exports the store contract, the available adapters, the MessageOutbox and
+ * the store used by the application (IndexedDB when the browser provides it,
+ * in-memory otherwise; replaceable with setOutboxStore).
+ */
+import type { OutboxStore } from './types';
+import { IndexedDbOutboxStore } from './indexeddb-outbox';
+import { MemoryOutboxStore } from './memory-outbox';
+
+export type { OutboxEntry, OutboxStore } from './types';
+export { IndexedDbOutboxStore } from './indexeddb-outbox';
+export { MemoryOutboxStore } from './memory-outbox';
+export { MessageOutbox } from './message-outbox';
+
+let outboxStore: OutboxStore = typeof indexedDB !== 'undefined'
+    ? new IndexedDbOutboxStore()
+    : new MemoryOutboxStore();
+
+/**
+ * Returns the store used to persist the queued messages
+ */
+export function getOutboxStore(): OutboxStore {
+    return outboxStore;
+}
+
+/**
+ * Replaces the outbox store (e.g. in-memory store for scripted scenarios)
+ */
+export function setOutboxStore(store: OutboxStore) {
+    console.log(`[Outbox] Using ${store.name} outbox store`);
+    outboxStore = store;
+}
@@ -0,0 +1,56 @@
+/**
+ * IndexedDB Outbox Store
+ *
+ * Persists the queued messages in the browser, so that chat messages and
+ * measurements taken while the data channel was down survive a page reload.
+ */
+import type { OutboxEntry, OutboxStore } from './types';
+
+const DB_NAME = 'teleconsult-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'messages';
+
+export class IndexedDbOutboxStore implements OutboxStore {
+    readonly name = 'indexeddb';
+    private db: Promise<IDBDatabase> | null = null;
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+                request.onupgradeneeded = () => {
+                    const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                    store.createIndex('key', 'key');
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.db;
+    }
+
+    // Runs a single request in its own transaction
+    private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const db = await this.open();
+
+        return new Promise((resolve, reject) => {
+            const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    async load(key: string): Promise<OutboxEntry[]> {
+        const entries = await this.run('readonly', store => store.index('key').getAll(key)) as OutboxEntry[];
+        return entries.sort((a, b) => a.seq - b.seq);
+    }
+
+    async add(entry: OutboxEntry): Promise<void> {
+        await this.run('readwrite', store => store.put(entry));
+    }
+
+    async remove(id: string): Promise<void> {
+        await this.run('readwrite', store => store.delete(id));
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * In-Memory Outbox Store
+ *
+ * Keeps the queued messages in the current page only. Used when IndexedDB
+ * is not available (private browsing on some browsers, scripted scenarios).
+ */
+import type { OutboxEntry, OutboxStore } from './types';
+
+export class MemoryOutboxStore implements OutboxStore {
+    readonly name = 'memory';
+    private entries: Map<string, OutboxEntry> = new Map();
+
+    async load(key: string): Promise<OutboxEntry[]> {
+        return Array.from(this.entries.values())
+            .filter(entry => entry.key === key)
+            .sort((a, b) => a.seq - b.seq);
+    }
+
+    async add(entry: OutboxEntry): Promise<void> {
+        this.entries.set(entry.id, entry);
+    }
+
+    async remove(id: string): Promise<void> {
+        this.entries.delete(id);
+    }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { MessageOutbox } from './message-outbox';
+import { MemoryOutboxStore } from './memory-outbox';
+import { Role, type DataChannelMessage } from '../../models/types';
+
+const chat = (id: string, timestamp: number): DataChannelMessage => ({
+    id,
+    type: 'chat',
+    payload: { id, content: id },
+    sender: 'local',
+    senderRole: Role.PATIENT,
+    timestamp
+});
+
+describe('MessageOutbox', () => {
+    it('puts a message that failed after leaving the queue back before the messages created after it', async () => {
+        const store = new MemoryOutboxStore();
+        const outbox = new MessageOutbox('room:patient:practitioner', store);
+        await outbox.ready;
+
+        const first = chat('first', 1000);
+        outbox.enqueue(first);
+        outbox.flush(() => true);
+
+        // Sent, but its encryption failed once the channel closed; the next message was queued meanwhile
+        outbox.enqueue(chat('second', Date.now()));
+        outbox.requeue(first);
+
+        const order: string[] = [];
+        outbox.flush((message) => {
+            order.push(message.id);
+            return true;
+        });
+        expect(order).toEqual(['first', 'second']);
+    });
+
+    it('restores the requeued message after a reload', async () => {
+        const store = new MemoryOutboxStore();
+        const outbox = new MessageOutbox('room:patient:practitioner', store);
+        await outbox.ready;
+
+        outbox.requeue(chat('failed', Date.now() - 1000));
+
+        const reloaded = new MessageOutbox('room:patient:practitioner', store);
+        await reloaded.ready;
+        expect(reloaded.size).toBe(1);
+    });
+});
@@ -0,0 +1,140 @@
+/**
+ * Message Outbox
+ *
+ * Queue of the messages waiting for the data channel of one link
+ * (local user to one remote user). The queue is kept in memory for
+ * synchronous access and mirrored in an OutboxStore. It is owned by the
+ * PeerConnection, so it outlives the DataChannelManager recreated on reset.
+ *
+ * The outbox also remembers the ids received on the link: a message that
+ * reaches the remote peer twice (flush interrupted by a reload) is handled once.
+ */
+import type { DataChannelMessage } from '../../models/types';
+import type { OutboxEntry, OutboxStore } from './types';
+
+// Queued messages older than this are dropped instead of being delivered out of context
+const OUTBOX_MAX_AGE = 24 * 60 * 60 * 1000;
+
+// Number of received message ids remembered for deduplication
+const RECEIVED_IDS_LIMIT = 1000;
+
+export class MessageOutbox {
+    private key: string;
+    private store: OutboxStore;
+    private queue: OutboxEntry[] = [];
+    private lastSeq = 0;
+    private receivedIds: Set<string> = new Set();
+
+    // Resolved once the messages persisted by a previous page have been restored
+    readonly ready: Promise<void>;
+
+    /**
+     * @param key Identifies the link: the same key finds the queue again after a reload
+     * @param store Persistence adapter (see getOutboxStore)
+     */
+    constructor(key: string, store: OutboxStore) {
+        this.key = key;
+        this.store = store;
+        this.ready = this.restore();
+    }
+
+    private async restore() {
+        try {
+            const entries = await this.store.load(this.key);
+            const expiredBefore = Date.now() - OUTBOX_MAX_AGE;
+            const knownIds = new Set(this.queue.map(entry => entry.id));
+            const restored: OutboxEntry[] = [];
+
+            for (const entry of entries) {
+                if (entry.message.timestamp < expiredBefore) {
+                    this.removeFromStore(entry.id);
+                } else if (!knownIds.has(entry.id)) {
+                    restored.push(entry);
+                }
+            }
+
+            if (restored.length > 0) {
+                console.log(`[Outbox] 📦 Restored ${restored.length} queued message(s) for ${this.key}`);
+                this.queue = [...restored, ...this.queue].sort((a, b) => a.seq - b.seq);
+                this.lastSeq = Math.max(this.lastSeq, ...restored.map(entry => entry.seq));
+            }
+        } catch (err) {
+            console.error('[Outbox] Error restoring queued messages:', err);
+        }
+    }
+
+    // Number of messages waiting to be sent
+    get size(): number {
+        return this.queue.length;
+    }
+
+    // Queue a message until the data channel is open
+    enqueue(message: DataChannelMessage) {
+        if (this.queue.some(entry => entry.id === message.id)) return;
+
+        this.lastSeq = Math.max(Date.now(), this.lastSeq + 1);
+        const entry: OutboxEntry = { id: message.id, key: this.key, seq: this.lastSeq, message };
+        this.queue.push(entry);
+        console.log(`[Outbox] 📥 Queued ${message.type} message ${message.id} (${this.queue.length} pending)`);
+
+        this.store.add(entry).catch(err => console.error('[Outbox] Error persisting queued message:', err));
+    }
+
+    /**
+     * Puts back a message whose sending failed after it left the queue (asynchronous
+     * encryption), at its original place: before the messages created after it
+     */
+    requeue(message: DataChannelMessage) {
+        if (this.queue.some(entry => entry.id === message.id)) return;
+
+        const entry: OutboxEntry = { id: message.id, key: this.key, seq: message.timestamp, message };
+        const index = this.queue.findIndex(queued => queued.seq > entry.seq);
+        this.queue.splice(index === -1 ? this.queue.length : index, 0, entry);
+        console.log(`[Outbox] ↩️ Requeued ${message.type} message ${message.id} (${this.queue.length} pending)`);
+
+        this.store.add(entry).catch(err => console.error('[Outbox] Error persisting queued message:', err));
+    }
+
+    /**
+     * Sends the queued messages in order, stopping at the first failure
+     * so that the remaining ones keep their order
+     * @returns The messages that were sent
+     */
+    flush(send: (message: DataChannelMessage) => boolean): DataChannelMessage[] {
+        const sent: DataChannelMessage[] = [];
+
+        while (this.queue.length > 0) {
+            const entry = this.queue[0];
+            if (!send(entry.message)) break;
+
+            this.queue.shift();
+            this.removeFromStore(entry.id);
+            sent.push(entry.message);
+        }
+
+        if (sent.length > 0) {
+            console.log(`[Outbox] 📤 Flushed ${sent.length} message(s), ${this.queue.length} still pending`);
+        }
+        return sent;
+    }
+
+    /**
+     * Records a received message id
+     * @returns false if the message was already received on this link
+     */
+    markReceived(id: string): boolean {
+        if (this.receivedIds.has(id)) return false;
+
+        this.receivedIds.add(id);
+        if (this.receivedIds.size > RECEIVED_IDS_LIMIT) {
+            // Sets iterate in insertion order: forget the oldest id
+            const oldest = this.receivedIds.values().next().value;
+            if (oldest !== undefined) this.receivedIds.delete(oldest);
+        }
+        return true;
+    }
+
+    private removeFromStore(id: string) {
+        this.store.remove(id).catch(err => console.error('[Outbox] Error removing sent message:', err));
+    }
+}
@@ -0,0 +1,34 @@
+/**
+ * Data Channel Outbox Types
+ *
+ * This file defines the contract used to persist the messages queued while
+ * the data channel is down (ICE restart, peer connection reset, page reload).
+ * Each adapter (IndexedDB, in-memory) implements it.
+ */
+import type { DataChannelMessage } from '../../models/types';
+
+export interface OutboxEntry {
+    id: string;                     // ID of the queued message
+    key: string;                    // Link the message waits on (room, local user, remote user)
+    seq: number;                    // Increasing sequence number, gives the sending order
+    message: DataChannelMessage;    // The message, sent as is once the channel reopens
+}
+
+export interface OutboxStore {
+    readonly name: string;  // Human readable adapter name, used in logs
+
+    /**
+     * Loads the entries queued on a link, in sending order
+     */
+    load(key: string): Promise<OutboxEntry[]>;
+
+    /**
+     * Persists an entry; adding the same id twice keeps a single entry
+     */
+    add(entry: OutboxEntry): Promise<void>;
+
+    /**
+     * Removes an entry once it has been sent
+     */
+    remove(id: string): Promise<void>;
+}
@@ -0,0 +1,425 @@
+/**
+ * Data Channel Protocol
+ *
+ * Versioned registry of the messages exchanged on the data channel.
+ * Every message type declares the protocol version that introduced it and
+ * the JSON Schema of its payload; incoming frames are validated with ajv
+ * and rejected when malformed. The control frames of the file channel are
+ * validated the same way (see parseFileControlMessage), once unwrapped from
+ * their end-to-end encrypted envelope (see parseEncryptedFileControl).
+ *
+ * When the channel opens, both peers send a `hello` with the range of
+ * versions they speak and use the highest common one. Protocol v1 clients
+ * (before the handshake existed) never answer and are detected by timeout.
+ *
+ * The hello is not authenticated, so versions without end-to-end encryption
+ * are refused: a peer (or an attacker dropping or rewriting the hello) can
+ * only make the channel unusable, never downgrade it to plaintext.
+ *
+ * Versions:
+ * - 1: chat (bare content string), measurement, channel_closing
+ * - 2: hello, message ids, chat as { id, content }, chat_ack, chat_read, typing
+ * - 3: key_commit, key_exchange, chat and measurement sent end-to-end encrypted
+ * - 4: measurement as typed `{ measurements }` (machine keys, numeric values, UCUM units)
+ *
+ * From v3, the payloads of the messages flagged `encrypted` never travel in
+ * clear: they are wrapped in an `encrypted` message once the end-to-end key
+ * is agreed, and received in clear they are rejected.
+ */
+import Ajv, { type SchemaObject, type ValidateFunction } from 'ajv';
+import { toLegacyMeasurementPayload, isMeasurementPayload } from './legacy-measurement';
+import { Role, DataChannelMessage, DataChannelMessageType, DataChannelPayloads, EncryptedPayload, FileControlMessage, HelloPayload } from '../models/types';
+
+export const PROTOCOL_VERSION = 4;
+
+// First version with end-to-end encryption of the data channel messages
+export const E2E_PROTOCOL_VERSION = 3;
+
+// Older versions would send chat and measurements in clear
+export const MIN_PROTOCOL_VERSION = E2E_PROTOCOL_VERSION;
+
+// Format of the hello, readable by every version
+export const LEGACY_PROTOCOL_VERSION = 1;
+
+interface MessageDefinition<T extends DataChannelMessageType> {
+    since: number;          // Protocol version that introduced the type
+    schema: SchemaObject;   // JSON Schema of the payload
+    encrypted?: boolean;    // Sent end-to-end encrypted from E2E_PROTOCOL_VERSION
+    // Converts the payload for a peer speaking an older version
+    encode?: (payload: DataChannelPayloads[T], version: number) => unknown;
+}
+
+const idSchema: SchemaObject = { type: 'string', minLength: 1, maxLength: 64 };
+const base64Schema = (maxLength: number): SchemaObject => ({ type: 'string', pattern: '^[A-Za-z0-9+/]*={0,2}$', maxLength });
+
+const measurementSchema: SchemaObject = {
+    type: 'object',
+    properties: {
+        key: { type: 'string', minLength: 1, maxLength: 64 },
+        value: { type: 'number' },
+        unit: { type: 'string', maxLength: 32 },
+        timestamp: { type: 'number' },
+        deviceId: { type: 'string', minLength: 1, maxLength: 128 },
+        deviceName: { type: 'string', maxLength: 256 },
+        service: { type: 'string', minLength: 1, maxLength: 64 },
+        sequenceNumber: { type: 'integer', minimum: 0, maximum: 65535 }
+    },
+    required: ['key', 'value', 'unit', 'timestamp', 'deviceId', 'service']
+};
+
+const MESSAGE_REGISTRY: { [T in DataChannelMessageType]: MessageDefinition<T> } = {
+    hello: {
+        since: 2,
+        schema: {
+            type: 'object',
+            properties: {
+                version: { type: 'integer', minimum: 1 },
+                minVersion: { type: 'integer', minimum: 1 }
+            },
+            required: ['version', 'minVersion']
+        }
+    },
+    chat: {
+        since: 1,
+        encrypted: true,
+        schema: {
+            oneOf: [
+                { type: 'string', maxLength: 10000 },
+                {
+                    type: 'object',
+                    properties: {
+                        id: idSchema,
+                        content: { type: 'string', maxLength: 10000 }
+                    },
+                    required: ['id', 'content']
+                }
+            ]
+        },
+        encode: (payload, version) =>
+            version < 2 && typeof payload !== 'string' ? payload.content : payload
+    },
+    chat_ack: {
+        since: 2,
+        schema: {
+            type: 'object',
+            properties: { id: idSchema },
+            required: ['id']
+        }
+    },
+    chat_read: {
+        since: 2,
+        schema: {
+            type: 'object',
+            properties: {
+                ids: { type: 'array', items: idSchema, maxItems: 1000 }
+            },
+            required: ['ids']
+        }
+    },
+    typing: {
+        since: 2,
+        schema: {
+            type: 'object',
+            properties: { isTyping: { type: 'boolean' } },
+            required: ['isTyping']
+        }
+    },
+    measurement: {
+        since: 1,
+        encrypted: true,
+        schema: {
+            oneOf: [
+                {
+                    type: 'object',
+                    properties: {
+                        measurements: { type: 'array', items: measurementSchema, maxItems: 100 }
+                    },
+                    required: ['measurements']
+                },
+                // Protocol v1-v3: values keyed by display labels under the service name
+                { type: 'object', not: { required: ['measurements'] } }
+            ]
+        },
+        encode: (payload, version) =>
+            version < 4 && isMeasurementPayload(payload) ? toLegacyMeasurementPayload(payload) : payload
+    },
+    channel_closing: {
+        since: 1,
+        schema: {
+            type: 'object',
+            properties: { reason: { type: 'string' } },
+            required: ['reason']
+        }
+    },
+    key_commit: {
+        since: 3,
+        schema: {
+            type: 'object',
+            properties: { commitment: base64Schema(64) },
+            required: ['commitment']
+        }
+    },
+    key_exchange: {
+        since: 3,
+        schema: {
+            type: 'object',
+            properties: { publicKey: base64Schema(128) },
+            required: ['publicKey']
+        }
+    },
+    encrypted: {
+        since: 3,
+        schema: {
+            type: 'object',
+            properties: {
+                iv: base64Schema(16),
+                data: base64Schema(1000000)
+            },
+            required: ['iv', 'data']
+        }
+    }
+};
+
+// Fields shared by every message; `id` is absent from protocol v1 messages
+const ENVELOPE_SCHEMA: SchemaObject = {
+    type: 'object',
+    properties: {
+        id: idSchema,
+        type: { type: 'string' },
+        payload: {},
+        sender: { type: 'string', minLength: 1 },
+        senderRole: { enum: Object.values(Role) },
+        timestamp: { type: 'number' }
+    },
+    required: ['type', 'payload', 'sender', 'senderRole', 'timestamp']
+};
+
+const ajv = new Ajv({ allErrors: true });
+const validateEnvelope = ajv.compile(ENVELOPE_SCHEMA);
+const payloadValidators = Object.fromEntries(
+    Object.entries(MESSAGE_REGISTRY).map(([type, definition]) => [type, ajv.compile(definition.schema)])
+) as Record<DataChannelMessageType, ValidateFunction>;
+
+// Control frames of the file channel: no envelope, the channel belongs to a single link
+const uuidSchema: SchemaObject = { type: 'string', pattern: '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$' };
+
+const FILE_CONTROL_REGISTRY: { [T in FileControlMessage['type']]: SchemaObject } = {
+    file_offer: {
+        type: 'object',
+        properties: {
+            offer: {
+                type: 'object',
+                properties: {
+                    id: uuidSchema,
+                    name: { type: 'string', minLength: 1, maxLength: 255 },
+                    mimeType: { type: 'string', maxLength: 255 },
+                    size: { type: 'integer', minimum: 0 },
+                    chunkSize: { type: 'integer', minimum: 1, maximum: 262144 },
+                    sender: { type: 'string', minLength: 1 },
+                    senderRole: { enum: Object.values(Role) },
+                    timestamp: { type: 'number' }
+                },
+                required: ['id', 'name', 'mimeType', 'size', 'chunkSize', 'sender', 'senderRole', 'timestamp']
+            }
+        },
+        required: ['offer']
+    },
+    file_accept: {
+        type: 'object',
+        properties: {
+            id: uuidSchema,
+            offset: { type: 'integer', minimum: 0 }
+        },
+        required: ['id', 'offset']
+    },
+    file_received: {
+        type: 'object',
+        properties: { id: uuidSchema },
+        required: ['id']
+    },
+    file_reject: {
+        type: 'object',
+        properties: {
+            id: uuidSchema,
+            reason: { type: 'string', maxLength: 64 }
+        },
+        required: ['id', 'reason']
+    }
+};
+
+const fileControlValidators = Object.fromEntries(
+    Object.entries(FILE_CONTROL_REGISTRY).map(([type, schema]) => [type, ajv.compile(schema)])
+) as Record<FileControlMessage['type'], ValidateFunction>;
+
+export type ParseResult =
+    | { ok: true; message: DataChannelMessage }
+    | { ok: false; error: string };
+
+export type FileControlParseResult =
+    | { ok: true; message: FileControlMessage }
+    | { ok: false; error: string };
+
+export type EncryptedFileControlParseResult =
+    | { ok: true; payload: EncryptedPayload }
+    | { ok: false; error: string };
+
+export function isKnownMessageType(type: string): type is DataChannelMessageType {
+    return Object.prototype.hasOwnProperty.call(MESSAGE_REGISTRY, type);
+}
+
+/**
+ * Parses and validates a raw frame received on the data channel
+ */
+export function parseDataChannelMessage(raw: unknown): ParseResult {
+    if (typeof raw !== 'string') {
+        return { ok: false, error: 'frame is not text' };
+    }
+
+    let frame: unknown;
+    try {
+        frame = JSON.parse(raw);
+    } catch {
+        return { ok: false, error: 'frame is not valid JSON' };
+    }
+
+    if (!validateEnvelope(frame)) {
+        return { ok: false, error: `invalid envelope: ${ajv.errorsText(validateEnvelope.errors)}` };
+    }
+
+    const { type, payload } = frame as { type: string; payload: unknown };
+    if (!isKnownMessageType(type)) {
+        return { ok: false, error: `unknown message type "${type}"` };
+    }
+
+    const validatePayload = payloadValidators[type];
+    if (!validatePayload(payload)) {
+        return { ok: false, error: `invalid ${type} payload: ${ajv.errorsText(validatePayload.errors)}` };
+    }
+
+    return { ok: true, message: frame as DataChannelMessage };
+}
+
+/**
+ * Parses and validates a control frame received on the file channel
+ */
+export function parseFileControlMessage(raw: string): FileControlParseResult {
+    let frame: unknown;
+    try {
+        frame = JSON.parse(raw);
+    } catch {
+        return { ok: false, error: 'frame is not valid JSON' };
+    }
+
+    const type = (frame as { type?: unknown } | null)?.type;
+    if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(FILE_CONTROL_REGISTRY, type)) {
+        return { ok: false, error: `unknown file control type "${String(type)}"` };
+    }
+
+    const validate = fileControlValidators[type as FileControlMessage['type']];
+    if (!validate(frame)) {
+        return { ok: false, error: `invalid ${type}: ${ajv.errorsText(validate.errors)}` };
+    }
+
+    return { ok: true, message: frame as FileControlMessage };
+}
+
+/**
+ * Parses the encrypted envelope of a control frame received on the file channel
+ * Its content is then decrypted and checked with parseFileControlMessage
+ */
+export function parseEncryptedFileControl(raw: string): EncryptedFileControlParseResult {
+    let frame: unknown;
+    try {
+        frame = JSON.parse(raw);
+    } catch {
+        return { ok: false, error: 'frame is not valid JSON' };
+    }
+
+    const validate = payloadValidators.encrypted;
+    if (!validate(frame)) {
+        return { ok: false, error: `invalid encrypted frame: ${ajv.errorsText(validate.errors)}` };
+    }
+
+    return { ok: true, payload: frame as EncryptedPayload };
+}
+
+/**
+ * Whether a message type may only travel end-to-end encrypted
+ * Received in clear, whatever the state of the handshake, it is rejected
+ */
+export function isEncryptedType(type: DataChannelMessageType): boolean {
+    return MESSAGE_REGISTRY[type].encrypted === true;
+}
+
+/**
+ * Whether the payload of a message type must be encrypted end-to-end in the given version
+ */
+export function isEncryptedInVersion(type: DataChannelMessageType, version: number): boolean {
+    return version >= E2E_PROTOCOL_VERSION && MESSAGE_REGISTRY[type].encrypted === true;
+}
+
+/**
+ * Serializes the `{ type, payload }` of a message before its encryption
+ */
+export function encodeEncryptedContent(message: DataChannelMessage, version: number): string {
+    return JSON.stringify({ type: message.type, payload: encodePayload(message, version) });
+}
+
+/**
+ * Rebuilds and validates the message carried by a decrypted `encrypted` envelope
+ * Only the message types flagged `encrypted` may be carried
+ */
+export function parseDecryptedMessage(envelope: DataChannelMessage<'encrypted'>, plaintext: string): ParseResult {
+    let content: unknown;
+    try {
+        content = JSON.parse(plaintext);
+    } catch {
+        return { ok: false, error: 'decrypted content is not valid JSON' };
+    }
+
+    const { type, payload } = (content ?? {}) as { type?: unknown; payload?: unknown };
+    if (typeof type !== 'string' || !isKnownMessageType(type) || !MESSAGE_REGISTRY[type].encrypted) {
+        return { ok: false, error: `message type "${String(type)}" cannot be encrypted` };
+    }
+
+    const validatePayload = payloadValidators[type];
+    if (!validatePayload(payload)) {
+        return { ok: false, error: `invalid ${type} payload: ${ajv.errorsText(validatePayload.errors)}` };
+    }
+
+    return { ok: true, message: { ...envelope, type, payload } as DataChannelMessage };
+}
+
+/**
+ * Whether a message type can be sent to a peer speaking the given version
+ */
+export function isSupportedByVersion(type: DataChannelMessageType, version: number): boolean {
+    return MESSAGE_REGISTRY[type].since <= version;
+}
+
+/**
+ * Serializes a message for a peer speaking the given version
+ */
+export function encodeDataChannelMessage(message: DataChannelMessage, version: number): string {
+    return JSON.stringify({ ...message, payload: encodePayload(message, version) });
+}
+
+function encodePayload(message: DataChannelMessage, version: number): unknown {
+    const definition = MESSAGE_REGISTRY[message.type] as MessageDefinition<DataChannelMessageType>;
+    return definition.encode ? definition.encode(message.payload, version) : message.payload;
+}
+
+/**
+ * Local side of the handshake
+ */
+export function createHelloPayload(): HelloPayload {
+    return { version: PROTOCOL_VERSION, minVersion: MIN_PROTOCOL_VERSION };
+}
+
+/**
+ * Highest version spoken by both peers, or null if their ranges do not overlap
+ */
+export function negotiateProtocolVersion(remote: HelloPayload): number | null {
+    const version = Math.min(PROTOCOL_VERSION, remote.version);
+    return version >= MIN_PROTOCOL_VERSION && version >= remote.minVersion ? version : null;
+}
@@ -1,6 +1,7 @@
 // Gestionnaires d'événements liés à la connexion WebRTC
 
 import { Role } from '../models/types';
+import { FILE_CHANNEL_LABEL } from '../data-channel/file-transfer-manager';
 
 // Type de la classe PeerConnection sans créer de dépendance circulaire
 export interface IPeerConnection {
@@ -54,6 +55,12 @@ export function setupPeerConnectionListeners(peerConnection: IPeerConnection, pc
             if (dataChannelManager && dataChannelManager.setupDataChannel) {
                 dataChannelManager.setupDataChannel(event.channel);
             }
+        } else if (event.channel.label === FILE_CHANNEL_LABEL) {
+            // Canal dédié aux transferts de fichiers
+            const dataChannelManager = peerConnection.getDataChannelManager();
+            if (dataChannelManager && dataChannelManager.setupFileChannel) {
+                dataChannelManager.setupFileChannel(event.channel);
+            }
         }
     };
 }
\ No newline at end of file
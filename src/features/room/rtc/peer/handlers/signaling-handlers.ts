@@ -1,8 +1,8 @@
 // Signaling message handlers
 
-import { SignalingService } from '../../signaling';
+import { SignalingChannel } from '../../signaling';
 
-export async function handleOffer(pc: RTCPeerConnection, offer: RTCSessionDescriptionInit, signaling: SignalingService, roomId: string) {
+export async function handleOffer(pc: RTCPeerConnection, offer: RTCSessionDescriptionInit, signaling: SignalingChannel, roomId: string) {
     if (pc.signalingState !== 'stable') {
         console.log('[WebRTC] Signaling state is not stable, ignoring offer');
         return;
@@ -86,7 +86,7 @@ export async function handleIceCandidate(pc: RTCPeerConnection, candidate: RTCIc
     }
 }
 
-export async function createOffer(pc: RTCPeerConnection, signaling: SignalingService, roomId: string) {
+export async function createOffer(pc: RTCPeerConnection, signaling: SignalingChannel, roomId: string) {
     try {
         const offer = await pc.createOffer();
         await pc.setLocalDescription(offer);
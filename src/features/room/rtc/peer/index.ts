@@ -9,4 +9,10 @@
 export { PeerConnection } from './connection/peer-connection';
 
 // Export all types and interfaces for external use
-export * from './models/types';
\ No newline at end of file
+export * from './models/types';
+
+// Export the multi-party mesh (one PeerConnection per remote participant)
+export { PeerMesh } from './mesh/peer-mesh';
+
+// Export the file transfer limits (checked by the UI before sending) and the release of received files
+export { MAX_FILE_SIZE, revokeFileUrls } from './data-channel/file-transfer-manager';
@@ -0,0 +1,424 @@
+/**
+ * Peer Mesh
+ *
+ * Multi-party consultations (practitioner, patient, specialist, interpreter,
+ * caregiver): one PeerConnection per remote participant, keyed by clientId.
+ *
+ * A single room-wide SignalingService is shared by every peer. Each
+ * PeerConnection gets a ScopedSignalingChannel, so outgoing messages are
+ * targeted with the `receiver` field and Perfect Negotiation keeps running
+ * between exactly two clients.
+ *
+ * The mesh exposes the same surface as PeerConnection (connection state,
+ * room readiness, chat, measurements, streams) aggregated over all peers.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { SignalingService, SignalingMessage } from '../../signaling';
+import { SignalingTransport } from '../../transport';
+import { SignalingAuthenticator } from '../../security';
+import { StreamsByDevice } from '@/features/streams/streamSlice';
+import { PeerConnection } from '../connection/peer-connection';
+import { Role, ChatMessage, FileTransferProgress, RemotePeerStreams, E2EVerification, MeasurementPayload } from '../models/types';
+import { ScopedSignalingChannel } from './scoped-signaling';
+import { recordOutgoingChatMessage, toChatMessage, toMeasurementPayload } from '../data-channel/data-channel-manager';
+import { DataChannelEvents, DataChannelEventHandler, DataChannelEventType } from '../data-channel/data-channel-events';
+import { revokeFileUrls } from '../data-channel/file-transfer-manager';
+
+// How long an absent participant keeps its PeerConnection (network blips, page reloads)
+const PEER_DISPOSE_DELAY = 30000;
+
+// Most advanced state first: the mesh reports the best state among its peers
+const CONNECTION_STATE_PRIORITY: RTCPeerConnectionState[] = [
+    'connected',
+    'connecting',
+    'new',
+    'disconnected',
+    'failed',
+    'closed'
+];
+
+interface MeshPeer {
+    role: Role;
+    connection: PeerConnection;
+    channel: ScopedSignalingChannel;
+    state: RTCPeerConnectionState;
+    ready: boolean;
+}
+
+export class PeerMesh {
+    private roomId: string;
+    private clientId: string;
+    private role: Role;
+    private signaling: SignalingService;
+    private peers: Map<string, MeshPeer> = new Map();
+    private disposeTimeouts: Map<string, NodeJS.Timeout> = new Map();
+    // Queued sends run while nobody else was in the room, handed to the outbox of the next peer created
+    private pendingSends: Array<(connection: PeerConnection) => boolean> = [];
+    private _localStreams: { [device: string]: MediaStream } = {};
+    private connected = false;
+
+    // Subscribers of every peer's data channel; each event type is forwarded from all peers once subscribed
+    private events: DataChannelEvents = new DataChannelEvents();
+    private forwardedEvents: Set<DataChannelEventType> = new Set();
+
+    // Callbacks
+    private onConnectionStateChangeCallback: ((state: RTCPeerConnectionState) => void) | null = null;
+    private onRoomReadyCallback: ((isReady: boolean) => void) | null = null;
+    private onPeersChangeCallback: ((peers: RemotePeerStreams) => void) | null = null;
+    private onFileTransferProgressCallback: ((progress: FileTransferProgress) => void) | null = null;
+
+    /**
+     * @param transport Optional signaling transport (Supabase, WebSocket, in-memory); defaults to the configured one
+     * @param authenticator Optional signaling authenticator; defaults to Supabase Auth bound keys
+     */
+    constructor(
+        roomId: string,
+        clientId: string,
+        role: Role,
+        transport?: SignalingTransport,
+        authenticator?: SignalingAuthenticator
+    ) {
+        console.log(`[PeerMesh] Creating mesh with role: ${role}, roomId: ${roomId}, clientId: ${clientId}`);
+        this.roomId = roomId;
+        this.clientId = clientId;
+        this.role = role;
+        this.signaling = new SignalingService(roomId, clientId, role, transport, authenticator);
+    }
+
+    // Connect to the room: peers are created as participants show up
+    async connect() {
+        if (this.connected) return;
+        this.connected = true;
+
+        this.signaling.onMessage((message) => this.routeMessage(message));
+        this.signaling.onPresenceChange(() => this.syncPeers());
+
+        await this.signaling.connect();
+        console.log('[PeerMesh] Connected to signaling service');
+    }
+
+    // Close every peer connection and leave the room
+    async disconnect() {
+        console.log('[PeerMesh] Disconnecting from room:', this.roomId);
+        this.connected = false;
+
+        for (const timeout of this.disposeTimeouts.values()) {
+            clearTimeout(timeout);
+        }
+        this.disposeTimeouts.clear();
+        this.pendingSends = [];
+
+        const peers = Array.from(this.peers.values());
+        this.peers.clear();
+        await Promise.all(peers.map(peer => peer.connection.disconnect()));
+
+        await this.signaling.disconnect();
+        // The files exchanged in the room are released with it
+        revokeFileUrls(this.roomId);
+        this.emitPeersChange();
+        console.log('[PeerMesh] Disconnection complete from room:', this.roomId);
+    }
+
+    /**
+     * Hands a message to the PeerConnection of its sender,
+     * creating it when a valid participant negotiates before its presence is known
+     */
+    private routeMessage(message: SignalingMessage) {
+        let peer = this.peers.get(message.sender);
+
+        if (!peer) {
+            const presence = this.signaling.getValidParticipants().find(p => p.clientId === message.sender);
+            if (!presence) {
+                console.warn(`[PeerMesh] Ignoring ${message.type} from unknown participant ${message.sender}`);
+                return;
+            }
+            peer = this.createPeer(presence.clientId, presence.role);
+        }
+
+        peer.channel.deliver(message);
+    }
+
+    /**
+     * Creates peers for new participants, schedules the disposal of absent ones
+     * and forwards the presence change to every peer
+     */
+    private syncPeers() {
+        if (!this.connected) return;
+
+        const participants = this.signaling.getValidParticipants().filter(p => p.clientId !== this.clientId);
+        const presentIds = new Set(participants.map(p => p.clientId));
+
+        for (const participant of participants) {
+            const timeout = this.disposeTimeouts.get(participant.clientId);
+            if (timeout) {
+                clearTimeout(timeout);
+                this.disposeTimeouts.delete(participant.clientId);
+            }
+
+            if (!this.peers.has(participant.clientId)) {
+                this.createPeer(participant.clientId, participant.role);
+            }
+        }
+
+        for (const remoteClientId of this.peers.keys()) {
+            if (!presentIds.has(remoteClientId) && !this.disposeTimeouts.has(remoteClientId)) {
+                this.disposeTimeouts.set(remoteClientId, setTimeout(() => {
+                    this.disposeTimeouts.delete(remoteClientId);
+                    this.disposePeer(remoteClientId);
+                }, PEER_DISPOSE_DELAY));
+            }
+        }
+
+        for (const peer of this.peers.values()) {
+            peer.channel.notifyPresence();
+        }
+    }
+
+    private createPeer(remoteClientId: string, remoteRole: Role): MeshPeer {
+        console.log(`[PeerMesh] ➕ Creating peer for ${remoteClientId} (${remoteRole})`);
+
+        const channel = new ScopedSignalingChannel(this.signaling, this.clientId, remoteClientId);
+        const connection = new PeerConnection(this.roomId, this.clientId, this.role, undefined, undefined, channel);
+        const peer: MeshPeer = { role: remoteRole, connection, channel, state: 'new', ready: false };
+        this.peers.set(remoteClientId, peer);
+
+        // Send the current local devices to the new peer
+        for (const [device, stream] of Object.entries(this._localStreams)) {
+            connection.replaceDeviceStream(stream, device as keyof StreamsByDevice);
+        }
+
+        connection.onConnectionStateChange((state) => {
+            peer.state = state;
+            this.onConnectionStateChangeCallback?.(this.getConnectionState());
+        });
+        connection.onRoomReady((isReady) => {
+            peer.ready = isReady;
+            this.onRoomReadyCallback?.(this.isRoomReady());
+        });
+        for (const type of this.forwardedEvents) {
+            this.forwardEvent(connection, type);
+        }
+        connection.onFileTransferProgress((progress) => this.onFileTransferProgressCallback?.(progress));
+
+        // Messages sent before this participant joined wait in its outbox until the data channel opens
+        for (const send of this.pendingSends.splice(0)) {
+            send(connection);
+        }
+
+        // The presence listener is installed by connect(): replay the current presence afterwards
+        connection.connect()
+            .then(() => channel.notifyPresence())
+            .catch((error) => console.error(`[PeerMesh] Error connecting peer ${remoteClientId}:`, error));
+
+        this.emitPeersChange();
+        return peer;
+    }
+
+    private async disposePeer(remoteClientId: string) {
+        const peer = this.peers.get(remoteClientId);
+        if (!peer) return;
+
+        console.log(`[PeerMesh] ➖ Removing peer ${remoteClientId} after ${PEER_DISPOSE_DELAY / 1000}s of absence`);
+        this.peers.delete(remoteClientId);
+        await peer.connection.disconnect();
+
+        this.emitPeersChange();
+        this.onConnectionStateChangeCallback?.(this.getConnectionState());
+        this.onRoomReadyCallback?.(this.isRoomReady());
+    }
+
+    private forwardEvent<K extends DataChannelEventType>(connection: PeerConnection, type: K) {
+        connection.on(type, (event) => this.events.emit(type, event));
+    }
+
+    private emitPeersChange() {
+        this.onPeersChangeCallback?.(this.getRemoteStreamsByPeer());
+    }
+
+    /**
+     * The peer shown as "the" remote participant by two-party views:
+     * the patient for the practitioner, the practitioner for everyone else
+     */
+    private getPrimaryPeer(): MeshPeer | null {
+        const peers = Array.from(this.peers.values());
+        const preferredRole = this.role === Role.PRACTITIONER ? Role.PATIENT : Role.PRACTITIONER;
+        return peers.find(peer => peer.role === preferredRole) ?? peers[0] ?? null;
+    }
+
+    private getConnectionState(): RTCPeerConnectionState {
+        const states = Array.from(this.peers.values()).map(peer => peer.state);
+        return CONNECTION_STATE_PRIORITY.find(state => states.includes(state)) ?? 'disconnected';
+    }
+
+    // Expose streams
+    get localStreams() {
+        return this._localStreams;
+    }
+
+    get remoteStreams(): { [device: string]: MediaStream } {
+        return this.getPrimaryPeer()?.connection.remoteStreams ?? {};
+    }
+
+    // Replace a local device stream on every peer (and on peers created later)
+    public replaceDeviceStream = (stream: MediaStream, device: keyof StreamsByDevice) => {
+        this._localStreams[device] = stream;
+        for (const peer of this.peers.values()) {
+            peer.connection.replaceDeviceStream(stream, device);
+        }
+    }
+
+    // Remote streams of every peer, keyed by clientId
+    getRemoteStreamsByPeer(): RemotePeerStreams {
+        const result: RemotePeerStreams = {};
+        for (const [remoteClientId, peer] of this.peers) {
+            result[remoteClientId] = { role: peer.role, streams: { ...peer.connection.remoteStreams } };
+        }
+        return result;
+    }
+
+    getPeers(): Map<string, PeerConnection> {
+        return new Map(Array.from(this.peers, ([remoteClientId, peer]) => [remoteClientId, peer.connection]));
+    }
+
+    // Negotiation state with the primary peer, null until someone else joins
+    getPerfectNegotiationState() {
+        return this.getPrimaryPeer()?.connection.getPerfectNegotiationState() ?? null;
+    }
+
+    // Send a chat message to every peer; peers whose data channel is down get it from their outbox
+    // All copies share one id, so the local store and the history keep a single message
+    sendChatMessage(content: string): boolean {
+        const id = uuidv4();
+        if (this.peers.size === 0) {
+            // Nobody to hand it to yet: shown as pending until a participant joins
+            recordOutgoingChatMessage(this.roomId, {
+                id,
+                sender: this.clientId,
+                senderRole: this.role,
+                content,
+                timestamp: Date.now(),
+                status: 'pending'
+            });
+        }
+        return this.broadcast(connection => connection.sendChatMessage(content, id), true);
+    }
+
+    // Send a file to every peer; it starts as soon as their file channel is open
+    // All copies share one id, so the chat shows a single file with the progress of each recipient
+    sendFile(file: File): boolean {
+        const id = uuidv4();
+        return this.broadcast(connection => connection.sendFile(file, id), true);
+    }
+
+    // Send read receipts to every peer: each sender only matches its own message ids
+    sendReadReceipt(ids: string[]): boolean {
+        return this.broadcast(connection => connection.sendReadReceipt(ids));
+    }
+
+    // Send the typing indicator to every peer
+    sendTyping(isTyping: boolean): boolean {
+        return this.broadcast(connection => connection.sendTyping(isTyping));
+    }
+
+    // Send a measurement to every peer, queued for peers whose data channel is down
+    sendMeasurement(payload: MeasurementPayload): boolean {
+        return this.broadcast(connection => connection.sendMeasurement(payload), true);
+    }
+
+    /**
+     * Runs a send on every peer with an open data channel, true if at least one succeeded
+     * @param queued Also run it on the other peers: the message waits in their outbox.
+     *               With no peer at all, it is kept for the next participant who joins
+     */
+    private broadcast(send: (connection: PeerConnection) => boolean, queued = false): boolean {
+        if (queued && this.peers.size === 0) {
+            this.pendingSends.push(send);
+            console.log(`[PeerMesh] 📦 No participant yet, message kept for the next one (${this.pendingSends.length} pending)`);
+            return true;
+        }
+
+        let sent = false;
+        for (const peer of this.peers.values()) {
+            if (queued || peer.connection.isDataChannelAvailable()) {
+                sent = send(peer.connection) || sent;
+            }
+        }
+        return sent;
+    }
+
+    // Update the patients admitted from the waiting room (practitioner side)
+    setAdmittedPatients(userIds: string[]) {
+        this.signaling.setAdmittedUsers(userIds);
+    }
+
+    /**
+     * Subscribe to a data channel message type or channel event (open, close, error) of every peer,
+     * including peers that join later
+     * @returns The unsubscribe function
+     */
+    on<K extends DataChannelEventType>(type: K, handler: DataChannelEventHandler<K>): () => void {
+        if (!this.forwardedEvents.has(type)) {
+            this.forwardedEvents.add(type);
+            for (const peer of this.peers.values()) {
+                this.forwardEvent(peer.connection, type);
+            }
+        }
+        return this.events.on(type, handler);
+    }
+
+    off<K extends DataChannelEventType>(type: K, handler: DataChannelEventHandler<K>) {
+        this.events.off(type, handler);
+    }
+
+    onChatMessage(callback: (message: ChatMessage) => void): () => void {
+        return this.on('chat', (message) => callback(toChatMessage(message)));
+    }
+
+    onMeasurement(callback: (payload: MeasurementPayload) => void): () => void {
+        return this.on('measurement', (message) => callback(toMeasurementPayload(message)));
+    }
+
+    // Progress of the file transfers with every peer
+    onFileTransferProgress(callback: (progress: FileTransferProgress) => void) {
+        this.onFileTransferProgressCallback = callback;
+    }
+
+    onRoomReady(callback: (isReady: boolean) => void) {
+        this.onRoomReadyCallback = callback;
+    }
+
+    onConnectionStateChange(callback: (state: RTCPeerConnectionState) => void) {
+        this.onConnectionStateChangeCallback = callback;
+    }
+
+    // Called whenever a peer is added or removed
+    onPeersChange(callback: (peers: RemotePeerStreams) => void) {
+        this.onPeersChangeCallback = callback;
+    }
+
+    // True as soon as one peer can be reached
+    isDataChannelAvailable(): boolean {
+        return Array.from(this.peers.values()).some(peer => peer.connection.isDataChannelAvailable());
+    }
+
+    // Short authentication strings of the end-to-end encrypted links, to be compared with each participant
+    getVerifications(): E2EVerification[] {
+        return Array.from(this.peers.values()).flatMap(peer => peer.connection.getVerification() ?? []);
+    }
+
+    isRoomReady(): boolean {
+        return Array.from(this.peers.values()).some(peer => peer.ready);
+    }
+
+    isConnected(): boolean {
+        return Array.from(this.peers.values()).some(peer => peer.connection.isConnected());
+    }
+
+    getRoomId(): string {
+        return this.roomId;
+    }
+
+    getRole(): Role {
+        return this.role;
+    }
+}
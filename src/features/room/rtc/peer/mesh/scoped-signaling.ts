@@ -0,0 +1,97 @@
+/**
+ * Peer-Scoped Signaling Channel
+ *
+ * View of the room-wide SignalingService restricted to one remote peer.
+ * Outgoing messages are targeted at that peer through the `receiver` field,
+ * only its messages are delivered, and the participant list only contains
+ * the local client and that peer. This lets each PeerConnection of a mesh
+ * keep the two-party Perfect Negotiation logic unchanged.
+ */
+import type { SignalingChannel, SignalingMessage, SignalingService, UserPresence } from '../../signaling';
+
+export class ScopedSignalingChannel implements SignalingChannel {
+    private root: SignalingService;
+    private clientId: string;
+    public readonly remoteClientId: string;
+    private messageCallback: ((message: SignalingMessage) => void) | null = null;
+    private presenceCallback: ((presences: UserPresence[]) => void) | null = null;
+
+    /**
+     * @param root Room-wide signaling service owned by the mesh
+     * @param clientId Local client ID
+     * @param remoteClientId Client ID of the peer this channel talks to
+     */
+    constructor(root: SignalingService, clientId: string, remoteClientId: string) {
+        this.root = root;
+        this.clientId = clientId;
+        this.remoteClientId = remoteClientId;
+    }
+
+    /**
+     * The mesh connects the room-wide service: nothing to do per peer
+     */
+    async connect() { }
+
+    /**
+     * The mesh disconnects the room-wide service: only drop the callbacks
+     */
+    async disconnect() {
+        this.messageCallback = null;
+        this.presenceCallback = null;
+    }
+
+    sendMessage(message: Omit<SignalingMessage, 'sender'>) {
+        return this.root.sendMessage({ ...message, receiver: this.remoteClientId });
+    }
+
+    onMessage(callback: (message: SignalingMessage) => void) {
+        this.messageCallback = callback;
+    }
+
+    onPresenceChange(callback: (presences: UserPresence[]) => void) {
+        this.presenceCallback = callback;
+    }
+
+    getRoomPresences(): UserPresence[] {
+        return this.root.getRoomPresences().filter(p => this.isInPair(p));
+    }
+
+    getValidParticipants(): UserPresence[] {
+        return this.root.getValidParticipants().filter(p => this.isInPair(p));
+    }
+
+    getUserId(clientId: string): string | undefined {
+        return this.root.getUserId(clientId);
+    }
+
+    /**
+     * Two-party readiness check kept under its historical name:
+     * true when both the local client and the remote peer are present
+     */
+    hasPatientAndPractitioner(): boolean {
+        return this.getValidParticipants().length === 2;
+    }
+
+    setAdmittedUsers(userIds: string[]) {
+        this.root.setAdmittedUsers(userIds);
+    }
+
+    /**
+     * Called by the mesh for each message sent by the remote peer
+     */
+    deliver(message: SignalingMessage) {
+        if (message.sender !== this.remoteClientId) return;
+        this.messageCallback?.(message);
+    }
+
+    /**
+     * Called by the mesh when the room presence changes
+     */
+    notifyPresence() {
+        this.presenceCallback?.(this.getRoomPresences());
+    }
+
+    private isInPair(presence: UserPresence): boolean {
+        return presence.clientId === this.clientId || presence.clientId === this.remoteClientId;
+    }
+}
@@ -11,7 +11,10 @@
  */
 export enum Role {
     PATIENT = 'patient',
-    PRACTITIONER = 'practitioner'
+    PRACTITIONER = 'practitioner',
+    SPECIALIST = 'specialist',      // Second practitioner giving an opinion
+    INTERPRETER = 'interpreter',
+    CAREGIVER = 'caregiver'         // Family member or caregiver assisting the patient
 }
 
 /**
@@ -32,24 +35,214 @@ export interface NegotiationState {
 }
 
 /**
- * Interface for general DataChannel messages
+ * Payload of each DataChannel message type
+ * The JSON Schema of every payload, and the protocol version that introduced it,
+ * are registered in data-channel/protocol.ts
  */
-export interface DataChannelMessage {
-    type: string;       // Message type identifier
-    payload: any;       // The actual message content
-    sender: string;     // ID of the message sender
-    senderRole: Role;   // Role of the message sender
-    timestamp: number;  // When the message was sent
+export interface DataChannelPayloads {
+    hello: HelloPayload;                        // Protocol version negotiation, sent when the channel opens
+    chat: ChatPayload | string;                 // Protocol v1 clients send the bare content string
+    chat_ack: ChatAckPayload;                   // Sent back as soon as a chat message is received
+    chat_read: ChatReadPayload;                 // Sent once received messages have been displayed
+    typing: TypingPayload;                      // Sent while the user is composing a message
+    measurement: MeasurementPayload | LegacyMeasurementPayload; // Protocol v1-v3 clients send values keyed by display labels
+    channel_closing: ChannelClosingPayload;     // Graceful shutdown notice
+    key_commit: KeyCommitPayload;               // Hash of the end-to-end public key, sent before revealing it
+    key_exchange: KeyExchangePayload;           // End-to-end public key, revealed once the remote commitment is received
+    encrypted: EncryptedPayload;                // Chat or measurement message encrypted end to end
+}
+
+export type DataChannelMessageType = keyof DataChannelPayloads;
+
+/**
+ * DataChannel message, discriminated by its type
+ */
+export type DataChannelMessage<T extends DataChannelMessageType = DataChannelMessageType> = {
+    [K in T]: {
+        id: string;         // Unique message ID, used to drop duplicates (absent from protocol v1 clients)
+        type: K;            // Message type identifier
+        payload: DataChannelPayloads[K]; // The actual message content
+        sender: string;     // ID of the message sender
+        senderRole: Role;   // Role of the message sender
+        timestamp: number;  // When the message was sent
+    }
+}[T];
+
+export interface HelloPayload {
+    version: number;        // Highest protocol version spoken by the sender
+    minVersion: number;     // Lowest protocol version the sender still accepts
+}
+
+export interface ChannelClosingPayload {
+    reason: string;
+}
+
+/**
+ * DataChannel payloads of the end-to-end key agreement (ECDH P-256, base64 encoded)
+ */
+export interface KeyCommitPayload {
+    commitment: string; // SHA-256 of the public key
+}
+
+export interface KeyExchangePayload {
+    publicKey: string;  // Raw public key
+}
+
+/**
+ * AES-GCM encrypted `{ type, payload }` of a message; the other fields of
+ * the envelope (id, sender, timestamp) are authenticated as associated data
+ */
+export interface EncryptedPayload {
+    iv: string;         // 96-bit initialization vector, base64 encoded
+    data: string;       // Ciphertext and authentication tag, base64 encoded
 }
 
+/**
+ * Short authentication string of an end-to-end encrypted link,
+ * compared verbally by both participants to rule out a man-in-the-middle
+ */
+export interface E2EVerification {
+    peer: string;           // Remote client ID
+    peerRole: Role;         // Role of the remote client
+    sas: string | null;     // Null once the link is no longer encrypted (channel closed)
+}
+
+/**
+ * Delivery status of an outgoing chat message, in increasing order
+ * ('pending' while it waits in the outbox for the data channel to reopen)
+ */
+export type ChatMessageStatus = 'pending' | 'sent' | 'delivered' | 'read';
+
 /**
  * Interface for chat-specific messages
  */
 export interface ChatMessage {
+    id: string;         // Unique message ID, generated by the sender (used for deduplication)
     sender: string;     // ID of the message sender
     senderRole: Role;   // Role of the message sender
     content: string;    // Chat message text content
     timestamp: number;  // When the message was sent
+    status?: ChatMessageStatus; // Own messages only: updated by chat_ack and chat_read
+}
+
+/**
+ * DataChannel payloads of the chat messages
+ */
+export interface ChatPayload {
+    id: string;
+    content: string;
+}
+
+export interface ChatAckPayload {
+    id: string;         // ID of the received chat message
+}
+
+export interface ChatReadPayload {
+    ids: string[];      // IDs of the chat messages displayed to the reader
+}
+
+export interface TypingPayload {
+    isTyping: boolean;
+}
+
+/**
+ * Machine key of a measured quantity
+ */
+export type MeasurementKey =
+    | 'systolic'            // Systolic blood pressure
+    | 'diastolic'           // Diastolic blood pressure
+    | 'pulse_rate'
+    | 'body_temperature'
+    | 'oxygen_saturation'   // SpO2
+    | 'perfusion_index'     // Pulse amplitude index of the pulse oximeter
+    | 'body_weight'
+    | 'body_height'
+    | 'bmi'
+    | 'blood_glucose';
+
+/**
+ * One value read from a Bluetooth medical device
+ * Display labels and formatting are left to the UI
+ */
+export interface Measurement {
+    key: MeasurementKey;
+    value: number;
+    unit: string;           // UCUM code (mm[Hg], /min, Cel, %, kg, mg/dL...)
+    timestamp: number;      // When the value was measured (device clock when reported, otherwise reception time)
+    deviceId: string;       // Bluetooth device ID
+    deviceName?: string;    // Name advertised by the device
+    service: string;        // Source GATT service (blood_pressure, health_thermometer, pulse_oximeter...)
+    sequenceNumber?: number; // Record number in the device memory (glucose meters)
+}
+
+/**
+ * DataChannel payload of the values read together from a device
+ */
+export interface MeasurementPayload {
+    measurements: Measurement[];
+}
+
+/**
+ * Measurement payload of protocol v1-v3 clients: values as strings keyed by
+ * French display labels (with the unit), under the service name
+ * e.g. { blood_pressure: { "Systolique (mmHg)": "120.0", "Date de la mesure": "..." } }
+ */
+export type LegacyMeasurementPayload = Record<string, Record<string, string | number>>;
+
+/**
+ * State of a file transfer on one link (local client to one remote client)
+ */
+export type FileTransferStatus = 'pending' | 'transferring' | 'paused' | 'complete' | 'failed';
+
+/**
+ * Description of a file, sent on the file channel before its chunks
+ */
+export interface FileOfferPayload {
+    id: string;         // Transfer ID, also used in the header of every chunk
+    name: string;
+    mimeType: string;
+    size: number;       // Size in bytes
+    chunkSize: number;  // Size of every chunk but the last one
+    sender: string;     // ID of the sender
+    senderRole: Role;   // Role of the sender
+    timestamp: number;  // When the transfer was started
+}
+
+/**
+ * Control frames of the file channel, sent as JSON next to the binary chunks
+ */
+export type FileControlMessage =
+    | { type: 'file_offer'; offer: FileOfferPayload }
+    | { type: 'file_accept'; id: string; offset: number }   // Bytes already received: sending resumes from there
+    | { type: 'file_received'; id: string }
+    | { type: 'file_reject'; id: string; reason: string };
+
+/**
+ * Progress event of a file transfer
+ */
+export interface FileTransferProgress {
+    id: string;
+    peer: string;       // Remote client ID of the link
+    direction: 'incoming' | 'outgoing';
+    transferredBytes: number;
+    size: number;
+    status: FileTransferStatus;
+}
+
+/**
+ * File transfer as shown in the chat (serializable, stored in Redux)
+ */
+export interface FileTransferInfo {
+    id: string;
+    name: string;
+    mimeType: string;
+    size: number;
+    direction: 'incoming' | 'outgoing';
+    sender: string;
+    senderRole: Role;
+    timestamp: number;
+    url?: string;       // Object URL of the file, once available locally
+    links: Record<string, { transferredBytes: number; status: FileTransferStatus }>; // Progress by remote client ID
 }
 
 /**
@@ -90,6 +283,14 @@ export type MediaStreamList = {
     [id: string]: MediaStream | null;
 };
 
+// Remote streams grouped by remote peer (multi-party consultations)
+export type RemotePeerStreams = {
+    [clientId: string]: {
+        role: Role;
+        streams: { [device: string]: MediaStream };
+    };
+};
+
 export type VideoDevicesType = MediaDeviceInfo[];
 
 export type ExtendedSessionDescription = RTCSessionDescription
@@ -8,7 +8,7 @@
  * by assigning asymmetric roles to peers that are independent of business logic.
  */
 
-import { SignalingService, SignalingMessage } from '../../signaling';
+import { SignalingChannel, SignalingMessage } from '../../signaling';
 import { Role, NegotiationRole, NegotiationState } from '../models/types';
 
 // Debug logging control - set to false in production
@@ -45,7 +45,7 @@ const debugError = (message: string, ...args: any[]) => {
 
 export class PerfectNegotiation {
     private pc: RTCPeerConnection;
-    private signaling: SignalingService;
+    private signaling: SignalingChannel;
     private roomId: string;
     private clientId: string;
     private role: Role;
@@ -68,7 +68,7 @@ export class PerfectNegotiation {
 
     constructor(
         pc: RTCPeerConnection,
-        signaling: SignalingService,
+        signaling: SignalingChannel,
         roomId: string,
         clientId: string,
         role: Role,
@@ -379,17 +379,15 @@ export class PerfectNegotiation {
         if (bothPresent && isDisconnected) {
             debugLog('[PerfectNegotiation] 🔄 Both present but disconnected - checking if we should reconnect');
 
-            setTimeout(() => {
-                // Double-check connection state after role reevaluation
-                if (this.pc.connectionState !== 'connected' && this.pc.connectionState !== 'connecting') {
-                    if (!this.negotiationRole.isPolite) {
-                        debugLog('[PerfectNegotiation] 🚀 Impolite peer triggering reconnection due to presence change');
-                        this.triggerReconnection();
-                    } else {
-                        debugLog('[PerfectNegotiation] 🤝 Polite peer waiting for impolite to reconnect');
-                    }
+            // No settle delay needed: signaling is acknowledged and replayed on rejoin
+            if (this.pc.connectionState !== 'connected' && this.pc.connectionState !== 'connecting') {
+                if (!this.negotiationRole.isPolite) {
+                    debugLog('[PerfectNegotiation] 🚀 Impolite peer triggering reconnection due to presence change');
+                    this.triggerReconnection();
+                } else {
+                    debugLog('[PerfectNegotiation] 🤝 Polite peer waiting for impolite to reconnect');
                 }
-            }, 500); // Small delay after role reevaluation
+            }
         }
     }
 
@@ -468,16 +466,14 @@ export class PerfectNegotiation {
             this.reevaluateRoleIfNeeded();
 
             // Then, trigger reconnection if we're impolite
-            setTimeout(() => {
-                if (!this.negotiationRole.isPolite && this.pc.connectionState !== 'connected') {
-                    debugLog('[PerfectNegotiation] 🚀 Impolite peer initiating reconnection after role reevaluation');
-                    this.triggerReconnection();
-                } else if (this.negotiationRole.isPolite) {
-                    debugLog('[PerfectNegotiation] 🤝 Polite peer waiting for impolite peer to reconnect');
-                } else {
-                    debugLog('[PerfectNegotiation] ✅ Connection recovered during role reevaluation');
-                }
-            }, 1000); // Small delay after role reevaluation
+            if (!this.negotiationRole.isPolite && this.pc.connectionState !== 'connected') {
+                debugLog('[PerfectNegotiation] 🚀 Impolite peer initiating reconnection after role reevaluation');
+                this.triggerReconnection();
+            } else if (this.negotiationRole.isPolite) {
+                debugLog('[PerfectNegotiation] 🤝 Polite peer waiting for impolite peer to reconnect');
+            } else {
+                debugLog('[PerfectNegotiation] ✅ Connection recovered during role reevaluation');
+            }
         }
     }
 
@@ -535,10 +531,8 @@ export class PerfectNegotiation {
         if (newRole === 'impolite') {
             debugLog('[PerfectNegotiation] 🚀 New impolite peer - will initiate connection');
 
-            // Small delay to let things settle, then trigger connection
-            setTimeout(() => {
-                this.checkInitialConnectionTrigger();
-            }, 500);
+            // Offers sent before the other peer is listening are replayed by the signaling layer
+            this.checkInitialConnectionTrigger();
         }
     }
 
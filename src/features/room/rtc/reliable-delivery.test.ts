@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReliableDelivery } from './reliable-delivery';
+import type { SignalingMessage } from './signaling';
+
+const message = (type: SignalingMessage['type'], receiver: string): SignalingMessage => ({
+    type,
+    roomId: 'room',
+    sender: 'local',
+    receiver
+});
+
+describe('ReliableDelivery', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('keeps the negotiation with one peer pending when an offer is sent to another peer', async () => {
+        const sent: SignalingMessage[] = [];
+        const delivery = new ReliableDelivery(async (stamped) => {
+            sent.push(stamped);
+        });
+
+        const offerToA = delivery.send(message('offer', 'peer-a'), ['peer-a']);
+        const candidateToA = delivery.send(message('ice-candidate', 'peer-a'), ['peer-a']);
+        delivery.send(message('offer', 'peer-b'), ['peer-b']);
+
+        // Peer A acknowledges both of its messages after the offer to peer B went out
+        sent.filter(stamped => stamped.receiver === 'peer-a').forEach(stamped => {
+            delivery.handleAck({ ...delivery.createAck(stamped), sender: 'peer-a', sessionId: delivery.sessionId });
+        });
+
+        await expect(offerToA).resolves.toBe(true);
+        await expect(candidateToA).resolves.toBe(true);
+    });
+
+    it('supersedes the pending messages of a peer when a new offer is sent to it', async () => {
+        const delivery = new ReliableDelivery(async () => {});
+
+        const firstOffer = delivery.send(message('offer', 'peer-a'), ['peer-a']);
+        const otherPeer = delivery.send(message('offer', 'peer-b'), ['peer-b']);
+        delivery.send(message('offer', 'peer-a'), ['peer-a']);
+
+        await expect(firstOffer).resolves.toBe(false);
+
+        // The negotiation with peer B is still retransmitted, not released
+        const settled = vi.fn();
+        otherPeer.then(settled);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(settled).not.toHaveBeenCalled();
+
+        delivery.reset();
+    });
+});
@@ -0,0 +1,261 @@
+/**
+ * Reliable Signaling Delivery
+ *
+ * Adds acknowledgements on top of the fire-and-forget signaling transports.
+ * Every outgoing message gets a per-session sequence number and is kept in a
+ * bounded replay buffer. Receivers acknowledge each sequence number and drop
+ * duplicates; senders retransmit with exponential backoff until every
+ * expected recipient acknowledged, and replay what a peer missed when it
+ * (re)appears in the room presence.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import type { SignalingMessage } from './signaling';
+
+/**
+ * Tuning knobs for retransmission and buffering
+ */
+export interface DeliveryOptions {
+    maxAttempts: number;        // Transmissions per delivery round before giving up
+    baseRetryDelay: number;     // Delay before the first retransmission, in ms
+    maxRetryDelay: number;      // Upper bound of the backoff delay, in ms
+    replayBufferSize: number;   // Number of sent messages kept for replay
+    dedupWindow: number;        // Number of received message ids remembered for deduplication
+}
+
+export const DEFAULT_DELIVERY_OPTIONS: DeliveryOptions = {
+    maxAttempts: 5,
+    baseRetryDelay: 500,
+    maxRetryDelay: 8000,
+    replayBufferSize: 64,
+    dedupWindow: 512
+};
+
+/**
+ * A sent message waiting for (or already granted) acknowledgements
+ */
+interface OutboundEntry {
+    message: SignalingMessage;
+    ackedBy: Set<string>;       // Clients that acknowledged the message at least once
+    pending: Set<string>;       // Clients expected to acknowledge in the current round
+    attempts: number;
+    timer: ReturnType<typeof setTimeout> | null;
+    settle: ((delivered: boolean) => void) | null;
+}
+
+export class ReliableDelivery {
+    public readonly sessionId = uuidv4();
+    private transmit: (message: SignalingMessage) => Promise<void>;
+    private options: DeliveryOptions;
+    private nextSeq = 0;
+    private buffer: OutboundEntry[] = [];
+    private seenIds = new Set<string>();
+    private seenOrder: string[] = [];
+
+    /**
+     * @param transmit Function putting a message on the wire (no reliability)
+     * @param options Retransmission and buffering settings
+     */
+    constructor(transmit: (message: SignalingMessage) => Promise<void>, options: Partial<DeliveryOptions> = {}) {
+        this.transmit = transmit;
+        this.options = { ...DEFAULT_DELIVERY_OPTIONS, ...options };
+    }
+
+    /**
+     * Sends a message and resolves once every recipient acknowledged it
+     * @param message Complete message (sender included) without sequence number
+     * @param recipients Client IDs expected to acknowledge
+     * @returns true when all recipients acknowledged, false if there was nobody
+     *          to deliver to, retries were exhausted or the message was superseded
+     */
+    send(message: SignalingMessage, recipients: string[]): Promise<boolean> {
+        const stamped: SignalingMessage = {
+            ...message,
+            seq: ++this.nextSeq,
+            sessionId: this.sessionId
+        };
+
+        // A new description starts a new negotiation with its receiver: older offers,
+        // answers and candidates for that peer must never be replayed after it.
+        // Messages for other peers of the mesh belong to their own negotiation.
+        if (stamped.type === 'offer' || stamped.type === 'answer') {
+            const superseded = (entry: OutboundEntry) =>
+                !stamped.receiver || entry.message.receiver === stamped.receiver;
+            this.buffer.filter(superseded).forEach(entry => this.release(entry, false));
+            this.buffer = this.buffer.filter(entry => !superseded(entry));
+        }
+
+        return new Promise<boolean>((resolve) => {
+            const entry: OutboundEntry = {
+                message: stamped,
+                ackedBy: new Set(),
+                pending: new Set(recipients),
+                attempts: 0,
+                timer: null,
+                settle: resolve
+            };
+
+            this.buffer.push(entry);
+            while (this.buffer.length > this.options.replayBufferSize) {
+                this.release(this.buffer.shift()!, false);
+            }
+
+            if (entry.pending.size === 0) {
+                // Nobody to deliver to yet: keep the message for replay on join
+                console.log(`[Signaling] 📦 No recipient for ${stamped.type} #${stamped.seq}, buffered for replay`);
+                this.transmitOnce(entry);
+                this.release(entry, false);
+                return;
+            }
+
+            this.attempt(entry);
+        });
+    }
+
+    /**
+     * Records an acknowledgement received from a peer
+     */
+    handleAck(ack: SignalingMessage) {
+        if (ack.sessionId !== this.sessionId) return;
+
+        const entry = this.buffer.find(e => e.message.seq === ack.ack);
+        if (!entry) return;
+
+        entry.ackedBy.add(ack.sender);
+        entry.pending.delete(ack.sender);
+
+        if (entry.pending.size === 0 && entry.settle) {
+            console.log(`[Signaling] ✅ ${entry.message.type} #${entry.message.seq} acknowledged`);
+            this.release(entry, true);
+        }
+    }
+
+    /**
+     * Registers an incoming message for deduplication
+     * @returns false if the message was already received
+     */
+    accept(message: SignalingMessage): boolean {
+        if (message.seq === undefined) return true;
+
+        const id = `${message.sender}:${message.sessionId}:${message.seq}`;
+        if (this.seenIds.has(id)) {
+            return false;
+        }
+
+        this.seenIds.add(id);
+        this.seenOrder.push(id);
+        while (this.seenOrder.length > this.options.dedupWindow) {
+            this.seenIds.delete(this.seenOrder.shift()!);
+        }
+        return true;
+    }
+
+    /**
+     * Builds the acknowledgement of an incoming message
+     */
+    createAck(message: SignalingMessage): Omit<SignalingMessage, 'sender'> {
+        return {
+            type: 'ack',
+            roomId: message.roomId,
+            receiver: message.sender,
+            ack: message.seq,
+            sessionId: message.sessionId
+        };
+    }
+
+    /**
+     * Re-sends every buffered message a (re)joining peer has not acknowledged yet
+     */
+    replayTo(clientId: string) {
+        const missed = this.buffer.filter(entry =>
+            !entry.ackedBy.has(clientId) &&
+            (!entry.message.receiver || entry.message.receiver === clientId)
+        );
+        if (missed.length === 0) return;
+
+        console.log(`[Signaling] 🔁 Replaying ${missed.length} message(s) to ${clientId}`);
+        missed.forEach(entry => {
+            entry.pending.add(clientId);
+            if (!entry.timer) {
+                entry.attempts = 0;
+                this.attempt(entry);
+            }
+        });
+    }
+
+    /**
+     * Stops waiting for a client that left the room
+     * Messages stay buffered and will be replayed if it comes back
+     */
+    forgetRecipient(clientId: string) {
+        this.buffer.forEach(entry => {
+            if (entry.pending.delete(clientId) && entry.pending.size === 0) {
+                this.clearTimer(entry);
+                if (entry.settle) {
+                    this.release(entry, false);
+                }
+            }
+        });
+    }
+
+    /**
+     * Cancels every retransmission and clears all state
+     */
+    reset() {
+        this.buffer.forEach(entry => this.release(entry, false));
+        this.buffer = [];
+        this.seenIds.clear();
+        this.seenOrder = [];
+    }
+
+    private attempt(entry: OutboundEntry) {
+        if (entry.pending.size === 0) {
+            this.clearTimer(entry);
+            return;
+        }
+
+        if (entry.attempts >= this.options.maxAttempts) {
+            console.warn(`[Signaling] ⚠️ ${entry.message.type} #${entry.message.seq} not acknowledged by ${[...entry.pending].join(', ')} after ${entry.attempts} attempts`);
+            entry.pending.clear();
+            this.clearTimer(entry);
+            this.release(entry, false);
+            return;
+        }
+
+        if (entry.attempts > 0) {
+            console.log(`[Signaling] 🔄 Retransmitting ${entry.message.type} #${entry.message.seq} (attempt ${entry.attempts + 1})`);
+        }
+
+        this.transmitOnce(entry);
+
+        const delay = Math.min(this.options.baseRetryDelay * 2 ** entry.attempts, this.options.maxRetryDelay);
+        entry.attempts++;
+        entry.timer = setTimeout(() => {
+            entry.timer = null;
+            this.attempt(entry);
+        }, delay);
+    }
+
+    private transmitOnce(entry: OutboundEntry) {
+        this.transmit(entry.message).catch(error => {
+            console.warn(`[Signaling] ⚠️ Transport failed to send ${entry.message.type} #${entry.message.seq}:`, error);
+        });
+    }
+
+    private clearTimer(entry: OutboundEntry) {
+        if (entry.timer) {
+            clearTimeout(entry.timer);
+            entry.timer = null;
+        }
+    }
+
+    /**
+     * Resolves the sender's promise (once) and stops retransmissions
+     */
+    private release(entry: OutboundEntry, delivered: boolean) {
+        this.clearTimer(entry);
+        if (entry.settle) {
+            entry.settle(delivered);
+            entry.settle = null;
+        }
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * Signaling Crypto Helpers
+ *
+ * Thin wrappers around WebCrypto to generate a per-session ECDSA P-256 key
+ * pair, sign signaling payloads and verify them with a public JWK.
+ */
+
+const SIGNING_ALGORITHM: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+/**
+ * Serializes a value to JSON with object keys sorted, so that the sender and
+ * the receiver sign/verify exactly the same bytes regardless of key order
+ */
+export function canonicalize(value: unknown): string {
+    return JSON.stringify(value, (_key, current) => {
+        if (current && typeof current === 'object' && !Array.isArray(current)) {
+            return Object.keys(current).sort().reduce<Record<string, unknown>>((sorted, key) => {
+                sorted[key] = current[key];
+                return sorted;
+            }, {});
+        }
+        return current;
+    });
+}
+
+const toBase64 = (buffer: ArrayBuffer) =>
+    btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+const fromBase64 = (value: string) =>
+    Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+/**
+ * Generates a non-extractable signing key pair for the current session
+ * @returns The key pair and its public key exported as JWK
+ */
+export async function generateSigningKeys(): Promise<{ keys: CryptoKeyPair; publicJwk: JsonWebKey }> {
+    const keys = await crypto.subtle.generateKey(SIGNING_ALGORITHM, false, ['sign', 'verify']);
+    const publicJwk = await crypto.subtle.exportKey('jwk', keys.publicKey);
+    return { keys, publicJwk };
+}
+
+/**
+ * Signs the canonical form of a payload
+ * @returns Base64 encoded signature
+ */
+export async function signPayload(privateKey: CryptoKey, payload: unknown): Promise<string> {
+    const data = new TextEncoder().encode(canonicalize(payload));
+    const signature = await crypto.subtle.sign(SIGNATURE_PARAMS, privateKey, data);
+    return toBase64(signature);
+}
+
+/**
+ * Verifies a base64 signature of a payload against a public JWK
+ */
+export async function verifyPayload(publicJwk: JsonWebKey, payload: unknown, signature: string): Promise<boolean> {
+    try {
+        const publicKey = await crypto.subtle.importKey('jwk', publicJwk, SIGNING_ALGORITHM, false, ['verify']);
+        const data = new TextEncoder().encode(canonicalize(payload));
+        return await crypto.subtle.verify(SIGNATURE_PARAMS, publicKey, fromBase64(signature), data);
+    } catch (error) {
+        console.warn('[Security] ⚠️ Signature verification error:', error);
+        return false;
+    }
+}
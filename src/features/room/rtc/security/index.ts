@@ -0,0 +1,10 @@
+/**
+ * Signaling Security Module Entry Point
+ *
+ * Exports the authenticator contract, the Supabase-backed implementation and
+ * the key registry service.
+ */
+export type { SignalingAuthenticator } from './types';
+export { SupabaseSignalingAuthenticator } from './supabase-authenticator';
+export { SignalingKeyRegistry } from './key-registry';
+export type { SignalingKey } from './key-registry';
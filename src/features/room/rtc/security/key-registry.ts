@@ -0,0 +1,78 @@
+/**
+ * Signaling Key Registry
+ *
+ * Service layer for the `signaling_keys` table, which maps the client id used
+ * in a room to the authenticated Supabase user owning it and the public key
+ * that signs its signaling traffic. Row level security guarantees that a key
+ * can only be registered for the caller's own user id and profile role
+ * (see supabase/migrations).
+ */
+import { supabase } from '@/lib/supabaseClient';
+import type { Role } from '../peer';
+
+export interface SignalingKey {
+    room_id: string;
+    client_id: string;
+    user_id: string;
+    role: Role;
+    public_key: JsonWebKey;
+}
+
+export class SignalingKeyRegistry {
+    /**
+     * Returns the id of the authenticated user, or null when signed out
+     */
+    static async getCurrentUserId(): Promise<string | null> {
+        const { data, error } = await supabase.auth.getUser();
+        if (error || !data.user) {
+            console.error('[Security] ❌ No authenticated user:', error);
+            return null;
+        }
+        return data.user.id;
+    }
+
+    /**
+     * Registers the public key of a client for a room
+     * @returns The stored key or null if the registration was refused
+     */
+    static async registerKey(roomId: string, clientId: string, userId: string, role: Role, publicKey: JsonWebKey): Promise<SignalingKey | null> {
+        const { data, error } = await supabase
+            .from('signaling_keys')
+            .upsert({
+                room_id: roomId,
+                client_id: clientId,
+                user_id: userId,
+                role,
+                public_key: publicKey
+            }, { onConflict: 'room_id,client_id' })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('[Security] ❌ Error registering signaling key:', error);
+            return null;
+        }
+
+        return data;
+    }
+
+    /**
+     * Gets the key registered for a client of a room
+     * @returns The key or null if the client never registered one
+     */
+    static async getKey(roomId: string, clientId: string): Promise<SignalingKey | null> {
+        const { data, error } = await supabase
+            .from('signaling_keys')
+            .select('*')
+            .eq('room_id', roomId)
+            .eq('client_id', clientId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('[Security] ❌ Error getting signaling key:', error);
+            return null;
+        }
+
+        return data;
+    }
+}
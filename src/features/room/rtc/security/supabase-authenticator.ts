@@ -0,0 +1,115 @@
+/**
+ * Supabase Signaling Authenticator
+ *
+ * Binds signaling to Supabase Auth: each session generates an ECDSA key pair,
+ * registers its public key in `signaling_keys` under the authenticated user
+ * and signs every message and presence entry with it. Received data is only
+ * accepted when its signature matches the key registered for the sender's
+ * client id in the room, and when the claimed user id and role match that
+ * registration.
+ */
+import type { SignalingMessage, UserPresence } from '../signaling';
+import type { SignalingAuthenticator } from './types';
+import { generateSigningKeys, signPayload, verifyPayload } from './crypto';
+import { SignalingKeyRegistry, type SignalingKey } from './key-registry';
+
+export class SupabaseSignalingAuthenticator implements SignalingAuthenticator {
+    private roomId: string | null = null;
+    private userId: string | null = null;
+    private privateKey: CryptoKey | null = null;
+    private peerKeys = new Map<string, Promise<SignalingKey | null>>();
+
+    async init(roomId: string, presence: UserPresence) {
+        const userId = await SignalingKeyRegistry.getCurrentUserId();
+        if (!userId) {
+            throw new Error('Signaling requires an authenticated user');
+        }
+
+        const { keys, publicJwk } = await generateSigningKeys();
+        const registered = await SignalingKeyRegistry.registerKey(roomId, presence.clientId, userId, presence.role, publicJwk);
+        if (!registered) {
+            throw new Error(`Not authorised to join room ${roomId} as ${presence.role}`);
+        }
+
+        this.roomId = roomId;
+        this.userId = userId;
+        this.privateKey = keys.privateKey;
+        this.peerKeys.clear();
+        console.log(`[Security] 🔐 Signaling key registered for client ${presence.clientId}`);
+    }
+
+    async signMessage(message: SignalingMessage): Promise<SignalingMessage> {
+        const unsigned = { ...message, userId: this.requireUserId(), signature: undefined };
+        return { ...unsigned, signature: await signPayload(this.requirePrivateKey(), unsigned) };
+    }
+
+    async signPresence(presence: UserPresence): Promise<UserPresence> {
+        const unsigned = { ...presence, userId: this.requireUserId(), signature: undefined };
+        return { ...unsigned, signature: await signPayload(this.requirePrivateKey(), unsigned) };
+    }
+
+    async verifyMessage(message: SignalingMessage): Promise<boolean> {
+        return this.verifyWithPeerKey(message.sender, async (key) =>
+            !!message.signature && message.userId === key.user_id
+            && verifyPayload(key.public_key, { ...message, signature: undefined }, message.signature)
+        );
+    }
+
+    async verifyPresence(presence: UserPresence): Promise<boolean> {
+        return this.verifyWithPeerKey(presence.clientId, async (key) =>
+            !!presence.signature && presence.userId === key.user_id && presence.role === key.role
+            && verifyPayload(key.public_key, { ...presence, signature: undefined }, presence.signature)
+        );
+    }
+
+    reset() {
+        this.roomId = null;
+        this.userId = null;
+        this.privateKey = null;
+        this.peerKeys.clear();
+    }
+
+    /**
+     * Runs a check against the key registered for a peer
+     * A cached key that fails is refetched once, as the peer may have
+     * re-registered a new key after reloading with the same client id
+     */
+    private async verifyWithPeerKey(clientId: string, check: (key: SignalingKey) => Promise<boolean>): Promise<boolean> {
+        if (!this.roomId) return false;
+
+        const wasCached = this.peerKeys.has(clientId);
+        const key = await this.getPeerKey(clientId);
+        if (key && await check(key)) return true;
+        if (!wasCached) return false;
+
+        this.peerKeys.delete(clientId);
+        const freshKey = await this.getPeerKey(clientId);
+        return !!freshKey && await check(freshKey);
+    }
+
+    /**
+     * Fetches (once) the key registered for a peer
+     * Misses are not cached so a peer registering late is picked up
+     */
+    private getPeerKey(clientId: string): Promise<SignalingKey | null> {
+        let key = this.peerKeys.get(clientId);
+        if (!key) {
+            key = SignalingKeyRegistry.getKey(this.roomId!, clientId).then(result => {
+                if (!result) this.peerKeys.delete(clientId);
+                return result;
+            });
+            this.peerKeys.set(clientId, key);
+        }
+        return key;
+    }
+
+    private requireUserId(): string {
+        if (!this.userId) throw new Error('Signaling authenticator is not initialised');
+        return this.userId;
+    }
+
+    private requirePrivateKey(): CryptoKey {
+        if (!this.privateKey) throw new Error('Signaling authenticator is not initialised');
+        return this.privateKey;
+    }
+}
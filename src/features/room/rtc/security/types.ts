@@ -0,0 +1,46 @@
+/**
+ * Signaling Security Types
+ *
+ * Contract used by the SignalingService to bind signaling messages and
+ * presence entries to an authenticated user and to check the ones received
+ * from the other participants.
+ */
+import type { SignalingMessage, UserPresence } from '../signaling';
+
+/**
+ * Signs outgoing signaling data and verifies incoming data
+ */
+export interface SignalingAuthenticator {
+    /**
+     * Prepares the local identity for a room (key generation, registration...)
+     * Must succeed before anything is signed; throws if the user is not allowed in
+     * @param roomId Room identifier
+     * @param presence Presence of the local client
+     */
+    init(roomId: string, presence: UserPresence): Promise<void>;
+
+    /**
+     * Returns a copy of the message bound to the local user and signed
+     */
+    signMessage(message: SignalingMessage): Promise<SignalingMessage>;
+
+    /**
+     * Returns a copy of the presence bound to the local user and signed
+     */
+    signPresence(presence: UserPresence): Promise<UserPresence>;
+
+    /**
+     * Checks that a message was signed by the authorised owner of its sender id
+     */
+    verifyMessage(message: SignalingMessage): Promise<boolean>;
+
+    /**
+     * Checks that a presence was signed by the authorised owner of its client id and role
+     */
+    verifyPresence(presence: UserPresence): Promise<boolean>;
+
+    /**
+     * Forgets the local identity and any cached peer keys
+     */
+    reset(): void;
+}
@@ -1,22 +1,38 @@
 /**
  * Signaling Service
  * 
- * This file implements a WebRTC signaling service using Supabase Realtime.
- * It handles the exchange of connection offers, answers, and ICE candidates 
- * between peers, as well as participant presence management.
+ * This file implements a WebRTC signaling service on top of a pluggable transport
+ * (Supabase Realtime by default, see ./transport). It handles the exchange of
+ * connection offers, answers, and ICE candidates between peers, as well as
+ * participant presence management.
+ *
+ * Delivery is acknowledged: messages are numbered, retransmitted until every
+ * recipient acknowledged them and replayed to peers that (re)join the room
+ * (see ./reliable-delivery).
+ *
+ * Messages and presence entries are signed and bound to the authenticated
+ * user; anything not signed by an authorised participant of the room is
+ * dropped (see ./security).
  */
-import { supabase } from '@/lib/supabaseClient';
 import { Role } from './peer';
+import { SignalingTransport, createSignalingTransport } from './transport';
+import { ReliableDelivery } from './reliable-delivery';
+import { SignalingAuthenticator, SupabaseSignalingAuthenticator } from './security';
 
 /**
  * Represents a signaling message exchanged between peers
  */
 export type SignalingMessage = {
-    type: 'offer' | 'answer' | 'ice-candidate';  // Type of signaling message
+    type: 'offer' | 'answer' | 'ice-candidate' | 'ack';  // Type of signaling message
     sender: string;                              // Client ID of the sender
     receiver?: string;                           // Optional target client ID
     roomId: string;                              // Room identifier
-    content: RTCSessionDescriptionInit | RTCIceCandidateInit;  // WebRTC specific content
+    content?: RTCSessionDescriptionInit | RTCIceCandidateInit;  // WebRTC specific content (absent for acks)
+    seq?: number;                                // Sequence number within the sender's session
+    sessionId?: string;                          // Sender's delivery session (echoed by acks)
+    ack?: number;                                // Sequence number acknowledged by an 'ack' message
+    userId?: string;                             // Authenticated user owning the sender client id
+    signature?: string;                          // Signature of the message by the sender's session key
     created_at?: Date;                           // Message timestamp
 };
 
@@ -25,120 +41,200 @@ export type SignalingMessage = {
  */
 export type UserPresence = {
     clientId: string;  // Unique identifier for the client
-    role: Role;        // Role in the consultation (patient or practitioner)
+    role: Role;        // Role in the consultation (see Role)
+    userId?: string;   // Authenticated user owning the client id
+    signature?: string; // Signature of the presence by the client's session key
 };
 
 /**
- * Manages WebRTC signaling between peers using Supabase Realtime channels
+ * Signaling operations a PeerConnection relies on
+ * Implemented by the room-wide SignalingService and by the peer-scoped
+ * channels a PeerMesh hands to each of its connections
  */
-export class SignalingService {
+export interface SignalingChannel {
+    readonly remoteClientId?: string;   // Set when the channel is scoped to a single remote peer
+    connect(): Promise<void>;
+    disconnect(): Promise<void>;
+    sendMessage(message: Omit<SignalingMessage, 'sender'>): Promise<{ error: unknown; delivered: boolean }>;
+    onMessage(callback: (message: SignalingMessage) => void): void;
+    onPresenceChange(callback: (presences: UserPresence[]) => void): void;
+    getRoomPresences(): UserPresence[];
+    getValidParticipants(): UserPresence[];
+    getUserId(clientId: string): string | undefined;
+    hasPatientAndPractitioner(): boolean;
+    setAdmittedUsers(userIds: string[]): void;
+}
+
+/**
+ * Manages WebRTC signaling between peers through a SignalingTransport
+ */
+export class SignalingService implements SignalingChannel {
     public roomId: string;
     public clientId: string;
     private role: Role;
+    private transport: SignalingTransport;
     private messageCallback: ((message: SignalingMessage) => void) | null = null;
     private presenceCallback: ((presences: UserPresence[]) => void) | null = null;
-    private subscription: any = null;
-    private presenceSubscription: any = null;
     private roomPresences: UserPresence[] = [];
+    private delivery: ReliableDelivery;
+    private authenticator: SignalingAuthenticator;
+    private incomingQueue: Promise<void> = Promise.resolve();
+    private presenceQueue: Promise<void> = Promise.resolve();
+    private admittedUserIds: Set<string> | null;
+    private localUserId: string | undefined;
 
     /**
      * Creates a new signaling service instance
      * @param roomId Room identifier for the consultation
      * @param clientId Unique identifier for this client
      * @param role The role of the participant (patient or practitioner)
+     * @param transport Network adapter used to reach the other peers (defaults to the configured one)
+     * @param authenticator Signs and verifies signaling traffic (defaults to Supabase Auth bound keys)
      */
-    constructor(roomId: string, clientId: string, role: Role) {
-        console.log(`[Signaling] 🏗️ Creating service for room: ${roomId}, client: ${clientId}, role: ${role}`);
+    constructor(
+        roomId: string,
+        clientId: string,
+        role: Role,
+        transport: SignalingTransport = createSignalingTransport(),
+        authenticator: SignalingAuthenticator = new SupabaseSignalingAuthenticator()
+    ) {
+        console.log(`[Signaling] 🏗️ Creating service for room: ${roomId}, client: ${clientId}, role: ${role}, transport: ${transport.name}`);
         this.roomId = roomId;
         this.clientId = clientId;
         this.role = role;
+        this.transport = transport;
+        this.authenticator = authenticator;
+
+        // Practitioners only see the patients they admitted from the waiting room
+        this.admittedUserIds = role === Role.PRACTITIONER ? new Set() : null;
+        this.delivery = new ReliableDelivery((message) => this.transmit(message));
     }
 
     /**
-     * Connects to Supabase realtime channels for signaling and presence
+     * Connects to the room through the transport for signaling and presence
      */
     async connect() {
         console.log(`[Signaling] 🔌 Connecting to room channel: ${this.roomId}`);
 
-        // Create a specific channel for the room signaling
-        this.subscription = supabase
-            .channel(`room:${this.roomId}`)
-            .on('broadcast', { event: 'signaling' }, (payload) => {
-                const message = payload.payload as SignalingMessage;
-                console.log(`[Signaling] 📨 Received message: ${message.type} from ${message.sender}`);
-
-                // More detailed log for ICE candidates
-                if (message.type === 'ice-candidate') {
-                    console.log(`[Signaling] 🧊 Received ICE candidate: ${JSON.stringify(message.content)}`);
+        // Register this session's key first: nothing can be signed without it
+        const presence: UserPresence = { clientId: this.clientId, role: this.role };
+        await this.authenticator.init(this.roomId, presence);
+        const signedPresence = await this.authenticator.signPresence(presence);
+        this.localUserId = signedPresence.userId;
+
+        await this.transport.connect(
+            this.roomId,
+            signedPresence,
+            {
+                // Verification is asynchronous: queue messages to keep their order
+                onMessage: (message) => {
+                    this.incomingQueue = this.incomingQueue.then(() => this.handleIncomingMessage(message));
+                },
+                onPresenceSync: (presences) => {
+                    this.presenceQueue = this.presenceQueue.then(() => this.handlePresenceSync(presences));
                 }
+            }
+        );
+    }
 
-                // Skip messages from self
-                if (message.sender === this.clientId) {
-                    console.log('[Signaling] ⚠️ Ignoring message from self');
-                    return;
-                }
+    /**
+     * Signs a message and puts it on the wire
+     */
+    private async transmit(message: SignalingMessage) {
+        await this.transport.send(await this.authenticator.signMessage(message));
+    }
 
-                // Process message if it's not for a specific receiver or it's for this client
-                if (!message.receiver || message.receiver === this.clientId) {
-                    if (this.messageCallback) {
-                        this.messageCallback(message);
-                    } else {
-                        console.warn('[Signaling] ⚠️ Received message but no callback registered to handle it!');
-                    }
-                }
-            })
-            .subscribe((status) => {
-                console.log(`[Signaling] Subscription status: ${status}`);
-            });
+    /**
+     * Filters, verifies and dispatches a message received from the transport
+     */
+    private async handleIncomingMessage(message: SignalingMessage) {
+        console.log(`[Signaling] 📨 Received message: ${message.type} from ${message.sender}`);
 
-        // Create a presence channel for the room
-        this.presenceSubscription = supabase
-            .channel(`presence:${this.roomId}`)
-            .on('presence', { event: 'sync' }, () => {
-                const state = this.presenceSubscription.presenceState();
-                console.log('[Signaling] 👥 Presence state updated:', state);
-
-                // Convert presence state to user presences array
-                const presences: UserPresence[] = [];
-                Object.values(state).forEach((stateItem: any) => {
-                    stateItem.forEach((presence: any) => {
-                        // Log each presence with its properties for debugging
-                        console.log(`[Signaling] 👤 Presence detected: clientId=${presence.clientId}, role=${presence.role || 'undefined'}`);
-
-                        // Only add presences with valid roles
-                        if (presence.clientId && presence.role) {
-                            presences.push({
-                                clientId: presence.clientId,
-                                role: presence.role
-                            });
-                        } else {
-                            console.log('[Signaling] ⚠️ Ignoring presence without valid clientId or role');
-                        }
-                    });
-                });
-
-                this.roomPresences = presences;
-
-                // Notify about presence change
-                if (this.presenceCallback) {
-                    this.presenceCallback(this.roomPresences);
-                }
-            })
-            .subscribe(async (status) => {
-                console.log(`[Signaling] Presence subscription status: ${status}`);
-                if (status === 'SUBSCRIBED') {
-                    // Enter the room with role information
-                    await this.presenceSubscription.track({
-                        clientId: this.clientId,
-                        role: this.role,
-                        online_at: new Date().toISOString(),
-                    });
-                }
+        // More detailed log for ICE candidates
+        if (message.type === 'ice-candidate') {
+            console.log(`[Signaling] 🧊 Received ICE candidate: ${JSON.stringify(message.content)}`);
+        }
+
+        // Skip messages from self
+        if (message.sender === this.clientId) {
+            console.log('[Signaling] ⚠️ Ignoring message from self');
+            return;
+        }
+
+        // Ignore messages targeted at another client
+        if (message.receiver && message.receiver !== this.clientId) {
+            return;
+        }
+
+        if (!await this.authenticator.verifyMessage(message)) {
+            console.warn(`[Signaling] 🚫 Rejected ${message.type} from ${message.sender}: invalid signature or unauthorised sender`);
+            return;
+        }
+
+        if (message.type === 'ack') {
+            this.delivery.handleAck(message);
+            return;
+        }
+
+        // Acknowledge every numbered message, including duplicates whose
+        // previous ack may have been lost
+        if (message.seq !== undefined) {
+            this.transmit({ ...this.delivery.createAck(message), sender: this.clientId }).catch(error => {
+                console.warn('[Signaling] ⚠️ Failed to send ack:', error);
             });
+
+            if (!this.delivery.accept(message)) {
+                console.log(`[Signaling] ♻️ Ignoring duplicate ${message.type} #${message.seq} from ${message.sender}`);
+                return;
+            }
+        }
+
+        if (this.messageCallback) {
+            this.messageCallback(message);
+        } else {
+            console.warn('[Signaling] ⚠️ Received message but no callback registered to handle it!');
+        }
     }
 
     /**
-     * Sends a signaling message through the Supabase realtime channel
+     * Keeps the verified entries of the presence list received from the
+     * transport and notifies listeners
+     */
+    private async handlePresenceSync(receivedPresences: UserPresence[]) {
+        const verified = await Promise.all(receivedPresences.map(p =>
+            p.clientId === this.clientId ? true : this.authenticator.verifyPresence(p)
+        ));
+        const presences = receivedPresences.filter((p, index) => {
+            if (!verified[index]) {
+                console.warn(`[Signaling] 🚫 Ignoring unauthorised presence ${p.role}:${p.clientId}`);
+            }
+            return verified[index];
+        });
+
+        const previousIds = new Set(this.roomPresences.map(p => p.clientId));
+        const currentIds = new Set(presences.map(p => p.clientId));
+        this.roomPresences = presences;
+
+        // Stop waiting for peers that left, replay what (re)joining peers missed
+        previousIds.forEach(id => {
+            if (!currentIds.has(id)) this.delivery.forgetRecipient(id);
+        });
+        presences.forEach(p => {
+            if (p.clientId !== this.clientId && !previousIds.has(p.clientId)) {
+                this.delivery.replayTo(p.clientId);
+            }
+        });
+
+        // Notify about presence change
+        if (this.presenceCallback) {
+            this.presenceCallback(this.roomPresences);
+        }
+    }
+
+    /**
+     * Sends a signaling message through the transport
+     * Resolves once every recipient acknowledged it or retries are exhausted;
+     * messages sent while no peer is present are replayed when one joins
      * @param message The message to send (without sender info)
      */
     async sendMessage(message: Omit<SignalingMessage, 'sender'>) {
@@ -149,25 +245,25 @@ export class SignalingService {
             console.log(`[Signaling] 🧊 Sending ICE candidate: ${JSON.stringify(message.content)}`);
         }
 
-        const completeMessage = {
+        const completeMessage: SignalingMessage = {
             ...message,
             sender: this.clientId,
             created_at: new Date(),
         };
 
+        // Targeted messages expect one ack, broadcasts one per other participant
+        const recipients = message.receiver
+            ? [message.receiver]
+            : this.getValidParticipants().map(p => p.clientId).filter(id => id !== this.clientId);
+
         try {
-            // Use the broadcast feature to send messages instead of database insertion
-            const result = await this.subscription.send({
-                type: 'broadcast',
-                event: 'signaling',
-                payload: completeMessage
-            });
+            const delivered = await this.delivery.send(completeMessage, recipients);
 
-            console.log('[Signaling] ✅ Message sent successfully');
-            return { error: null };
+            console.log(`[Signaling] ✅ Message sent (${delivered ? 'acknowledged' : 'not acknowledged'})`);
+            return { error: null, delivered };
         } catch (error) {
             console.error('[Signaling] ❌ Error sending message:', error);
-            return { error };
+            return { error, delivered: false };
         }
     }
 
@@ -179,20 +275,42 @@ export class SignalingService {
     }
 
     /**
-     * Returns only participants with valid application roles (patient or practitioner)
-     * This filters out any observers or admin connections without explicit roles
+     * Returns only participants with valid application roles (see Role)
+     * This filters out any observers or admin connections without explicit roles,
+     * and on the practitioner side the participants not admitted from the waiting room
      */
     getValidParticipants(): UserPresence[] {
-        // 🩺 DIAGNOSTIC LOGS - TEMPORARY
-        console.log('🩺 [SIGNALING DIAGNOSTIC] Raw roomPresences:', this.roomPresences.map(p => ({ id: p.clientId, role: p.role })));
-        
-        const validParticipants = this.roomPresences.filter(p =>
-            p.role === Role.PATIENT || p.role === Role.PRACTITIONER
+        return this.roomPresences.filter(p =>
+            p.role === Role.PRACTITIONER || p.role === Role.SPECIALIST ||
+            ((p.role === Role.PATIENT || p.role === Role.CAREGIVER || p.role === Role.INTERPRETER) && this.isAdmitted(p))
         );
-        
-        console.log('🩺 [SIGNALING DIAGNOSTIC] Valid participants:', validParticipants.map(p => ({ id: p.clientId, role: p.role })));
-        
-        return validParticipants;
+    }
+
+    /**
+     * Returns the authenticated user owning a client id (local client included),
+     * or undefined when its presence is unknown or not bound to a user
+     */
+    getUserId(clientId: string): string | undefined {
+        if (clientId === this.clientId) return this.localUserId;
+        return this.roomPresences.find(p => p.clientId === clientId)?.userId;
+    }
+
+    /**
+     * Updates the patients admitted from the waiting room and re-evaluates presence
+     * @param userIds Auth user IDs of the admitted patients
+     */
+    setAdmittedUsers(userIds: string[]) {
+        this.admittedUserIds = new Set(userIds);
+        console.log(`[Signaling] 🚪 Admitted patients updated: ${userIds.length}`);
+
+        if (this.presenceCallback) {
+            this.presenceCallback(this.roomPresences);
+        }
+    }
+
+    private isAdmitted(presence: UserPresence): boolean {
+        if (!this.admittedUserIds || presence.clientId === this.clientId) return true;
+        return !!presence.userId && this.admittedUserIds.has(presence.userId);
     }
 
     /**
@@ -235,77 +353,10 @@ export class SignalingService {
         console.log('[Signaling] 🔌 Disconnecting from room:', this.roomId);
 
         try {
-            // Leave presence first to ensure other participants
-            // are properly notified of our departure
-            if (this.presenceSubscription) {
-                try {
-                    // Check if untrack is available before calling it
-                    if (this.presenceSubscription.untrack && typeof this.presenceSubscription.untrack === 'function') {
-                        await this.presenceSubscription.untrack();
-                        console.log('[Signaling] ✅ Untracked presence for client:', this.clientId);
-                    } else {
-                        console.log('[Signaling] ⚠️ Skipping untrack - not available on presenceSubscription');
-                    }
-                } catch (err) {
-                    console.warn('[Signaling] ⚠️ Error untracking presence:', err);
-                }
-
-                // Wait a moment to ensure the untrack propagates
-                await new Promise(resolve => setTimeout(resolve, 200));
-
-                try {
-                    // Check if the channel exists and has an unsubscribe method
-                    // before trying to remove it
-                    if (typeof this.presenceSubscription === 'object' &&
-                        this.presenceSubscription !== null &&
-                        this.presenceSubscription.unsubscribe) {
-                        // Remove the channel
-                        await supabase.removeChannel(this.presenceSubscription);
-                        console.log('[Signaling] ✅ Removed presence channel for room:', this.roomId);
-                    } else {
-                        console.log('[Signaling] ⚠️ Presence channel not valid for removal, skipping');
-                    }
-                } catch (err) {
-                    console.warn('[Signaling] ⚠️ Error removing presence channel:', err);
-                }
-                this.presenceSubscription = null;
-            }
-
-            // Unsubscribe from signaling channel
-            if (this.subscription) {
-                try {
-                    // Check if the channel exists and has an unsubscribe method
-                    if (typeof this.subscription === 'object' &&
-                        this.subscription !== null &&
-                        this.subscription.unsubscribe) {
-                        await supabase.removeChannel(this.subscription);
-                        console.log('[Signaling] ✅ Removed message subscription for room:', this.roomId);
-                    } else {
-                        console.log('[Signaling] ⚠️ Message channel not valid for removal, skipping');
-                    }
-                } catch (err) {
-                    console.warn('[Signaling] ⚠️ Error removing message channel:', err);
-                }
-                this.subscription = null;
-            }
-
-            // Manually force removal of our presence
-            try {
-                // Create a temporary channel to force presence update
-                // but ensure we keep a reference to it so we can close it properly
-                const tempChannel = supabase.channel('manual-cleanup');
-
-                if (tempChannel && typeof tempChannel.subscribe === 'function') {
-                    await tempChannel.subscribe();
-
-                    // Ensure we properly clean up this temporary channel
-                    if (tempChannel && typeof tempChannel.unsubscribe === 'function') {
-                        await tempChannel.unsubscribe();
-                    }
-                }
-            } catch (err) {
-                console.warn('[Signaling] ⚠️ Error during manual cleanup:', err);
-            }
+            // Stop retransmissions before the transport goes away
+            this.delivery.reset();
+            await this.transport.disconnect();
+            this.authenticator.reset();
 
             // Reset callbacks and state
             this.messageCallback = null;
@@ -313,11 +364,8 @@ export class SignalingService {
             this.roomPresences = [];
 
             console.log('[Signaling] ✅ Disconnection complete for room:', this.roomId);
-
-            // Add a small delay to ensure Supabase has had time to process the changes
-            await new Promise(resolve => setTimeout(resolve, 200));
         } catch (error) {
             console.error('[Signaling] ❌ Error during disconnect:', error);
         }
     }
-}
\ No newline at end of file
+}
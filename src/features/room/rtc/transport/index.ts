@@ -0,0 +1,27 @@
+/**
+ * Signaling Transport Module Entry Point
+ *
+ * Exports the transport contract, the available adapters and the factory
+ * used by the application to pick an adapter from the environment.
+ */
+import type { SignalingTransport } from './types';
+import { SupabaseSignalingTransport } from './supabase-transport';
+import { WebSocketSignalingTransport } from './websocket-transport';
+
+export type { SignalingTransport, SignalingTransportHandlers } from './types';
+export { SupabaseSignalingTransport } from './supabase-transport';
+export { WebSocketSignalingTransport } from './websocket-transport';
+export type { ClientFrame, ServerFrame } from './websocket-transport';
+export { MemorySignalingTransport, MemorySignalingHub, defaultMemoryHub } from './memory-transport';
+
+/**
+ * Creates the transport configured for this deployment
+ * VITE_SIGNALING_URL selects the self-hosted WebSocket server, otherwise Supabase Realtime is used
+ */
+export function createSignalingTransport(): SignalingTransport {
+    const signalingUrl = import.meta.env.VITE_SIGNALING_URL;
+    if (signalingUrl) {
+        return new WebSocketSignalingTransport(signalingUrl);
+    }
+    return new SupabaseSignalingTransport();
+}
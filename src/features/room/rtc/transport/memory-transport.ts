@@ -0,0 +1,131 @@
+/**
+ * In-Memory Signaling Transport
+ *
+ * Adapter exchanging signaling messages through a hub living in the same
+ * JavaScript context. It lets several SignalingService / PeerConnection
+ * instances talk to each other without any network, which is what
+ * integration tests and local demos need.
+ */
+import type { SignalingMessage, UserPresence } from '../signaling';
+import type { SignalingTransport, SignalingTransportHandlers } from './types';
+
+/**
+ * Shared registry of rooms and the transports connected to them
+ */
+export class MemorySignalingHub {
+    private rooms = new Map<string, Set<MemorySignalingTransport>>();
+
+    /**
+     * Adds a transport to a room and notifies everyone of the new presence list
+     */
+    join(roomId: string, transport: MemorySignalingTransport) {
+        if (!this.rooms.has(roomId)) {
+            this.rooms.set(roomId, new Set());
+        }
+        this.rooms.get(roomId)!.add(transport);
+        this.syncPresence(roomId);
+    }
+
+    /**
+     * Removes a transport from a room and notifies the remaining participants
+     */
+    leave(roomId: string, transport: MemorySignalingTransport) {
+        const members = this.rooms.get(roomId);
+        if (!members) return;
+
+        members.delete(transport);
+        if (members.size === 0) {
+            this.rooms.delete(roomId);
+        } else {
+            this.syncPresence(roomId);
+        }
+    }
+
+    /**
+     * Delivers a message to every other transport of the room
+     * (Supabase broadcast does not echo messages back to their sender)
+     */
+    broadcast(roomId: string, from: MemorySignalingTransport, message: SignalingMessage) {
+        const members = this.rooms.get(roomId);
+        if (!members) return;
+
+        // Clone the message so receivers never share references with the sender
+        const serialized = JSON.stringify(message);
+        members.forEach(member => {
+            if (member !== from) {
+                queueMicrotask(() => member.deliver(JSON.parse(serialized)));
+            }
+        });
+    }
+
+    /**
+     * Returns the presences currently tracked in a room
+     */
+    getPresences(roomId: string): UserPresence[] {
+        const members = this.rooms.get(roomId);
+        if (!members) return [];
+        return Array.from(members, member => member.getPresence()).filter((p): p is UserPresence => p !== null);
+    }
+
+    private syncPresence(roomId: string) {
+        const presences = this.getPresences(roomId);
+        this.rooms.get(roomId)?.forEach(member => {
+            queueMicrotask(() => member.deliverPresence(presences.map(p => ({ ...p }))));
+        });
+    }
+}
+
+/**
+ * Default hub shared by every in-memory transport created without an explicit hub
+ */
+export const defaultMemoryHub = new MemorySignalingHub();
+
+export class MemorySignalingTransport implements SignalingTransport {
+    public readonly name = 'memory';
+    private hub: MemorySignalingHub;
+    private roomId: string | null = null;
+    private presence: UserPresence | null = null;
+    private handlers: SignalingTransportHandlers | null = null;
+
+    /**
+     * @param hub Hub connecting the transports together (defaults to a process-wide hub)
+     */
+    constructor(hub: MemorySignalingHub = defaultMemoryHub) {
+        this.hub = hub;
+    }
+
+    async connect(roomId: string, presence: UserPresence, handlers: SignalingTransportHandlers) {
+        this.roomId = roomId;
+        this.presence = presence;
+        this.handlers = handlers;
+        this.hub.join(roomId, this);
+    }
+
+    async send(message: SignalingMessage) {
+        if (!this.roomId) {
+            throw new Error('In-memory signaling transport is not connected');
+        }
+        this.hub.broadcast(this.roomId, this, message);
+    }
+
+    async disconnect() {
+        if (this.roomId) {
+            this.hub.leave(this.roomId, this);
+        }
+        this.roomId = null;
+        this.presence = null;
+        this.handlers = null;
+    }
+
+    getPresence(): UserPresence | null {
+        return this.presence;
+    }
+
+    deliver(message: SignalingMessage) {
+        this.handlers?.onMessage(message);
+    }
+
+    deliverPresence(presences: UserPresence[]) {
+        this.handlers?.onPresenceSync(presences);
+    }
+}
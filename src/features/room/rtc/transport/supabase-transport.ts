@@ -0,0 +1,137 @@
+/**
+ * Supabase Signaling Transport
+ *
+ * Adapter relying on Supabase Realtime: a broadcast channel `room:${roomId}`
+ * for signaling messages and a presence channel `presence:${roomId}` for
+ * participant tracking.
+ */
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabaseClient';
+import type { SignalingMessage, UserPresence } from '../signaling';
+import type { SignalingTransport, SignalingTransportHandlers } from './types';
+
+export class SupabaseSignalingTransport implements SignalingTransport {
+    public readonly name = 'supabase';
+    private roomId: string | null = null;
+    private clientId: string | null = null;
+    private subscription: RealtimeChannel | null = null;
+    private presenceSubscription: RealtimeChannel | null = null;
+
+    async connect(roomId: string, presence: UserPresence, handlers: SignalingTransportHandlers) {
+        this.roomId = roomId;
+        this.clientId = presence.clientId;
+
+        // Create a specific channel for the room signaling
+        this.subscription = supabase
+            .channel(`room:${roomId}`)
+            .on('broadcast', { event: 'signaling' }, (payload) => {
+                handlers.onMessage(payload.payload as SignalingMessage);
+            })
+            .subscribe((status) => {
+                console.log(`[Signaling] Subscription status: ${status}`);
+            });
+
+        // Create a presence channel for the room
+        const presenceChannel = supabase.channel(`presence:${roomId}`);
+        this.presenceSubscription = presenceChannel
+            .on('presence', { event: 'sync' }, () => {
+                const state = presenceChannel.presenceState<Partial<UserPresence>>();
+                console.log('[Signaling] 👥 Presence state updated:', state);
+
+                // Convert presence state to user presences array
+                const presences: UserPresence[] = [];
+                Object.values(state).forEach((stateItem) => {
+                    stateItem.forEach((entry) => {
+                        // Log each presence with its properties for debugging
+                        console.log(`[Signaling] 👤 Presence detected: clientId=${entry.clientId}, role=${entry.role || 'undefined'}`);
+
+                        // Only add presences with valid roles
+                        if (entry.clientId && entry.role) {
+                            presences.push({
+                                clientId: entry.clientId,
+                                role: entry.role,
+                                userId: entry.userId,
+                                signature: entry.signature
+                            });
+                        } else {
+                            console.log('[Signaling] ⚠️ Ignoring presence without valid clientId or role');
+                        }
+                    });
+                });
+
+                handlers.onPresenceSync(presences);
+            })
+            .subscribe(async (status) => {
+                console.log(`[Signaling] Presence subscription status: ${status}`);
+                if (status === 'SUBSCRIBED') {
+                    // Enter the room with role information
+                    await presenceChannel.track({
+                        ...presence,
+                        online_at: new Date().toISOString(),
+                    });
+                }
+            });
+    }
+
+    async send(message: SignalingMessage) {
+        if (!this.subscription) {
+            throw new Error('Supabase signaling channel is not connected');
+        }
+
+        // Use the broadcast feature to send messages instead of database insertion
+        await this.subscription.send({
+            type: 'broadcast',
+            event: 'signaling',
+            payload: message
+        });
+    }
+
+    async disconnect() {
+        // Leave presence first to ensure other participants
+        // are properly notified of our departure
+        if (this.presenceSubscription) {
+            try {
+                await this.presenceSubscription.untrack();
+                console.log('[Signaling] ✅ Untracked presence for client:', this.clientId);
+            } catch (err) {
+                console.warn('[Signaling] ⚠️ Error untracking presence:', err);
+            }
+
+            // Wait a moment to ensure the untrack propagates
+            await new Promise(resolve => setTimeout(resolve, 200));
+
+            try {
+                await supabase.removeChannel(this.presenceSubscription);
+                console.log('[Signaling] ✅ Removed presence channel for room:', this.roomId);
+            } catch (err) {
+                console.warn('[Signaling] ⚠️ Error removing presence channel:', err);
+            }
+            this.presenceSubscription = null;
+        }
+
+        // Unsubscribe from signaling channel
+        if (this.subscription) {
+            try {
+                await supabase.removeChannel(this.subscription);
+                console.log('[Signaling] ✅ Removed message subscription for room:', this.roomId);
+            } catch (err) {
+                console.warn('[Signaling] ⚠️ Error removing message channel:', err);
+            }
+            this.subscription = null;
+        }
+
+        // Manually force removal of our presence
+        try {
+            // Create a temporary channel to force presence update
+            // but ensure we keep a reference to it so we can close it properly
+            const tempChannel = supabase.channel('manual-cleanup');
+            await tempChannel.subscribe();
+            await tempChannel.unsubscribe();
+        } catch (err) {
+            console.warn('[Signaling] ⚠️ Error during manual cleanup:', err);
+        }
+
+        // Add a small delay to ensure Supabase has had time to process the changes
+        await new Promise(resolve => setTimeout(resolve, 200));
+    }
+}
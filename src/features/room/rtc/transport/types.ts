@@ -0,0 +1,44 @@
+/**
+ * Signaling Transport Types
+ *
+ * This file defines the contract between the SignalingService and the
+ * underlying network layer used to exchange signaling messages and presence.
+ * Each adapter (Supabase Realtime, WebSocket, in-memory) implements it.
+ */
+import type { SignalingMessage, UserPresence } from '../signaling';
+
+/**
+ * Callbacks invoked by a transport when data arrives from the network
+ */
+export interface SignalingTransportHandlers {
+    onMessage: (message: SignalingMessage) => void;         // Raw message broadcast in the room
+    onPresenceSync: (presences: UserPresence[]) => void;    // Full list of participants currently in the room
+}
+
+/**
+ * A room-scoped channel able to broadcast signaling messages and track presence
+ *
+ * Transports deliver every message of the room, including those addressed to
+ * other clients: filtering by sender/receiver stays in the SignalingService.
+ */
+export interface SignalingTransport {
+    readonly name: string;  // Human readable adapter name, used in logs
+
+    /**
+     * Joins the room and starts tracking the given presence
+     * @param roomId Room identifier
+     * @param presence Presence of the local client
+     * @param handlers Callbacks for incoming messages and presence updates
+     */
+    connect(roomId: string, presence: UserPresence, handlers: SignalingTransportHandlers): Promise<void>;
+
+    /**
+     * Broadcasts a message to every participant of the room
+     */
+    send(message: SignalingMessage): Promise<void>;
+
+    /**
+     * Leaves the room, untracks presence and releases network resources
+     */
+    disconnect(): Promise<void>;
+}
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocketSignalingTransport } from './websocket-transport';
+import { Role } from '../peer';
+
+/**
+ * Minimal WebSocket driven by the test instead of the network
+ */
+class FakeWebSocket {
+    static readonly OPEN = 1;
+    static instances: FakeWebSocket[] = [];
+
+    readyState = 0;
+    sent: string[] = [];
+    onopen: (() => void) | null = null;
+    onmessage: ((event: { data: string }) => void) | null = null;
+    onerror: ((event: unknown) => void) | null = null;
+    onclose: (() => void) | null = null;
+
+    constructor(public url: string) {
+        FakeWebSocket.instances.push(this);
+    }
+
+    send(data: string) {
+        this.sent.push(data);
+    }
+
+    close() {
+        this.readyState = 3;
+    }
+
+    // Server side
+    accept() {
+        this.readyState = FakeWebSocket.OPEN;
+        this.onopen?.();
+        this.onmessage?.({ data: JSON.stringify({ type: 'joined', roomId: 'room' }) });
+    }
+
+    drop() {
+        this.readyState = 3;
+        this.onclose?.();
+    }
+}
+
+const presence = { clientId: 'client', role: Role.PATIENT };
+const handlers = { onMessage: () => {}, onPresenceSync: () => {} };
+
+describe('WebSocketSignalingTransport', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.stubGlobal('WebSocket', FakeWebSocket);
+        FakeWebSocket.instances = [];
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.useRealTimers();
+    });
+
+    it('does not keep reconnecting in the background when the first connection fails', async () => {
+        const transport = new WebSocketSignalingTransport('ws://signaling.test');
+
+        const connecting = transport.connect('room', presence, handlers);
+        FakeWebSocket.instances[0].drop();
+
+        await expect(connecting).rejects.toThrow('Could not join room');
+        await vi.advanceTimersByTimeAsync(60000);
+        expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+
+    it('reopens the socket and re-joins the room after losing an established connection', async () => {
+        const transport = new WebSocketSignalingTransport('ws://signaling.test');
+
+        const connecting = transport.connect('room', presence, handlers);
+        FakeWebSocket.instances[0].accept();
+        await connecting;
+
+        FakeWebSocket.instances[0].drop();
+        await vi.advanceTimersByTimeAsync(500);
+        expect(FakeWebSocket.instances).toHaveLength(2);
+
+        FakeWebSocket.instances[1].accept();
+        expect(JSON.parse(FakeWebSocket.instances[1].sent[0])).toMatchObject({ type: 'join', roomId: 'room' });
+
+        await transport.disconnect();
+    });
+});
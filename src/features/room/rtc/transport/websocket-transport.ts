@@ -0,0 +1,174 @@
+/**
+ * WebSocket Signaling Transport
+ *
+ * Adapter talking to a self-hosted signaling server over a plain WebSocket.
+ * Used by on-premise deployments that cannot reach a hosted Supabase project.
+ * Once the room has been joined, the socket is reopened automatically (with
+ * a capped backoff) until disconnect() is called, and the room is re-joined
+ * on every reconnection. A failed first connection is reported to the caller
+ * and never retried in the background.
+ */
+import type { SignalingMessage, UserPresence } from '../signaling';
+import type { SignalingTransport, SignalingTransportHandlers } from './types';
+
+/**
+ * Frames sent by the client to the signaling server
+ */
+export type ClientFrame =
+    | { type: 'join'; roomId: string; presence: UserPresence }
+    | { type: 'signal'; message: SignalingMessage }
+    | { type: 'leave' };
+
+/**
+ * Frames sent by the signaling server to the client
+ */
+export type ServerFrame =
+    | { type: 'joined'; roomId: string }
+    | { type: 'signal'; message: SignalingMessage }
+    | { type: 'presence'; presences: UserPresence[] }
+    | { type: 'error'; error: string };
+
+const RECONNECT_BASE_DELAY = 500;   // First reconnection delay in ms
+const RECONNECT_MAX_DELAY = 8000;   // Upper bound for the reconnection delay
+
+export class WebSocketSignalingTransport implements SignalingTransport {
+    public readonly name = 'websocket';
+    private url: string;
+    private socket: WebSocket | null = null;
+    private roomId: string | null = null;
+    private presence: UserPresence | null = null;
+    private handlers: SignalingTransportHandlers | null = null;
+    private closedByUser = false;
+    private reconnectAttempts = 0;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * @param url WebSocket URL of the signaling server (ws:// or wss://)
+     */
+    constructor(url: string) {
+        this.url = url;
+    }
+
+    async connect(roomId: string, presence: UserPresence, handlers: SignalingTransportHandlers) {
+        this.roomId = roomId;
+        this.presence = presence;
+        this.handlers = handlers;
+        this.closedByUser = false;
+        try {
+            await this.open();
+        } catch (err) {
+            // The failure is reported to the caller: no reconnection must outlive it
+            await this.disconnect();
+            throw err;
+        }
+    }
+
+    async send(message: SignalingMessage) {
+        this.sendFrame({ type: 'signal', message });
+    }
+
+    async disconnect() {
+        this.closedByUser = true;
+
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+
+        if (this.socket) {
+            if (this.socket.readyState === WebSocket.OPEN) {
+                this.sendFrame({ type: 'leave' });
+            }
+            this.socket.onclose = null;
+            this.socket.close(1000, 'leave');
+            this.socket = null;
+        }
+
+        this.handlers = null;
+        console.log('[Signaling] ✅ WebSocket transport closed for room:', this.roomId);
+    }
+
+    /**
+     * Opens the socket and resolves once the room has been joined
+     */
+    private open(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const socket = new WebSocket(this.url);
+            this.socket = socket;
+            let settled = false;
+
+            socket.onopen = () => {
+                console.log(`[Signaling] 🔌 WebSocket connected to ${this.url}`);
+                this.reconnectAttempts = 0;
+                this.sendFrame({ type: 'join', roomId: this.roomId!, presence: this.presence! });
+            };
+
+            socket.onmessage = (event) => {
+                let frame: ServerFrame;
+                try {
+                    frame = JSON.parse(event.data) as ServerFrame;
+                } catch (err) {
+                    console.error('[Signaling] ❌ Invalid frame from signaling server:', err);
+                    return;
+                }
+
+                switch (frame.type) {
+                    case 'joined':
+                        if (!settled) {
+                            settled = true;
+                            resolve();
+                        }
+                        break;
+                    case 'signal':
+                        this.handlers?.onMessage(frame.message);
+                        break;
+                    case 'presence':
+                        this.handlers?.onPresenceSync(frame.presences);
+                        break;
+                    case 'error':
+                        console.error('[Signaling] ❌ Signaling server error:', frame.error);
+                        if (!settled) {
+                            settled = true;
+                            reject(new Error(frame.error));
+                        }
+                        break;
+                }
+            };
+
+            socket.onerror = (event) => {
+                console.warn('[Signaling] ⚠️ WebSocket error:', event);
+            };
+
+            socket.onclose = () => {
+                this.socket = null;
+                if (!settled) {
+                    settled = true;
+                    reject(new Error(`Could not join room through ${this.url}`));
+                }
+                if (!this.closedByUser) {
+                    this.scheduleReconnect();
+                }
+            };
+        });
+    }
+
+    private scheduleReconnect() {
+        const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY);
+        this.reconnectAttempts++;
+        console.log(`[Signaling] 🔄 WebSocket closed, reconnecting in ${delay}ms`);
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.open().catch(err => {
+                console.warn('[Signaling] ⚠️ WebSocket reconnection failed:', err);
+            });
+        }, delay);
+    }
+
+    private sendFrame(frame: ClientFrame) {
+        if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+            throw new Error('WebSocket signaling transport is not connected');
+        }
+        this.socket.send(JSON.stringify(frame));
+    }
+}
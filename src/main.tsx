@@ -7,6 +7,12 @@ import { AuthProvider } from "./contexts/AuthContext";
 import { Provider } from 'react-redux';
 import { store } from './app/store';
 
+// Développement : réactive les appareils Bluetooth simulés choisis lors de la session précédente
+// (import dynamique, comme le panneau des appareils simulés : rien de tout cela n'est livré en production)
+if (import.meta.env.DEV) {
+  import('./features/bluetooth/mock/mockBluetooth').then(({ MockBluetooth }) => MockBluetooth.restore());
+}
+
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -12,7 +12,7 @@ import { useSelector, useDispatch } from "react-redux";
 import { RootState } from "@/app/store";
 import { roomIdUpdated } from "@/features/room/roomSlice";
 import { RoomSupabase } from "@/features/room/roomSupabase";
-import { PeerConnection } from "@/features/room/rtc/peer";
+import { PeerMesh } from "@/features/room/rtc/peer";
 import ConsultationRoom from "@/components/room/ConsultationRoom";
 import ChatBox from "@/components/chat/ChatBox";
 import SideMenu from "@/components/SideMenu";
@@ -43,11 +43,11 @@ export default function ConsultationPage() {
   // Utilisation du hook useDispatch pour envoyer des actions Redux
   // (par exemple, pour mettre à jour l'ID de la salle)
   const dispatch = useDispatch();
-  // État local pour gérer l'affichage du navigateur de salle, le nom de la salle et la connexion PeerConnection
-  // (PeerConnection est utilisé pour gérer la connexion WebRTC entre le patient et le praticien)
+  // État local pour gérer l'affichage du navigateur de salle, le nom de la salle et la connexion PeerMesh
+  // (PeerMesh gère une connexion WebRTC par participant : patient, praticien, spécialiste, interprète, proche aidant)
   const [showRoomBrowser, setShowRoomBrowser] = useState(false);
   const [roomName, setRoomName] = useState<string>("");
-  const [peerConnection, setPeerConnection] = useState<PeerConnection | null>(
+  const [peerConnection, setPeerConnection] = useState<PeerMesh | null>(
     null
   );
   const [showRestorationMessage, setShowRestorationMessage] = useState(false);
@@ -125,7 +125,7 @@ export default function ConsultationPage() {
   // Référence à l'instance de PeerConnection créée dans ConsultationRoom
   // Cette fonction est appelée lorsque la connexion PeerConnection est prête
   // (par exemple, lorsque le praticien ou le patient est prêt à commencer la consultation)
-  const handlePeerConnectionReady = (peer: PeerConnection) => {
+  const handlePeerConnectionReady = (peer: PeerMesh) => {
     setPeerConnection(peer);
   };
 
@@ -287,6 +287,7 @@ export default function ConsultationPage() {
                 onCreateRoom={getHandleCreateRoom}
                 setConnectionStatus={setConnectionStatus}
                 connectionStatus={connectionStatus}
+                patientInformations={patientInformations}
               />
             </>
           )}
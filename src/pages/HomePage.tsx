@@ -1,11 +1,16 @@
 import { useNavigate } from "react-router-dom";
 import { Button } from "react-bootstrap";
+import { useSelector } from "react-redux";
+import { RootState } from "@/app/store";
 import { useAuth } from "@/contexts/AuthContext";
 import Header from "@/components/Header";
+import AppointmentCalendar from "@/components/appointments/AppointmentCalendar";
+import PatientAppointments from "@/components/appointments/PatientAppointments";
 
 function HomePage() {
   const navigate = useNavigate();
   const { session } = useAuth();
+  const userKind = useSelector((state: RootState) => state.user.user_kind);
 
   const handleLoginClick = () => {
     navigate("/login");
@@ -32,6 +37,12 @@ function HomePage() {
             >
               Accéder à la consultation
             </Button>
+
+            {/* Consultations planifiées : calendrier côté praticien, "Mes rendez-vous" côté patient */}
+            <div className="mt-5 mb-5">
+              {userKind === "practitioner" && <AppointmentCalendar />}
+              {userKind === "patient" && <PatientAppointments />}
+            </div>
           </>
         ) : (
           <>
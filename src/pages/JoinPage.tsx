@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { useNavigate, useParams } from "react-router-dom";
+import { Alert, Button, Spinner } from "react-bootstrap";
+import { RootState } from "@/app/store";
+import Header from "@/components/Header";
+import PatientWaitingRoom from "@/components/room/PatientWaitingRoom";
+import { InvitationSupabase, RedeemStatus } from "@/features/room/invitationSupabase";
+import { Room, RoomSupabase } from "@/features/room/roomSupabase";
+import { roomIdUpdated } from "@/features/room/roomSlice";
+
+// Message affiché lorsque l'invitation ne peut pas être utilisée
+const ERROR_MESSAGES: Record<Exclude<RedeemStatus, "ok">, string> = {
+  not_found: "Cette invitation n'existe pas. Vérifiez le lien ou le code reçu.",
+  used: "Cette invitation a déjà été utilisée.",
+  expired: "Cette invitation a expiré. Demandez un nouveau lien à votre praticien.",
+  not_patient: "Cette invitation est destinée à un patient.",
+  throttled: "Trop de codes invalides ont été saisis. Réessayez dans quelques minutes.",
+};
+
+// Page ouverte depuis un lien (ou un code) d'invitation : valide l'invitation puis mène à la salle d'attente
+function JoinPage() {
+  const { token } = useParams<{ token: string }>();
+  const dispatch = useDispatch();
+  const navigate = useNavigate();
+  const userKind = useSelector((state: RootState) => state.user.user_kind);
+
+  const [room, setRoom] = useState<Room | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // L'invitation est à usage unique : ne la consommer qu'une seule fois, même si l'effet est rejoué
+  const redeemedRef = useRef<boolean>(false);
+
+  useEffect(() => {
+    if (!token || userKind !== "patient" || redeemedRef.current) return;
+    redeemedRef.current = true;
+
+    const redeem = async () => {
+      const result = await InvitationSupabase.redeemInvitation(token);
+      if (!result) {
+        setError("Impossible de vérifier l'invitation. Réessayez plus tard.");
+        return;
+      }
+      if (result.status !== "ok" || !result.room_id) {
+        setError(ERROR_MESSAGES[result.status as Exclude<RedeemStatus, "ok">]);
+        return;
+      }
+
+      const invitedRoom = await RoomSupabase.getRoom(result.room_id);
+      if (invitedRoom) {
+        setRoom(invitedRoom);
+      } else {
+        setError("La salle de cette invitation n'est plus disponible.");
+      }
+    };
+    redeem();
+  }, [token, userKind]);
+
+  // Une fois admis par le praticien, entrer dans la salle de consultation
+  const handleAdmitted = useCallback(
+    (roomId: string) => {
+      dispatch(roomIdUpdated(roomId));
+      navigate("/consultation");
+    },
+    [dispatch, navigate]
+  );
+
+  return (
+    <>
+      <Header variant="public">
+        <h2>Rejoindre une consultation</h2>
+      </Header>
+      <div className="container ps-5 pe-5 mt-4 w-100">
+        {userKind === "practitioner" ? (
+          <Alert variant="warning">Ce lien d'invitation est destiné à un patient.</Alert>
+        ) : error ? (
+          <>
+            <Alert variant="danger">{error}</Alert>
+            <Button className="secondary-btn" onClick={() => navigate("/")}>
+              Retour à l'accueil
+            </Button>
+          </>
+        ) : room ? (
+          <PatientWaitingRoom
+            room={room}
+            onAdmitted={handleAdmitted}
+            onLeave={() => navigate("/")}
+          />
+        ) : (
+          <p className="d-flex align-items-center gap-2">
+            <Spinner animation="border" size="sm" variant="danger" />
+            Vérification de l'invitation...
+          </p>
+        )}
+      </div>
+    </>
+  );
+}
+
+export default JoinPage;
@@ -40,6 +40,31 @@ export class ProfileService {
         }
     }
 
+    /**
+     * Fetches the profiles of all patients, sorted by username
+     * Used by practitioners to book appointments
+     * @returns Patient profiles or null if the request failed
+     */
+    static async getPatients(): Promise<UserProfile[] | null> {
+        try {
+            const { data, error } = await supabase
+                .from('profiles')
+                .select('id, username, user_kind, avatar_url, website')
+                .eq('user_kind', 'patient')
+                .order('username', { ascending: true });
+
+            if (error) {
+                console.error('Error fetching patients:', error);
+                return null;
+            }
+
+            return data;
+        } catch (error) {
+            console.error('Error in getPatients:', error);
+            return null;
+        }
+    }
+
     /**
      * Updates user profile in the profiles table
      * @param userId The user's ID
@@ -0,0 +1,73 @@
+-- Signaling keys
+--
+-- Binds the client id a browser session uses in a room to the authenticated
+-- user owning it and to the public key signing its signaling messages.
+-- Clients reject any signaling message or presence that is not signed by the
+-- key registered here for the sender's client id.
+
+create table if not exists public.signaling_keys (
+    room_id     uuid        not null references public.rooms (id) on delete cascade,
+    client_id   text        not null,
+    user_id     uuid        not null default auth.uid() references auth.users (id) on delete cascade,
+    role        text        not null check (role in ('patient', 'practitioner')),
+    public_key  jsonb       not null,
+    created_at  timestamptz not null default now(),
+    primary key (room_id, client_id)
+);
+
+create index if not exists signaling_keys_user_id_idx on public.signaling_keys (user_id);
+
+alter table public.signaling_keys enable row level security;
+
+-- Participants need the keys of the other participants to verify signatures
+create policy "Authenticated users can read signaling keys"
+    on public.signaling_keys for select
+    to authenticated
+    using (true);
+
+-- A consultation brings one practitioner and one patient together: the first
+-- account of each kind registering a key in a room takes that seat, and only
+-- its holder can register keys for that role afterwards
+create or replace function public.can_signal_in_room(target_room uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select not exists (
+        select 1
+        from public.signaling_keys k
+        join public.profiles p on p.id = auth.uid()
+        where k.room_id = target_room
+          and k.role = p.user_kind
+          and k.user_id <> auth.uid()
+    );
+$$;
+
+-- A key can only be registered for oneself, with the role of one's profile,
+-- in a room where one holds (or can take) the seat of that role
+create policy "Users register their own signaling keys"
+    on public.signaling_keys for insert
+    to authenticated
+    with check (
+        user_id = auth.uid()
+        and role = (select p.user_kind from public.profiles p where p.id = auth.uid())
+        and public.can_signal_in_room(room_id)
+    );
+
+-- Re-registering after a reload replaces the key, but never someone else's client id
+create policy "Users rotate their own signaling keys"
+    on public.signaling_keys for update
+    to authenticated
+    using (user_id = auth.uid())
+    with check (
+        user_id = auth.uid()
+        and role = (select p.user_kind from public.profiles p where p.id = auth.uid())
+        and public.can_signal_in_room(room_id)
+    );
+
+create policy "Users delete their own signaling keys"
+    on public.signaling_keys for delete
+    to authenticated
+    using (user_id = auth.uid());
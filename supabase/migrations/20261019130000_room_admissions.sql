@@ -0,0 +1,141 @@
+-- Consultation waiting room
+--
+-- Patients request admission to a room; the practitioner who created the room
+-- admits, defers or rejects them. A patient can only register a signaling key
+-- (and therefore be heard by the other participants) once admitted.
+
+-- Rooms belong to the practitioner who created them. Rooms created before
+-- ownership existed (owner_id is null) stay shared between practitioners.
+alter table public.rooms
+    add column if not exists owner_id uuid default auth.uid() references public.profiles (id) on delete cascade;
+
+create index if not exists rooms_owner_id_idx on public.rooms (owner_id);
+
+-- The owner is whoever created the room and can never be reassigned by a client
+create or replace function public.keep_room_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if tg_op = 'INSERT' then
+        new.owner_id := auth.uid();
+    else
+        new.owner_id := old.owner_id;
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists keep_room_owner on public.rooms;
+create trigger keep_room_owner
+    before insert or update of owner_id on public.rooms
+    for each row execute function public.keep_room_owner();
+
+create table if not exists public.room_admissions (
+    id            uuid        primary key default gen_random_uuid(),
+    room_id       uuid        not null references public.rooms (id) on delete cascade,
+    patient_id    uuid        not null default auth.uid() references auth.users (id) on delete cascade,
+    patient_name  text        not null,
+    reason        text        not null default '',
+    status        text        not null default 'waiting'
+                              check (status in ('waiting', 'admitted', 'deferred', 'rejected')),
+    created_at    timestamptz not null default now(),
+    updated_at    timestamptz not null default now(),
+    unique (room_id, patient_id)
+);
+
+alter table public.room_admissions enable row level security;
+
+create or replace function public.is_practitioner()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1 from public.profiles where id = auth.uid() and user_kind = 'practitioner'
+    );
+$$;
+
+create or replace function public.owns_room(target_room uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1 from public.rooms
+        where id = target_room and (owner_id = auth.uid() or (owner_id is null and public.is_practitioner()))
+    );
+$$;
+
+-- Patients see their own requests, practitioners the requests for their rooms
+create policy "Read own or managed admissions"
+    on public.room_admissions for select
+    to authenticated
+    using (patient_id = auth.uid() or public.owns_room(room_id));
+
+-- Patients can only (re)enter the waiting room, never admit themselves
+create policy "Patients request admission"
+    on public.room_admissions for insert
+    to authenticated
+    with check (patient_id = auth.uid() and status = 'waiting');
+
+create policy "Patients re-request admission"
+    on public.room_admissions for update
+    to authenticated
+    using (patient_id = auth.uid())
+    with check (patient_id = auth.uid() and status = 'waiting');
+
+-- Only the practitioner of the room decides on its requests
+create policy "Practitioners decide on admissions"
+    on public.room_admissions for update
+    to authenticated
+    using (public.owns_room(room_id))
+    with check (public.owns_room(room_id));
+
+create policy "Patients leave the waiting room"
+    on public.room_admissions for delete
+    to authenticated
+    using (patient_id = auth.uid() or public.owns_room(room_id));
+
+alter publication supabase_realtime add table public.room_admissions;
+
+-- Signaling is reserved to the practitioner of the room and the patients it admitted
+create or replace function public.can_signal_in_room(target_room uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select public.owns_room(target_room) or exists (
+        select 1 from public.room_admissions
+        where room_id = target_room and patient_id = auth.uid() and status = 'admitted'
+    );
+$$;
+
+drop policy if exists "Users register their own signaling keys" on public.signaling_keys;
+create policy "Users register their own signaling keys"
+    on public.signaling_keys for insert
+    to authenticated
+    with check (
+        user_id = auth.uid()
+        and role = (select p.user_kind from public.profiles p where p.id = auth.uid())
+        and public.can_signal_in_room(room_id)
+    );
+
+drop policy if exists "Users rotate their own signaling keys" on public.signaling_keys;
+create policy "Users rotate their own signaling keys"
+    on public.signaling_keys for update
+    to authenticated
+    using (user_id = auth.uid())
+    with check (
+        user_id = auth.uid()
+        and role = (select p.user_kind from public.profiles p where p.id = auth.uid())
+        and public.can_signal_in_room(room_id)
+    );
@@ -0,0 +1,52 @@
+-- Multi-party consultations
+--
+-- Besides the practitioner and the patient, a room can host a specialist
+-- (practitioner account), an interpreter or a caregiver (patient accounts).
+-- The role announced in the signaling key must match the account kind.
+
+alter table public.signaling_keys drop constraint if exists signaling_keys_role_check;
+alter table public.signaling_keys add constraint signaling_keys_role_check
+    check (role in ('patient', 'practitioner', 'specialist', 'interpreter', 'caregiver'));
+
+create or replace function public.role_matches_profile(requested_role text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1 from public.profiles p
+        where p.id = auth.uid()
+          and (
+              (p.user_kind = 'practitioner' and requested_role in ('practitioner', 'specialist'))
+              or (p.user_kind = 'patient' and requested_role in ('patient', 'interpreter', 'caregiver'))
+          )
+    );
+$$;
+
+drop policy if exists "Users register their own signaling keys" on public.signaling_keys;
+create policy "Users register their own signaling keys"
+    on public.signaling_keys for insert
+    to authenticated
+    with check (
+        user_id = auth.uid()
+        and public.role_matches_profile(role)
+        and public.can_signal_in_room(room_id)
+    );
+
+drop policy if exists "Users rotate their own signaling keys" on public.signaling_keys;
+create policy "Users rotate their own signaling keys"
+    on public.signaling_keys for update
+    to authenticated
+    using (user_id = auth.uid())
+    with check (
+        user_id = auth.uid()
+        and public.role_matches_profile(role)
+        and public.can_signal_in_room(room_id)
+    );
+
+-- Participants joining through the waiting room tell the practitioner who they are
+alter table public.room_admissions
+    add column if not exists role text not null default 'patient'
+    check (role in ('patient', 'interpreter', 'caregiver'));
@@ -0,0 +1,78 @@
+-- Scheduled appointments
+--
+-- A practitioner books a consultation for a patient at a given time, in a
+-- room dedicated to it. The patient joins that room from "Mes rendez-vous"
+-- (through the waiting room) instead of browsing every room.
+
+create table if not exists public.appointments (
+    id               uuid        primary key default gen_random_uuid(),
+    practitioner_id  uuid        not null default auth.uid() references public.profiles (id) on delete cascade,
+    patient_id       uuid        not null references public.profiles (id) on delete cascade,
+    room_id          uuid        references public.rooms (id) on delete set null,
+    starts_at        timestamptz not null,
+    ends_at          timestamptz not null,
+    status           text        not null default 'scheduled'
+                                 check (status in ('scheduled', 'confirmed', 'cancelled', 'completed')),
+    reason           text        not null default '',
+    created_at       timestamptz not null default now(),
+    check (ends_at > starts_at)
+);
+
+create index if not exists appointments_practitioner_starts_idx on public.appointments (practitioner_id, starts_at);
+create index if not exists appointments_patient_starts_idx on public.appointments (patient_id, starts_at);
+
+alter table public.appointments enable row level security;
+
+-- Each party only sees its own appointments
+create policy "Read own appointments"
+    on public.appointments for select
+    to authenticated
+    using (practitioner_id = auth.uid() or patient_id = auth.uid());
+
+-- Only practitioners book, for themselves
+create policy "Practitioners book appointments"
+    on public.appointments for insert
+    to authenticated
+    with check (practitioner_id = auth.uid() and public.is_practitioner());
+
+create policy "Practitioners manage their appointments"
+    on public.appointments for update
+    to authenticated
+    using (practitioner_id = auth.uid())
+    with check (practitioner_id = auth.uid());
+
+-- Patients can confirm or cancel, nothing else
+create policy "Patients answer their appointments"
+    on public.appointments for update
+    to authenticated
+    using (patient_id = auth.uid())
+    with check (patient_id = auth.uid() and status in ('confirmed', 'cancelled'));
+
+-- Policies cannot compare old and new rows: the answer must leave the rest of the appointment untouched
+create or replace function public.restrict_patient_appointment_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if auth.uid() = old.patient_id and auth.uid() is distinct from old.practitioner_id
+       and (to_jsonb(new) - 'status') is distinct from (to_jsonb(old) - 'status') then
+        raise exception 'Patients can only confirm or cancel their appointments'
+            using errcode = '42501';
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists restrict_patient_appointment_update on public.appointments;
+create trigger restrict_patient_appointment_update
+    before update on public.appointments
+    for each row execute function public.restrict_patient_appointment_update();
+
+create policy "Practitioners delete their appointments"
+    on public.appointments for delete
+    to authenticated
+    using (practitioner_id = auth.uid());
+
+alter publication supabase_realtime add table public.appointments;
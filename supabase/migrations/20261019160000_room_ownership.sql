@@ -0,0 +1,148 @@
+-- Room ownership and row-level access
+--
+-- Every room belongs to the practitioner who created it, may list the
+-- patients invited to it and may expire. Users only see the rooms they own,
+-- the rooms they are invited to (until expiry) and the legacy shared rooms
+-- created before ownership existed (owner_id is null).
+
+alter table public.rooms
+    add column if not exists owner_id            uuid        default auth.uid() references public.profiles (id) on delete cascade,
+    add column if not exists invited_patient_ids uuid[]      not null default '{}',
+    add column if not exists expires_at          timestamptz;
+
+create index if not exists rooms_owner_id_idx on public.rooms (owner_id);
+create index if not exists rooms_invited_patient_ids_idx on public.rooms using gin (invited_patient_ids);
+
+alter table public.rooms enable row level security;
+
+-- Policies created from the dashboard allowed everything to everyone: start from scratch
+do $$
+declare
+    policy record;
+begin
+    for policy in select policyname from pg_policies where schemaname = 'public' and tablename = 'rooms' loop
+        execute format('drop policy %I on public.rooms', policy.policyname);
+    end loop;
+end
+$$;
+
+create or replace function public.can_access_room(target_room uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1 from public.rooms r
+        where r.id = target_room
+          and (
+              r.owner_id = auth.uid()
+              or (
+                  (r.owner_id is null or auth.uid() = any (r.invited_patient_ids))
+                  and (r.expires_at is null or r.expires_at > now())
+              )
+          )
+    );
+$$;
+
+create policy "Read accessible rooms"
+    on public.rooms for select
+    to authenticated
+    using (public.can_access_room(id));
+
+create policy "Practitioners create their rooms"
+    on public.rooms for insert
+    to authenticated
+    with check (owner_id = auth.uid() and public.is_practitioner());
+
+create policy "Owners update their rooms"
+    on public.rooms for update
+    to authenticated
+    using (owner_id = auth.uid())
+    with check (owner_id = auth.uid());
+
+create policy "Owners delete their rooms"
+    on public.rooms for delete
+    to authenticated
+    using (owner_id = auth.uid());
+
+-- Waiting room: patients only queue for rooms they can access,
+-- and only the owner of a room decides on its requests
+create or replace function public.owns_room(target_room uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1 from public.rooms
+        where id = target_room and (owner_id = auth.uid() or (owner_id is null and public.is_practitioner()))
+    );
+$$;
+
+drop policy if exists "Read own or managed admissions" on public.room_admissions;
+create policy "Read own or managed admissions"
+    on public.room_admissions for select
+    to authenticated
+    using (patient_id = auth.uid() or public.owns_room(room_id));
+
+drop policy if exists "Patients request admission" on public.room_admissions;
+create policy "Patients request admission"
+    on public.room_admissions for insert
+    to authenticated
+    with check (patient_id = auth.uid() and status = 'waiting' and public.can_access_room(room_id));
+
+drop policy if exists "Practitioners decide on admissions" on public.room_admissions;
+create policy "Practitioners decide on admissions"
+    on public.room_admissions for update
+    to authenticated
+    using (public.owns_room(room_id))
+    with check (public.owns_room(room_id));
+
+drop policy if exists "Patients leave the waiting room" on public.room_admissions;
+create policy "Patients leave the waiting room"
+    on public.room_admissions for delete
+    to authenticated
+    using (patient_id = auth.uid() or public.owns_room(room_id));
+
+-- Signaling: the owner, invited practitioners (specialists) and admitted patients
+create or replace function public.can_signal_in_room(target_room uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select public.owns_room(target_room)
+        or (public.is_practitioner() and public.can_access_room(target_room))
+        or (
+            public.can_access_room(target_room)
+            and exists (
+                select 1 from public.room_admissions
+                where room_id = target_room and patient_id = auth.uid() and status = 'admitted'
+            )
+        );
+$$;
+
+-- Invites a patient in a single statement, so that concurrent invitations to the same room are all kept
+-- Runs with the rights of the caller: only the owner of the room can update it
+create or replace function public.invite_patient(target_room uuid, patient uuid)
+returns void
+language plpgsql
+volatile
+set search_path = public
+as $$
+begin
+    if not public.owns_room(target_room) then
+        raise exception 'only the owner of the room can invite patients' using errcode = '42501';
+    end if;
+
+    update public.rooms
+    set invited_patient_ids = array_append(invited_patient_ids, patient)
+    where id = target_room and not (patient = any (invited_patient_ids));
+end;
+$$;
+
+grant execute on function public.invite_patient(uuid, uuid) to authenticated;
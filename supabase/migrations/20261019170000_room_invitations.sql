@@ -0,0 +1,115 @@
+-- One-time room invitations
+--
+-- The owner of a room generates an expiring invitation, shared as a link
+-- (/join/<token>) or a short code. Redeeming it server-side invites the
+-- patient to the room and consumes the invitation.
+--
+-- The short code has 48 random bits and failed redemptions are throttled per
+-- user, so codes cannot be guessed by trying them one after another.
+
+create table if not exists public.room_invitations (
+    id          uuid        primary key default gen_random_uuid(),
+    room_id     uuid        not null references public.rooms (id) on delete cascade,
+    token       text        not null unique default encode(extensions.gen_random_bytes(24), 'hex'),
+    code        text        not null unique default upper(encode(extensions.gen_random_bytes(6), 'hex')),
+    created_by  uuid        not null default auth.uid() references public.profiles (id) on delete cascade,
+    expires_at  timestamptz not null default now() + interval '24 hours',
+    used_at     timestamptz,
+    used_by     uuid        references public.profiles (id) on delete set null,
+    created_at  timestamptz not null default now()
+);
+
+create index if not exists room_invitations_room_id_idx on public.room_invitations (room_id);
+
+alter table public.room_invitations enable row level security;
+
+-- Only the owner of the room manages its invitations; patients never read them directly
+create policy "Owners read their invitations"
+    on public.room_invitations for select
+    to authenticated
+    using (public.owns_room(room_id));
+
+create policy "Owners create invitations"
+    on public.room_invitations for insert
+    to authenticated
+    with check (created_by = auth.uid() and public.owns_room(room_id));
+
+create policy "Owners revoke invitations"
+    on public.room_invitations for delete
+    to authenticated
+    using (public.owns_room(room_id));
+
+-- Failed redemptions, used to throttle code guessing; only redeem_room_invitation reads and writes them
+create table if not exists public.room_invitation_failures (
+    user_id      uuid        not null references public.profiles (id) on delete cascade,
+    attempted_at timestamptz not null default now()
+);
+
+create index if not exists room_invitation_failures_user_idx on public.room_invitation_failures (user_id, attempted_at);
+
+alter table public.room_invitation_failures enable row level security;
+
+-- Validates and consumes an invitation (by token or short code), then invites the caller
+-- Returns { status: 'ok' | 'not_found' | 'used' | 'expired' | 'not_patient' | 'throttled', room_id }
+-- Expired invitations are deleted when someone tries to use them
+-- After 10 unknown invitations within 15 minutes, the caller has to wait before trying again
+create or replace function public.redeem_room_invitation(invitation text)
+returns json
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+    invite public.room_invitations%rowtype;
+begin
+    if auth.uid() is null then
+        raise exception 'not authenticated' using errcode = '28000';
+    end if;
+
+    -- Invitations only ever admit patients
+    if not exists (
+        select 1 from public.profiles where id = auth.uid() and user_kind = 'patient'
+    ) then
+        return json_build_object('status', 'not_patient', 'room_id', null);
+    end if;
+
+    delete from public.room_invitation_failures
+    where user_id = auth.uid() and attempted_at <= now() - interval '15 minutes';
+
+    if (select count(*) from public.room_invitation_failures where user_id = auth.uid()) >= 10 then
+        return json_build_object('status', 'throttled', 'room_id', null);
+    end if;
+
+    select * into invite
+    from public.room_invitations
+    where token = invitation or code = upper(invitation)
+    for update;
+
+    if invite.id is null then
+        insert into public.room_invitation_failures (user_id) values (auth.uid());
+        return json_build_object('status', 'not_found', 'room_id', null);
+    end if;
+
+    if invite.used_at is not null then
+        return json_build_object('status', 'used', 'room_id', null);
+    end if;
+
+    if invite.expires_at <= now() then
+        delete from public.room_invitations where id = invite.id;
+        return json_build_object('status', 'expired', 'room_id', null);
+    end if;
+
+    update public.room_invitations
+    set used_at = now(), used_by = auth.uid()
+    where id = invite.id;
+
+    update public.rooms
+    set invited_patient_ids = array_append(invited_patient_ids, auth.uid())
+    where id = invite.room_id and not (auth.uid() = any (invited_patient_ids));
+
+    return json_build_object('status', 'ok', 'room_id', invite.room_id);
+end;
+$$;
+
+grant execute on function public.redeem_room_invitation(text) to authenticated;
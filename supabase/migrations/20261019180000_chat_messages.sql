@@ -0,0 +1,35 @@
+-- Persistent chat history
+--
+-- Chat messages exchanged over the data channel are stored per room, so the
+-- conversation survives reloads and reconnections. The id is generated by
+-- the sender and makes saving idempotent.
+--
+-- Unlike the data channel, the stored content is not end-to-end encrypted:
+-- whoever administers the database can read it. Clients only save the
+-- messages of users who opted in to the history (see features/chat/history).
+
+create table if not exists public.chat_messages (
+    id           uuid        primary key,
+    room_id      uuid        not null references public.rooms (id) on delete cascade,
+    user_id      uuid        not null default auth.uid() references public.profiles (id) on delete cascade,
+    sender       text        not null,  -- Signaling client id of the sender
+    sender_role  text        not null,
+    content      text        not null,
+    sent_at      timestamptz not null default now()
+);
+
+create index if not exists chat_messages_room_sent_idx on public.chat_messages (room_id, sent_at);
+
+alter table public.chat_messages enable row level security;
+
+-- Whoever can take part in the consultation can read its history
+create policy "Participants read the room chat"
+    on public.chat_messages for select
+    to authenticated
+    using (public.can_signal_in_room(room_id));
+
+-- Messages are written by their author only, and never modified
+create policy "Participants write their own messages"
+    on public.chat_messages for insert
+    to authenticated
+    with check (user_id = auth.uid() and public.can_signal_in_room(room_id));